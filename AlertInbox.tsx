@@ -0,0 +1,269 @@
+
+import React, { useState } from 'react';
+import { Bell, ChevronRight, Plus, ShieldAlert, Trash2 } from 'lucide-react';
+import { AlertRule, AlertRuleKind, ComparisonOperator, Item, SectionDefinition, StockAlert, StockLog } from './types';
+import { ALERT_RULE_KIND_LABELS, COMPARISON_OPERATORS, createAlertRule, describeRule } from './alertService';
+import { FILTER_OPERATOR_LABELS } from './searchService';
+import { formatItemLabel } from './itemService';
+import { getActiveSections, getSectionName } from './sectionService';
+import { compareLogs, formatLogDate } from './dateService';
+
+interface AlertInboxProps {
+  alerts: StockAlert[];
+  logs: StockLog[];
+  rules: AlertRule[];
+  sections: SectionDefinition[];
+  items: Item[];
+  columnHeaders: string[];
+  canManageRules: boolean;
+  onSaveRules: (rules: AlertRule[]) => void;
+  onOpenAlert: (alert: StockAlert) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full text-xs bg-slate-50 border border-slate-100 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-blue-500';
+const labelClass = 'block text-[10px] uppercase font-bold text-slate-400 mb-1';
+
+const AlertInbox: React.FC<AlertInboxProps> = ({
+  alerts, logs, rules, sections, items, columnHeaders, canManageRules, onSaveRules, onOpenAlert, onClose
+}) => {
+  const [tab, setTab] = useState<'inbox' | 'rules'>('inbox');
+  const [newKind, setNewKind] = useState<AlertRuleKind>('threshold');
+
+  // Newest logs first, each with its alerts
+  const groups = logs
+    .filter(log => alerts.some(a => a.logId === log.id))
+    .sort((a, b) => compareLogs(b, a))
+    .map(log => ({ log, alerts: alerts.filter(a => a.logId === log.id) }));
+  const blockingCount = alerts.filter(a => a.blocking).length;
+  const activeSections = getActiveSections(sections);
+
+  const updateRule = (id: string, fields: Partial<AlertRule>) => {
+    onSaveRules(rules.map(r => r.id === id ? { ...r, ...fields } : r));
+  };
+
+  const deleteRule = (rule: AlertRule) => {
+    if (confirm(`Delete the rule "${rule.name}"?`)) onSaveRules(rules.filter(r => r.id !== rule.id));
+  };
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="md:hidden p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
+              <Bell size={18} className="text-blue-600" /> Alerts
+            </h2>
+            <p className="text-xs text-slate-500">
+              {alerts.length} {alerts.length === 1 ? 'alert' : 'alerts'}
+              {blockingCount > 0 && `, ${blockingCount} blocking submission`}
+            </p>
+          </div>
+        </div>
+        <div className="flex bg-slate-100 rounded-xl p-1">
+          {(['inbox', 'rules'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-all ${tab === t ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500'}`}
+            >
+              {t === 'inbox' ? 'Inbox' : `Rules (${rules.length})`}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-slate-50/30 space-y-4 no-scrollbar">
+        {tab === 'inbox' && (groups.length ? groups.map(({ log, alerts: logAlerts }) => (
+          <section key={log.id} className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between">
+              <h3 className="font-bold text-sm text-slate-800">{formatLogDate(log)}</h3>
+              <span className="text-xs text-slate-400">{log.author}</span>
+            </div>
+            <ul className="divide-y divide-slate-50">
+              {logAlerts.map(alert => (
+                <li key={alert.id}>
+                  <button onClick={() => onOpenAlert(alert)} className="w-full text-left px-5 py-3 flex items-start gap-3 hover:bg-slate-50 transition-colors">
+                    {alert.blocking
+                      ? <ShieldAlert size={16} className="text-red-500 shrink-0 mt-0.5" />
+                      : <Bell size={16} className="text-amber-500 shrink-0 mt-0.5" />}
+                    <span className="min-w-0 flex-1">
+                      <span className="block text-xs font-bold text-slate-700">{alert.message}</span>
+                      <span className="block text-[10px] text-slate-400">
+                        {alert.ruleName}{alert.blocking && ' · blocks submission'}
+                      </span>
+                    </span>
+                    <ChevronRight size={14} className="text-slate-300 shrink-0 mt-0.5" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )) : (
+          <div className="text-center py-20">
+            <Bell size={40} className="mx-auto text-slate-200 mb-4" />
+            <p className="text-sm font-bold text-slate-500">No alerts</p>
+            <p className="text-xs text-slate-400 mt-1">
+              {rules.length ? 'Every open log meets the alert rules.' : 'Add rules to be warned about low stock or quantities that do not add up.'}
+            </p>
+          </div>
+        ))}
+
+        {tab === 'rules' && (
+          <>
+            {canManageRules && (
+              <div className="flex items-center gap-2">
+                <select className={`${inputClass} bg-white border-slate-200 max-w-xs`} value={newKind} onChange={(e) => setNewKind(e.target.value as AlertRuleKind)}>
+                  {(Object.keys(ALERT_RULE_KIND_LABELS) as AlertRuleKind[]).map(kind => (
+                    <option key={kind} value={kind}>{ALERT_RULE_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => onSaveRules([...rules, createAlertRule(newKind, activeSections)])}
+                  className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-xl text-xs font-bold hover:bg-blue-700 shadow-sm shadow-blue-200"
+                >
+                  <Plus size={14} /> Add Rule
+                </button>
+              </div>
+            )}
+
+            <datalist id="alert-column-headers">
+              {columnHeaders.map(h => <option key={h} value={h} />)}
+            </datalist>
+
+            {rules.map(rule => (
+              <section key={rule.id} className={`bg-white rounded-3xl border border-slate-200 shadow-sm p-5 space-y-4 ${rule.enabled ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-3">
+                  {rule.blocking ? <ShieldAlert size={18} className="text-red-500" /> : <Bell size={18} className="text-amber-500" />}
+                  <div className="flex-1 min-w-0">
+                    {canManageRules ? (
+                      <input
+                        className="w-full bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none py-1 font-bold text-slate-800"
+                        defaultValue={rule.name}
+                        onBlur={(e) => e.target.value.trim() && updateRule(rule.id, { name: e.target.value.trim() })}
+                      />
+                    ) : (
+                      <p className="font-bold text-slate-800">{rule.name}</p>
+                    )}
+                    <p className="text-xs text-slate-500">{describeRule(rule, sections, items)}</p>
+                  </div>
+                  {canManageRules && (
+                    <button onClick={() => deleteRule(rule)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-xl" title="Delete Rule">
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+
+                {canManageRules && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <div>
+                      <label className={labelClass}>{rule.kind === 'compare' ? 'Section' : 'In section'}</label>
+                      <select
+                        className={inputClass}
+                        value={rule.section ?? ''}
+                        onChange={(e) => updateRule(rule.id, { section: e.target.value || undefined })}
+                      >
+                        {rule.kind !== 'compare' && <option value="">Any section</option>}
+                        {activeSections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                      </select>
+                    </div>
+                    {rule.kind !== 'compare' && (
+                      <div>
+                        <label className={labelClass}>Column</label>
+                        <input
+                          className={inputClass}
+                          list="alert-column-headers"
+                          placeholder="e.g. Weight"
+                          value={rule.column ?? ''}
+                          onChange={(e) => updateRule(rule.id, { column: e.target.value })}
+                        />
+                      </div>
+                    )}
+                    {rule.kind !== 'required' && (
+                      <div>
+                        <label className={labelClass}>{rule.kind === 'compare' ? 'Total is' : 'Is'}</label>
+                        <select
+                          className={inputClass}
+                          value={rule.operator}
+                          onChange={(e) => updateRule(rule.id, { operator: e.target.value as ComparisonOperator })}
+                        >
+                          {COMPARISON_OPERATORS.map(op => <option key={op} value={op}>{FILTER_OPERATOR_LABELS[op]}</option>)}
+                        </select>
+                      </div>
+                    )}
+                    {rule.kind === 'threshold' && (
+                      <>
+                        <div>
+                          <label className={labelClass}>Limit</label>
+                          <input
+                            type="number"
+                            className={inputClass}
+                            value={rule.value ?? ''}
+                            onChange={(e) => updateRule(rule.id, { value: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          />
+                        </div>
+                        <div className="col-span-2">
+                          <label className={labelClass}>Only for item</label>
+                          <select
+                            className={inputClass}
+                            value={rule.item ?? ''}
+                            onChange={(e) => updateRule(rule.id, { item: e.target.value || undefined })}
+                          >
+                            <option value="">Every item</option>
+                            {items.map(i => <option key={i.id} value={i.id}>{formatItemLabel(i)}</option>)}
+                          </select>
+                        </div>
+                      </>
+                    )}
+                    {rule.kind === 'compare' && (
+                      <div>
+                        <label className={labelClass}>Than the total in</label>
+                        <select
+                          className={inputClass}
+                          value={rule.otherSection ?? ''}
+                          onChange={(e) => updateRule(rule.id, { otherSection: e.target.value })}
+                        >
+                          {activeSections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {canManageRules && (
+                  <div className="flex flex-wrap gap-4 text-xs font-semibold text-slate-600">
+                    <label className="flex items-center gap-2">
+                      <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} />
+                      Enabled
+                    </label>
+                    <label className="flex items-center gap-2">
+                      <input type="checkbox" checked={rule.blocking} onChange={(e) => updateRule(rule.id, { blocking: e.target.checked })} />
+                      Blocking: the log cannot be submitted or approved while this alert is raised
+                    </label>
+                  </div>
+                )}
+                {rule.kind === 'compare' && rule.section && rule.section === rule.otherSection && (
+                  <p className="text-xs font-bold text-red-500">Pick two different sections; {getSectionName(sections, rule.section)} cannot be compared with itself.</p>
+                )}
+              </section>
+            ))}
+            {!rules.length && (
+              <p className="text-xs font-medium text-slate-400">
+                {canManageRules ? 'No rules yet.' : 'No rules yet. Supervisors and admins can add them.'}
+              </p>
+            )}
+          </>
+        )}
+        <div className="h-20"></div>
+      </main>
+    </>
+  );
+};
+
+export default AlertInbox;
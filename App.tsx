@@ -1,240 +1,811 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useDeferredValue } from 'react';
 import { 
-  Plus, Search, FileText, Lock, Unlock, Download, 
+  Plus, Search, FileText, Download, 
   Trash2, User as UserIcon, LogOut, ChevronRight, 
-  Sparkles, Filter, MoreHorizontal, Copy, X, Users, UserPlus
+  Sparkles, Filter, MoreHorizontal, Copy, X, BookOpen, Package, ShieldCheck,
+  Cloud, CloudOff, RefreshCw, Settings, AlertTriangle, History as HistoryIcon, Clock,
+  Undo2, Redo2, Upload, LayoutTemplate, Bookmark, BarChart3, MonitorDown, QrCode, FileDown,
+  OctagonAlert, Info, Lightbulb, Bell, ShieldAlert, DatabaseBackup
 } from 'lucide-react';
-import { StockLog, LogSectionType, User, SectionData } from './types';
+import {
+  StockLog, User, Item, SortConfig, SectionTemplate, SectionDefinition, LogFilter, SavedView, Shift,
+  AnalysisFinding, LogAnalysis, LogStatus, AlertRule, StockAlert
+} from './types';
 import DynamicTable from './DynamicTable';
-import { exportLogToPDF } from './pdfService';
-import { analyzeStockLog } from './geminiService';
+import LedgerView from './LedgerView';
+import ItemCatalogue from './ItemCatalogue';
+import LoginScreen from './LoginScreen';
+import UserManager from './UserManager';
+import HistoryPanel from './HistoryPanel';
+import ImportDialog from './ImportDialog';
+import TemplateManager from './TemplateManager';
+import NewLogDialog from './NewLogDialog';
+import SectionManager from './SectionManager';
+import SectionIcon from './SectionIcon';
+import SearchFilters from './SearchFilters';
+import HighlightText from './HighlightText';
+import Dashboard from './Dashboard';
+import ConnectionStatus from './ConnectionStatus';
+import LogLabel from './LogLabel';
+import AttachmentGallery from './AttachmentGallery';
+import PdfExportDialog from './PdfExportDialog';
+import ReviewPanel, { STATUS_ICONS } from './ReviewPanel';
+import AlertInbox from './AlertInbox';
+import BackupDialog from './BackupDialog';
+import { storage, migrateFromLocalStorage, createWriteBuffer, readSnapshot, watchBlockedUpgrade, writeSnapshot } from './storageService';
+import {
+  HttpSyncBackend, SyncConflict, SYNC_URL_KEY, runSync,
+  queueLogChange, queueLogDelete, keepLocalCopy, takeRemoteCopy, countPendingChanges
+} from './syncService';
+import { InstallPromptEvent, applyUpdate, isInstalledApp, registerServiceWorker } from './pwaService';
+import { parseLogLink } from './scanService';
+import { addAttachments, countRowAttachments, getAttachments, removeAttachment } from './attachmentService';
+import { ROLE_LABELS } from './authService';
+import { STATUS_ACTIONS, STATUS_BADGES, STATUS_LABELS, changeStatus } from './reviewService';
+import { ALERT_RULES_KEY, getAlerts, getBlockingAlerts } from './alertService';
+import {
+  BACKUP_SETTINGS_KEY, BackupArchive, BackupFormat, BackupSettings, DEFAULT_BACKUP_SETTINGS, RestoreMode,
+  createBackup, describeRestore, downloadBackup, isBackupDue, planRestore
+} from './backupService';
+import { appendChanges, diffLogs, getLogAsOf, revertChange } from './historyService';
+import {
+  UndoStack, EMPTY_UNDO_STACK, pushChanges, pushSort, popUndo, popRedo, applyEdit, canUndo, canRedo
+} from './undoService';
+import {
+  canEditLog as canUserEditLog, canChangeStatus, getAvailableStatuses, COMMENTED_STATUSES, canDeleteLog,
+  canManageUsers, canManageCatalogue, canManageSections, canManageAlertRules, canManageBackups
+} from './permissions';
+import { DEFAULT_PDF_SETTINGS, PDF_SETTINGS_KEY, PdfSettings } from './pdfService';
+import { exportLog, exportSection } from './spreadsheetService';
+import {
+  DefaultTemplates, DEFAULT_TEMPLATES_KEY, buildLogFromTemplates, createTemplate
+} from './templateService';
+import {
+  DEFAULT_SECTIONS, SECTIONS_KEY, SECTION_COLORS, getLogSections, getSectionData, getSectionName, getShortSectionName
+} from './sectionService';
+import {
+  EMPTY_FILTER, SAVED_VIEWS_KEY, countActiveFilters, getCellText, getColumnHeaders, getHighlightTerms, searchLogs
+} from './searchService';
+import { SHIFTS, SHIFT_LABELS, compareLogs, formatLogDate, today } from './dateService';
+import { COMPARE_OPTIONS, analyzeStockLog, buildAnalysisContext, getAnalyzers } from './analysisService';
 
-const EMPTY_SECTION: SectionData = { columns: [{ id: '1', header: 'Details' }], rows: [] };
+const NO_SORT: SortConfig = { key: '', direction: null };
+// Typing saves the log once it pauses this long rather than on every keystroke
+const LOG_SAVE_DELAY_MS = 800;
+
+// Fields outside the tables, like search and comments, keep the browser's own undo.
+// Table cells are inputs too, but there the shortcut steps through the log's edits
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !target.closest('td[data-cell]') &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
 const App: React.FC = () => {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [availableUsers, setAvailableUsers] = useState<User[]>([]);
   const [logs, setLogs] = useState<StockLog[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [templates, setTemplates] = useState<SectionTemplate[]>([]);
+  const [sections, setSections] = useState<SectionDefinition[]>(DEFAULT_SECTIONS);
+  const [defaultTemplates, setDefaultTemplates] = useState<DefaultTemplates>({});
+  const [isChoosingTemplates, setIsChoosingTemplates] = useState(false);
   const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [activeSection, setActiveSection] = useState<LogSectionType>(LogSectionType.DORI);
-  const [aiAnalysis, setAiAnalysis] = useState<string | null>(null);
+  const [filter, setFilter] = useState<LogFilter>(EMPTY_FILTER);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [activeSection, setActiveSection] = useState(DEFAULT_SECTIONS[0].id);
+  const [analysis, setAnalysis] = useState<LogAnalysis | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analyzerName, setAnalyzerName] = useState<string | null>(null);
+  const [compareDays, setCompareDays] = useState(7);
+  // The finding or alert last clicked, whose cell is highlighted in the table
+  const [highlight, setHighlight] = useState<Pick<StockAlert, 'id' | 'logId' | 'section' | 'rowId' | 'columnId'> | null>(null);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [sortOrder, setSortOrder] = useState<'desc' | 'asc'>('desc');
-  const [filterAuthor, setFilterAuthor] = useState('');
-  const [isAddingUser, setIsAddingUser] = useState(false);
+  const [view, setView] = useState<'logs' | 'ledger' | 'dashboard' | 'items' | 'users' | 'templates' | 'sections' | 'alerts'>('logs');
+  const [isLoading, setIsLoading] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [syncUrl, setSyncUrl] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [installPrompt, setInstallPrompt] = useState<InstallPromptEvent | null>(null);
+  const [updateWorker, setUpdateWorker] = useState<ServiceWorker | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyPointId, setHistoryPointId] = useState<string | null>(null);
+  // Per log, for this session only; sorting is view state so it is kept per log and section
+  const [undoStacks, setUndoStacks] = useState<Record<string, UndoStack>>({});
+  const [sorts, setSorts] = useState<Record<string, SortConfig>>({});
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showLabel, setShowLabel] = useState(false);
+  const [attachmentRowId, setAttachmentRowId] = useState<string | null>(null);
+  const [pdfSettings, setPdfSettings] = useState<PdfSettings>(DEFAULT_PDF_SETTINGS);
+  const [pdfExport, setPdfExport] = useState<'log' | 'batch' | null>(null);
+  // A log opened from its QR label; held until the user has signed in and the log is loaded
+  const [linkedLogId, setLinkedLogId] = useState(() => parseLogLink(window.location.href));
+  const [isImporting, setIsImporting] = useState(false);
+  const [backupSettings, setBackupSettings] = useState<BackupSettings>(DEFAULT_BACKUP_SETTINGS);
+  const [showBackup, setShowBackup] = useState(false);
+  const [backupReminderDismissed, setBackupReminderDismissed] = useState(false);
+  const syncInFlight = useRef(false);
+  // Kept in memory only, to sign sync requests; a reload always asks for the PIN again
+  const sessionPin = useRef('');
 
-  // Load from local storage
+  // Load from IndexedDB, bringing over anything still in the old localStorage keys first
   useEffect(() => {
-    const savedUser = localStorage.getItem('stocklog_current_user');
-    if (savedUser) setCurrentUser(JSON.parse(savedUser));
-    
-    const savedUsers = localStorage.getItem('stocklog_users');
-    if (savedUsers) setAvailableUsers(JSON.parse(savedUsers));
-    
-    const savedLogs = localStorage.getItem('stocklog_logs');
-    if (savedLogs) setLogs(JSON.parse(savedLogs));
+    watchBlockedUpgrade(error => setStorageError(error?.message ?? null));
+    const load = async () => {
+      try {
+        await migrateFromLocalStorage();
+        const [
+          savedUsers, savedLogs, savedItems, savedTemplates, savedSections, savedDefaults, savedViewList, savedSyncUrl,
+          savedPdfSettings, savedAlertRules, savedBackupSettings
+        ] = await Promise.all([
+          storage.users.getAll(),
+          storage.logs.getAll(),
+          storage.items.getAll(),
+          storage.templates.getAll(),
+          storage.settings.get<SectionDefinition[]>(SECTIONS_KEY),
+          storage.settings.get<DefaultTemplates>(DEFAULT_TEMPLATES_KEY),
+          storage.settings.get<SavedView[]>(SAVED_VIEWS_KEY),
+          storage.settings.get<string>(SYNC_URL_KEY),
+          storage.settings.get<PdfSettings>(PDF_SETTINGS_KEY),
+          storage.settings.get<AlertRule[]>(ALERT_RULES_KEY),
+          storage.settings.get<BackupSettings>(BACKUP_SETTINGS_KEY)
+        ]);
+        setAvailableUsers(savedUsers);
+        setLogs(savedLogs.sort((a, b) => Number(b.id) - Number(a.id)));
+        setItems(savedItems);
+        setTemplates(savedTemplates);
+        setSections(savedSections ?? DEFAULT_SECTIONS);
+        setDefaultTemplates(savedDefaults ?? {});
+        setSavedViews(savedViewList ?? []);
+        setSyncUrl(savedSyncUrl ?? null);
+        setPdfSettings({ ...DEFAULT_PDF_SETTINGS, ...savedPdfSettings });
+        setAlertRules(savedAlertRules ?? []);
+        setBackupSettings({ ...DEFAULT_BACKUP_SETTINGS, ...savedBackupSettings });
+      } catch (err) {
+        setStorageError((err as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+    persist(refreshPendingCount());
   }, []);
 
-  // Sync users and logs to storage
   useEffect(() => {
-    localStorage.setItem('stocklog_users', JSON.stringify(availableUsers));
-  }, [availableUsers]);
+    registerServiceWorker(setUpdateWorker).catch(() => undefined);
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    const offerInstall = (e: Event) => {
+      // Keep the browser's own banner back; the sidebar offers the install instead
+      e.preventDefault();
+      if (!isInstalledApp()) setInstallPrompt(e as InstallPromptEvent);
+    };
+    const installed = () => setInstallPrompt(null);
+    const followLink = () => setLinkedLogId(parseLogLink(window.location.href));
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    window.addEventListener('beforeinstallprompt', offerInstall);
+    window.addEventListener('appinstalled', installed);
+    window.addEventListener('hashchange', followLink);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      window.removeEventListener('beforeinstallprompt', offerInstall);
+      window.removeEventListener('appinstalled', installed);
+      window.removeEventListener('hashchange', followLink);
+    };
+  }, []);
+
+  // Writes go straight to the changed record; a failure is surfaced instead of silently dropped
+  const persist = (write: Promise<void>) => {
+    write.catch(err => setStorageError((err as Error).message));
+  };
+
+  const refreshPendingCount = async () => {
+    setPendingCount(await countPendingChanges());
+  };
+
+  const writeLog = (log: StockLog) => storage.logs.put(log).then(() => queueLogChange(log)).then(refreshPendingCount);
+
+  const logWrites = useMemo(
+    () => createWriteBuffer(writeLog, LOG_SAVE_DELAY_MS, err => setStorageError(err.message)),
+    []
+  );
+
+  const saveLog = (log: StockLog) => {
+    logWrites.cancel(log.id);
+    persist(writeLog(log));
+  };
+
+  // Edits still waiting to be saved are written before the page can be closed or frozen
+  useEffect(() => {
+    const flush = () => persist(logWrites.flush());
+    const flushWhenHidden = () => document.visibilityState === 'hidden' && flush();
+    document.addEventListener('visibilitychange', flushWhenHidden);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', flushWhenHidden);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, []);
+
+  const installApp = async () => {
+    if (!installPrompt) return;
+    await installPrompt.prompt();
+    setInstallPrompt(null);
+  };
+
+  // Edits made offline wait in the outbox; coming back online syncs them straight away
+  const performSync = async () => {
+    if (!syncUrl || !currentUser || !isOnline || syncInFlight.current) return;
+    syncInFlight.current = true;
+    setIsSyncing(true);
+    try {
+      await logWrites.flush();
+      const result = await runSync(new HttpSyncBackend(syncUrl, currentUser, sessionPin.current));
+      if (result.users.length) {
+        setAvailableUsers(prev => [
+          ...prev.filter(u => !result.users.some(r => r.name === u.name)),
+          ...result.users
+        ]);
+        const me = result.users.find(u => u.name === currentUser.name);
+        if (me?.disabled) {
+          handleLogout();
+        } else if (me) {
+          setCurrentUser(me);
+        }
+      }
+      setLogs(prev => {
+        let next = prev.filter(l => !result.removed.includes(l.id));
+        for (const synced of result.updated) {
+          const current = next.find(l => l.id === synced.id);
+          if (!current) {
+            next = [synced, ...next];
+          } else if ((current.updatedAt ?? 0) > (synced.updatedAt ?? 0)) {
+            // Edited while the sync was running: keep the edit, rebased on the new revision
+            const rebased = { ...current, revision: synced.revision };
+            logWrites.schedule(rebased.id, rebased);
+            next = next.map(l => l.id === synced.id ? rebased : l);
+          } else {
+            next = next.map(l => l.id === synced.id ? synced : l);
+          }
+        }
+        return next;
+      });
+      setConflicts(result.conflicts);
+      setSyncError(null);
+      setLastSyncedAt(Date.now());
+    } catch (err) {
+      setSyncError((err as Error).message);
+    } finally {
+      syncInFlight.current = false;
+      setIsSyncing(false);
+      persist(refreshPendingCount());
+    }
+  };
 
   useEffect(() => {
-    localStorage.setItem('stocklog_logs', JSON.stringify(logs));
-  }, [logs]);
-
-  const handleCreateUser = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const formData = new FormData(e.currentTarget);
-    const name = formData.get('name') as string;
-    if (name.trim()) {
-      const newUser = { name: name.trim() };
-      if (!availableUsers.find(u => u.name === newUser.name)) {
-        setAvailableUsers([...availableUsers, newUser]);
+    if (!syncUrl || !currentUser) return;
+    performSync();
+    const timer = setInterval(performSync, 30000);
+    return () => clearInterval(timer);
+  }, [syncUrl, currentUser?.name, isOnline]);
+
+  const configureSync = () => {
+    const url = prompt('Sync server URL (leave empty to keep logs on this device only)', syncUrl ?? 'http://localhost:8787');
+    if (url === null) return;
+    const trimmed = url.trim();
+    setSyncUrl(trimmed || null);
+    setSyncError(null);
+    persist(trimmed ? storage.settings.set(SYNC_URL_KEY, trimmed) : storage.settings.remove(SYNC_URL_KEY));
+  };
+
+  const resolveConflict = async (conflict: SyncConflict, keepMine: boolean) => {
+    if (keepMine) {
+      const local = keepLocalCopy(conflict);
+      if (local) {
+        setLogs(logs.map(l => l.id === local.id ? local : l));
+        saveLog(local);
       }
-      handleSelectUser(newUser);
-      setIsAddingUser(false);
+    } else {
+      await takeRemoteCopy(conflict);
+      const remote = conflict.remote;
+      setLogs(remote
+        ? (logs.some(l => l.id === remote.id) ? logs.map(l => l.id === remote.id ? remote : l) : [remote, ...logs])
+        : logs.filter(l => l.id !== conflict.logId));
     }
+    setConflicts(conflicts.filter(c => c.logId !== conflict.logId));
+  };
+
+  const saveUser = (user: User) => {
+    setAvailableUsers(prev => prev.some(u => u.name === user.name)
+      ? prev.map(u => u.name === user.name ? user : u)
+      : [...prev, user]);
+    if (user.name === currentUser?.name) setCurrentUser(user);
+    persist(storage.users.put(user));
   };
 
-  const handleSelectUser = (user: User) => {
+  const handleSignIn = (user: User, pin: string) => {
+    sessionPin.current = pin;
     setCurrentUser(user);
-    localStorage.setItem('stocklog_current_user', JSON.stringify(user));
   };
 
   const handleLogout = () => {
+    persist(logWrites.flush());
+    sessionPin.current = '';
     setCurrentUser(null);
-    localStorage.removeItem('stocklog_current_user');
     setSelectedLogId(null);
+    setView('logs');
   };
 
-  const createNewLog = () => {
+  const createNewLog = (chosen: DefaultTemplates = defaultTemplates, date = today(), shift?: Shift) => {
     if (!currentUser) return;
-    const newLog: StockLog = {
-      id: Date.now().toString(),
-      date: new Date().toLocaleDateString(),
-      author: currentUser.name,
-      isLocked: false,
-      [LogSectionType.DORI]: JSON.parse(JSON.stringify(EMPTY_SECTION)),
-      [LogSectionType.WARPIN]: JSON.parse(JSON.stringify(EMPTY_SECTION)),
-      [LogSectionType.BHEEM]: JSON.parse(JSON.stringify(EMPTY_SECTION)),
-      [LogSectionType.DELIVERY]: JSON.parse(JSON.stringify(EMPTY_SECTION))
-    };
+    const newLog = { ...buildLogFromTemplates(currentUser.name, sections, templates, chosen), date, shift };
+    setIsChoosingTemplates(false);
+    setView('logs');
     setLogs([newLog, ...logs]);
+    saveLog(newLog);
     setSelectedLogId(newLog.id);
   };
 
+  // Copies the tables only. The opening count was taken on the original's day and would reset
+  // the ledger balance on the copy's, and its history, photos and reviews are not the copy's either
   const duplicateLog = (log: StockLog) => {
     if (!currentUser) return;
+    const { history, attachments, openingStock, ...copied } = log;
     const duplicated: StockLog = {
-      ...JSON.parse(JSON.stringify(log)),
+      ...copied,
+      sections: JSON.parse(JSON.stringify(log.sections)),
       id: Date.now().toString(),
-      date: new Date().toLocaleDateString(),
+      date: today(),
+      createdAt: Date.now(),
       author: currentUser.name,
-      isLocked: false
+      status: LogStatus.DRAFT,
+      statusHistory: [],
+      updatedAt: Date.now(),
+      revision: undefined
     };
     setLogs([duplicated, ...logs]);
+    saveLog(duplicated);
     setSelectedLogId(duplicated.id);
   };
 
-  const updateLog = (updatedLog: StockLog) => {
-    setLogs(logs.map(l => l.id === updatedLog.id ? updatedLog : l));
+  const updateLog = (updatedLog: StockLog, undoable = true) => {
+    if (!currentUser) return;
+    const previous = logs.find(l => l.id === updatedLog.id);
+    // Diffed once for both the history and the undo stack
+    const changes = previous ? diffLogs(previous, updatedLog) : [];
+    if (changes.length && undoable) {
+      setUndoStacks(prev => ({
+        ...prev,
+        [updatedLog.id]: pushChanges(prev[updatedLog.id] ?? EMPTY_UNDO_STACK, changes)
+      }));
+    }
+    // A sync that is running may be sending the last change, so typing is not merged into it
+    const stamped = {
+      ...appendChanges(updatedLog, changes, currentUser.name, Date.now(), !syncInFlight.current),
+      updatedAt: Date.now()
+    };
+    setLogs(logs.map(l => l.id === stamped.id ? stamped : l));
+    logWrites.schedule(stamped.id, stamped);
   };
 
-  const deleteLog = (id: string) => {
+  const deleteLog = (log: StockLog) => {
     if (confirm('Are you sure you want to delete this log?')) {
-      setLogs(logs.filter(l => l.id !== id));
-      if (selectedLogId === id) setSelectedLogId(null);
+      logWrites.cancel(log.id);
+      setLogs(logs.filter(l => l.id !== log.id));
+      persist(storage.logs.delete(log.id).then(() => queueLogDelete(log)).then(refreshPendingCount));
+      if (selectedLogId === log.id) setSelectedLogId(null);
+    }
+  };
+
+  // Typing replaces `logs` on every keystroke; what is worked out across all logs catches up once it pauses
+  const deferredLogs = useDeferredValue(logs);
+
+  // Re-checked whenever a log, rule or section changes
+  const alerts = useMemo(() => getAlerts(alertRules, deferredLogs, sections, items), [alertRules, deferredLogs, sections, items]);
+
+  const changeLogStatus = (log: StockLog, status: LogStatus) => {
+    if (!currentUser || !canChangeStatus(currentUser, log, status)) return;
+    // Checked against the log as it is now, not the deferred list
+    const blocking = getBlockingAlerts(getAlerts(alertRules, [log], sections, items), log.id);
+    if ((status === LogStatus.SUBMITTED || status === LogStatus.APPROVED) && blocking.length) {
+      alert(`This log cannot be ${status} until these are fixed:\n\n${blocking.map(a => `• ${a.message}`).join('\n')}`);
+      return;
+    }
+    let comment: string | undefined;
+    if (COMMENTED_STATUSES.includes(status)) {
+      const answer = prompt(status === LogStatus.REJECTED ? `What does ${log.author} need to fix?` : 'Why is this log being reopened?');
+      if (!answer?.trim()) return;
+      comment = answer;
+    } else if (status === LogStatus.APPROVED && !confirm('Approve this log? It cannot be changed afterwards unless it is reopened.')) {
+      return;
     }
+    updateLog(changeStatus(log, status, currentUser.name, comment), false);
+  };
+
+  const saveItem = (item: Item) => {
+    setItems(items.some(i => i.id === item.id) ? items.map(i => i.id === item.id ? item : i) : [item, ...items]);
+    persist(storage.items.put(item));
+  };
+
+  const saveTemplate = (template: SectionTemplate) => {
+    setTemplates(prev => prev.some(t => t.id === template.id)
+      ? prev.map(t => t.id === template.id ? template : t)
+      : [...prev, template]);
+    persist(storage.templates.put(template));
+  };
+
+  const setDefaultTemplate = (section: string, id: string | undefined) => {
+    const next = { ...defaultTemplates, [section]: id };
+    if (!id) delete next[section];
+    setDefaultTemplates(next);
+    persist(storage.settings.set(DEFAULT_TEMPLATES_KEY, next));
+  };
+
+  const deleteTemplate = (id: string) => {
+    const template = templates.find(t => t.id === id);
+    setTemplates(templates.filter(t => t.id !== id));
+    persist(storage.templates.delete(id));
+    if (template && defaultTemplates[template.section] === id) setDefaultTemplate(template.section, undefined);
   };
 
-  const toggleLock = (log: StockLog) => {
-    if (log.author !== currentUser?.name) return;
-    updateLog({ ...log, isLocked: !log.isLocked });
+  const saveSectionAsTemplate = (log: StockLog, section: string) => {
+    const sectionName = getSectionName(sections, section);
+    const name = prompt(`Name for the new ${sectionName} template`, `${sectionName} layout`);
+    if (!name?.trim()) return;
+    const data = getSectionData(log, section);
+    const includeRows = data.rows.length > 0 &&
+      confirm(`Keep the ${data.rows.length} current rows as default rows? Cancel saves the columns only.`);
+    saveTemplate(createTemplate(name, section, data, includeRows));
   };
 
+  const saveSections = (next: SectionDefinition[]) => {
+    setSections(next);
+    persist(storage.settings.set(SECTIONS_KEY, next));
+  };
+
+  const deleteItem = (id: string) => {
+    setItems(items.filter(i => i.id !== id));
+    persist(storage.items.delete(id));
+  };
+
+  const openLog = (id: string, section?: string) => {
+    setView('logs');
+    setSelectedLogId(id);
+    if (section) setActiveSection(section);
+  };
+
+  // The log may only arrive with the next sync, so the link waits until it is there
+  useEffect(() => {
+    if (!linkedLogId || !currentUser || !logs.some(l => l.id === linkedLogId)) return;
+    openLog(linkedLogId);
+    setLinkedLogId(null);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, [linkedLogId, currentUser, logs]);
+
+  const savePdfSettings = (next: PdfSettings) => {
+    setPdfSettings(next);
+    persist(storage.settings.set(PDF_SETTINGS_KEY, next));
+  };
+
+  const saveAlertRules = (next: AlertRule[]) => {
+    setAlertRules(next);
+    persist(storage.settings.set(ALERT_RULES_KEY, next));
+  };
+
+  const saveBackupSettings = (next: BackupSettings) => {
+    setBackupSettings(next);
+    persist(storage.settings.set(BACKUP_SETTINGS_KEY, next));
+  };
+
+  // Typing may still be waiting to be written, and the backup should include it
+  const backUp = async (format: BackupFormat = 'zip') => {
+    await logWrites.flush();
+    downloadBackup(createBackup(await readSnapshot(), currentUser!.name), format);
+    saveBackupSettings({ ...backupSettings, lastBackupAt: Date.now() });
+  };
+
+  const restoreBackup = async (archive: BackupArchive, mode: RestoreMode) => {
+    await logWrites.flush();
+    const { data, summary } = planRestore(await readSnapshot(), archive.data, mode);
+    await writeSnapshot(data, mode === 'replace');
+    return describeRestore(summary);
+  };
+
+  const saveSavedViews = (next: SavedView[]) => {
+    setSavedViews(next);
+    persist(storage.settings.set(SAVED_VIEWS_KEY, next));
+  };
+
+  const saveCurrentView = () => {
+    const name = prompt('Name for this view', filter.text.trim());
+    if (!name?.trim()) return;
+    saveSavedViews([...savedViews, { id: Date.now().toString(), name: name.trim(), filter }]);
+  };
+
+  useEffect(() => {
+    setHistoryPointId(null);
+    setAttachmentRowId(null);
+    setAnalysis(null);
+    setAnalysisError(null);
+  }, [selectedLogId]);
+
+  const canEditLog = (log: StockLog) => canUserEditLog(currentUser, log);
+
   const selectedLog = logs.find(l => l.id === selectedLogId);
-  const canEdit = selectedLog && !selectedLog.isLocked && selectedLog.author === currentUser?.name;
+  const canEdit = selectedLog && canEditLog(selectedLog);
+  const displayedLog = selectedLog && historyPointId ? getLogAsOf(selectedLog, historyPointId) : selectedLog;
+  const historyPoint = historyPointId && selectedLog?.history?.find(c => c.id === historyPointId);
+  const undoStack = (selectedLog && undoStacks[selectedLog.id]) || EMPTY_UNDO_STACK;
+  const sortKey = selectedLog ? `${selectedLog.id}:${activeSection}` : '';
+  const logSections = displayedLog ? getLogSections(displayedLog, sections) : [];
+  const logAlerts = selectedLog ? alerts.filter(a => a.logId === selectedLog.id) : [];
+  const activeDefinition = logSections.find(s => s.id === activeSection);
+
+  // The open tab may have been archived, or may not exist in the log just opened
+  useEffect(() => {
+    if (logSections.length && !activeDefinition) setActiveSection(logSections[0].id);
+  }, [selectedLogId, sections, activeDefinition]);
+
+  const changeSort = (sort: SortConfig) => {
+    if (!selectedLog) return;
+    setSorts({ ...sorts, [sortKey]: sort });
+    setUndoStacks({ ...undoStacks, [selectedLog.id]: pushSort(undoStack, activeSection, sorts[sortKey] ?? NO_SORT, sort) });
+  };
+
+  const stepUndo = (direction: 'undo' | 'redo') => {
+    if (!selectedLog || historyPoint) return;
+    const popped = direction === 'undo' ? popUndo(undoStack) : popRedo(undoStack);
+    if (!popped) return;
+    const { entry } = popped;
+    if (entry.kind === 'edit') {
+      if (!canEdit) return;
+      updateLog(applyEdit(selectedLog, entry, direction), false);
+      const section = entry.changes.find(c => c.section)?.section;
+      if (section) setActiveSection(section);
+    } else {
+      setSorts({ ...sorts, [`${selectedLog.id}:${entry.section}`]: direction === 'undo' ? entry.before : entry.after });
+      setActiveSection(entry.section);
+    }
+    setUndoStacks({ ...undoStacks, [selectedLog.id]: popped.stack });
+  };
+
+  // Re-registered every render so the handler always sees the current log and stacks
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || view !== 'logs' || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        stepUndo(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+  const selectedConflict = selectedLog && conflicts.find(c => c.logId === selectedLog.id);
+
+  const describeAttachmentRow = ({ section, rowId }: { section?: string; rowId?: string }) => {
+    if (!section || !rowId || !displayedLog) return null;
+    const index = getSectionData(displayedLog, section).rows.findIndex(r => r.id === rowId);
+    return `${getSectionName(sections, section)} · ${index >= 0 ? `row ${index + 1}` : 'deleted row'}`;
+  };
+  const showMain = !!selectedLogId || view !== 'logs';
 
   const filteredLogs = useMemo(() => {
-    return logs
-      .filter(l => {
-        const matchesSearch = l.date.includes(searchQuery) || 
-                             l.author.toLowerCase().includes(searchQuery.toLowerCase());
-        const matchesAuthor = filterAuthor === '' || l.author.toLowerCase() === filterAuthor.toLowerCase();
-        return matchesSearch && matchesAuthor;
-      })
-      .sort((a, b) => {
-        const dateA = new Date(a.date).getTime();
-        const dateB = new Date(b.date).getTime();
-        return sortOrder === 'desc' ? dateB - dateA : dateA - dateB;
-      });
-  }, [logs, searchQuery, sortOrder, filterAuthor]);
+    return searchLogs(deferredLogs, filter, items)
+      .sort((a, b) => sortOrder === 'desc' ? compareLogs(b.log, a.log) : compareLogs(a.log, b.log));
+  }, [deferredLogs, filter, sortOrder, items]);
+
+  const authorsInLogs = useMemo(() => Array.from(new Set(deferredLogs.map(l => l.author))), [deferredLogs]);
+  const columnHeaders = useMemo(() => getColumnHeaders(deferredLogs), [deferredLogs]);
+  const highlightTerms = getHighlightTerms(filter);
+  const activeFilterCount = countActiveFilters(filter);
 
-  const authorsInLogs = useMemo(() => Array.from(new Set(logs.map(l => l.author))), [logs]);
+  const analyzers = useMemo(getAnalyzers, []);
 
-  const handleAiAnalyze = async () => {
+  const runAnalysis = async (name = analyzerName, days = compareDays) => {
     if (!selectedLog) return;
+    const analyzer = analyzers.find(a => a.name === name) ?? analyzers[0];
+    setAnalyzerName(analyzer.name);
+    setCompareDays(days);
     setIsAnalyzing(true);
-    const result = await analyzeStockLog(selectedLog);
-    setAiAnalysis(result);
-    setIsAnalyzing(false);
+    setAnalysisError(null);
+    setHighlight(null);
+    try {
+      const context = buildAnalysisContext(selectedLog, logs, sections, items, days);
+      setAnalysis(await analyzeStockLog(selectedLog, sections, context, analyzer));
+    } catch (err) {
+      setAnalysis(null);
+      setAnalysisError((err as Error).message);
+    } finally {
+      setIsAnalyzing(false);
+    }
   };
 
-  if (!currentUser) {
-    return (
-      <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-50 to-blue-100">
-        <div className="bg-white p-8 rounded-3xl shadow-2xl w-full max-w-md space-y-8 border border-white">
-          <div className="text-center">
-            <div className="inline-flex p-4 bg-blue-600 text-white rounded-2xl mb-4 shadow-lg shadow-blue-200">
-              <Users size={32} />
-            </div>
-            <h1 className="text-3xl font-black text-slate-900 tracking-tight">StockLog Access</h1>
-            <p className="text-slate-500 font-medium">Select your profile to continue</p>
-          </div>
+  const closeAnalysis = () => {
+    setAnalysis(null);
+    setAnalysisError(null);
+    setHighlight(null);
+  };
 
-          {!isAddingUser && availableUsers.length > 0 ? (
-            <div className="space-y-3">
-              <div className="max-h-60 overflow-y-auto pr-2 no-scrollbar space-y-2">
-                {availableUsers.map(user => (
-                  <button
-                    key={user.name}
-                    onClick={() => handleSelectUser(user)}
-                    className="w-full flex items-center justify-between p-4 bg-slate-50 hover:bg-blue-50 border border-slate-100 hover:border-blue-200 rounded-2xl transition-all group"
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 rounded-full bg-white border border-slate-200 flex items-center justify-center text-slate-400 group-hover:text-blue-500">
-                        <UserIcon size={20} />
-                      </div>
-                      <span className="font-bold text-slate-700">{user.name}</span>
-                    </div>
-                    <ChevronRight size={18} className="text-slate-300 group-hover:text-blue-400" />
-                  </button>
-                ))}
-              </div>
-              <button 
-                onClick={() => setIsAddingUser(true)}
-                className="w-full py-4 border-2 border-dashed border-slate-200 rounded-2xl text-slate-400 font-bold text-sm hover:border-blue-400 hover:text-blue-500 transition-all flex items-center justify-center gap-2"
-              >
-                <UserPlus size={18} /> Add New User
-              </button>
-            </div>
-          ) : (
-            <form onSubmit={handleCreateUser} className="space-y-4 animate-in fade-in duration-300">
-              <div>
-                <label className="block text-xs font-black uppercase text-slate-400 mb-2 tracking-widest">Employee Name</label>
-                <input 
-                  name="name"
-                  required
-                  autoFocus
-                  className="w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:bg-white focus:outline-none transition-all font-bold text-slate-800"
-                  placeholder="Enter full name"
-                />
-              </div>
-              <div className="flex gap-2">
-                {availableUsers.length > 0 && (
-                  <button 
-                    type="button"
-                    onClick={() => setIsAddingUser(false)}
-                    className="flex-1 py-4 bg-slate-100 text-slate-600 font-bold rounded-2xl hover:bg-slate-200 transition-all"
-                  >
-                    Back
-                  </button>
-                )}
-                <button 
-                  type="submit"
-                  className="flex-[2] bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-2xl transition-all shadow-lg shadow-blue-200"
-                >
-                  Confirm Identity
-                </button>
-              </div>
-            </form>
-          )}
-        </div>
+  const showFinding = (finding: AnalysisFinding) => {
+    if (!finding.section || !selectedLog) return;
+    setHistoryPointId(null);
+    setActiveSection(finding.section);
+    setHighlight({ ...finding, logId: selectedLog.id });
+  };
+
+  const openAlert = (alert: StockAlert) => {
+    openLog(alert.logId, alert.section);
+    setHistoryPointId(null);
+    setHighlight(alert);
+  };
+
+  const storageErrorBanner = storageError && (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 max-w-md w-[calc(100%-2rem)] p-4 bg-red-50 border border-red-200 rounded-2xl shadow-xl flex items-start gap-3 text-red-800">
+      <p className="flex-1 text-xs font-medium">
+        <span className="font-bold block">Changes could not be saved on this device</span>
+        {storageError}
+      </p>
+      <button onClick={() => setStorageError(null)} className="text-red-400 hover:text-red-600"><X size={16} /></button>
+    </div>
+  );
+
+  const updateBanner = updateWorker && (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 max-w-md w-[calc(100%-2rem)] p-3 bg-blue-50 border border-blue-200 rounded-2xl shadow-xl flex items-center gap-3 text-blue-900 print:hidden">
+      <p className="flex-1 text-xs font-medium">
+        <span className="font-bold block">A new version of StockLog is ready</span>
+        Reloading asks for your PIN again; unsynced changes stay on this device.
+      </p>
+      <button
+        onClick={() => applyUpdate(updateWorker)}
+        className="px-3 py-1.5 bg-blue-600 text-white rounded-xl text-xs font-bold hover:bg-blue-700 transition-all"
+      >
+        Reload
+      </button>
+      <button onClick={() => setUpdateWorker(null)} className="text-blue-400 hover:text-blue-600"><X size={16} /></button>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center text-white font-bold text-sm shadow-md animate-pulse">SL</div>
       </div>
     );
   }
 
+  if (!currentUser) {
+    return (
+      <>
+        <LoginScreen users={availableUsers} onSaveUser={saveUser} onSignIn={handleSignIn} />
+        {storageErrorBanner}
+        {updateBanner}
+      </>
+    );
+  }
+
   return (
     <div className="min-h-screen flex flex-col md:flex-row bg-slate-50 text-slate-900">
+      {storageErrorBanner}
+      {updateBanner}
+      {isChoosingTemplates && (
+        <NewLogDialog
+          sections={sections}
+          templates={templates}
+          defaults={defaultTemplates}
+          onCreate={createNewLog}
+          onClose={() => setIsChoosingTemplates(false)}
+        />
+      )}
+      {(pdfExport === 'batch' || (pdfExport === 'log' && selectedLog)) && (
+        <PdfExportDialog
+          log={pdfExport === 'log' ? selectedLog : undefined}
+          logs={logs}
+          sections={pdfExport === 'log' ? logSections : sections}
+          items={items}
+          settings={pdfSettings}
+          onSaveSettings={savePdfSettings}
+          onClose={() => setPdfExport(null)}
+        />
+      )}
+      {showBackup && (
+        <BackupDialog
+          settings={backupSettings}
+          onSaveSettings={saveBackupSettings}
+          onBackUp={backUp}
+          onRestore={restoreBackup}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
       {/* Sidebar / List View */}
-      <div className={`w-full md:w-80 border-r border-slate-200 flex flex-col glass h-screen ${selectedLogId && 'hidden md:flex'}`}>
+      <div className={`w-full md:w-80 border-r border-slate-200 flex flex-col glass h-screen print:hidden ${showMain && 'hidden md:flex'}`}>
         <div className="p-4 flex items-center justify-between border-b border-slate-100 bg-white/50">
           <div className="flex items-center gap-2">
             <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center text-white font-bold text-xs shadow-md">SL</div>
             <h1 className="font-bold text-lg tracking-tight">StockLogs</h1>
+            <ConnectionStatus isOnline={isOnline} pendingCount={syncUrl ? pendingCount : 0} compact />
+          </div>
+          <div className="flex items-center gap-1">
+            {canManageUsers(currentUser) && (
+              <button 
+                onClick={() => setView(view === 'users' ? 'logs' : 'users')}
+                className={`p-2 rounded-full transition-colors ${view === 'users' ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+                title="Users & Roles"
+              >
+                <ShieldCheck size={18} />
+              </button>
+            )}
+            {canManageCatalogue(currentUser) && (
+              <button 
+                onClick={() => setView(view === 'items' ? 'logs' : 'items')}
+                className={`p-2 rounded-full transition-colors ${view === 'items' ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+                title="Item Catalogue"
+              >
+                <Package size={18} />
+              </button>
+            )}
+            {canManageBackups(currentUser) && (
+              <button 
+                onClick={() => setShowBackup(true)}
+                className="p-2 rounded-full transition-colors text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+                title="Backup & Restore"
+              >
+                <DatabaseBackup size={18} />
+              </button>
+            )}
+            <button 
+              onClick={() => setView(view === 'templates' ? 'logs' : 'templates')}
+              className={`p-2 rounded-full transition-colors ${view === 'templates' ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+              title="Section Templates"
+            >
+              <LayoutTemplate size={18} />
+            </button>
+            <button 
+              onClick={() => setView(view === 'dashboard' ? 'logs' : 'dashboard')}
+              className={`p-2 rounded-full transition-colors ${view === 'dashboard' ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+              title="Dashboard"
+            >
+              <BarChart3 size={18} />
+            </button>
+            <button 
+              onClick={() => setView(view === 'ledger' ? 'logs' : 'ledger')}
+              className={`p-2 rounded-full transition-colors ${view === 'ledger' ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+              title="Stock Ledger"
+            >
+              <BookOpen size={18} />
+            </button>
+            <button 
+              onClick={() => setView(view === 'alerts' ? 'logs' : 'alerts')}
+              className={`relative p-2 rounded-full transition-colors ${view === 'alerts' ? 'bg-blue-50 text-blue-600' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+              title="Alerts"
+            >
+              <Bell size={18} />
+              {alerts.length > 0 && (
+                <span className={`absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full text-[9px] font-bold text-white flex items-center justify-center ${
+                  alerts.some(a => a.blocking) ? 'bg-red-500' : 'bg-amber-500'
+                }`}>
+                  {alerts.length > 99 ? '99+' : alerts.length}
+                </span>
+              )}
+            </button>
+            <button 
+              onClick={handleLogout}
+              className="p-2 hover:bg-red-50 rounded-full transition-colors text-slate-400 hover:text-red-500"
+              title="Switch User / Logout"
+            >
+              <LogOut size={18} />
+            </button>
           </div>
-          <button 
-            onClick={handleLogout}
-            className="p-2 hover:bg-red-50 rounded-full transition-colors text-slate-400 hover:text-red-500"
-            title="Switch User / Logout"
-          >
-            <LogOut size={18} />
-          </button>
         </div>
 
         <div className="p-4 space-y-3 bg-white/30">
@@ -242,9 +813,9 @@ const App: React.FC = () => {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
             <input 
               className="w-full pl-10 pr-4 py-2 bg-slate-100/50 border border-transparent rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white text-sm transition-all"
-              placeholder="Search logs..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search logs and entries..."
+              value={filter.text}
+              onChange={(e) => setFilter({ ...filter, text: e.target.value })}
             />
           </div>
           
@@ -256,7 +827,7 @@ const App: React.FC = () => {
                   showFilters ? 'bg-blue-600 text-white border-blue-600' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
                 }`}
               >
-                <Filter size={14} /> Filter
+                <Filter size={14} /> Filter{activeFilterCount > 0 && ` (${activeFilterCount})`}
               </button>
               <button 
                 onClick={() => setSortOrder(sortOrder === 'desc' ? 'asc' : 'desc')}
@@ -265,59 +836,125 @@ const App: React.FC = () => {
                 {sortOrder === 'desc' ? 'Newest' : 'Oldest'}
               </button>
               <button 
-                onClick={createNewLog}
-                className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-xl text-xs font-bold hover:bg-blue-700 shadow-sm shadow-blue-200"
+                onClick={() => setPdfExport('batch')}
+                className="p-2 bg-white border border-slate-200 rounded-xl text-slate-600 hover:bg-slate-50"
+                title="Export a Date Range to PDF"
               >
-                <Plus size={14} /> New
+                <FileDown size={14} />
               </button>
-            </div>
-
-            {showFilters && (
-              <div className="p-3 bg-white rounded-xl border border-slate-200 shadow-sm animate-in slide-in-from-top-2 duration-200">
-                <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Filter by Author</label>
-                <select 
-                  className="w-full text-xs bg-slate-50 border border-slate-100 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
-                  value={filterAuthor}
-                  onChange={(e) => setFilterAuthor(e.target.value)}
+              <div className="flex">
+                <button 
+                  onClick={() => createNewLog()}
+                  className="flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-l-xl text-xs font-bold hover:bg-blue-700 shadow-sm shadow-blue-200"
                 >
-                  <option value="">All Authors</option>
-                  {authorsInLogs.map(a => <option key={a} value={a}>{a}</option>)}
-                </select>
+                  <Plus size={14} /> New
+                </button>
                 <button 
-                  onClick={() => {setFilterAuthor(''); setShowFilters(false)}}
-                  className="mt-2 text-[10px] text-blue-600 font-bold hover:underline"
+                  onClick={() => setIsChoosingTemplates(true)}
+                  className="px-2 py-2 bg-blue-600 text-white rounded-r-xl border-l border-blue-500 hover:bg-blue-700 shadow-sm shadow-blue-200"
+                  title="New Log for Another Day, Shift or Templates"
                 >
-                  Clear Filters
+                  <LayoutTemplate size={14} />
                 </button>
               </div>
+            </div>
+
+            {showFilters && (
+              <SearchFilters
+                filter={filter}
+                authors={authorsInLogs}
+                sections={sections}
+                columnHeaders={columnHeaders}
+                onChange={setFilter}
+                onSaveView={saveCurrentView}
+                onClose={() => setShowFilters(false)}
+              />
+            )}
+
+            {savedViews.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {savedViews.map(savedView => {
+                  const isActive = JSON.stringify(savedView.filter) === JSON.stringify(filter);
+                  return (
+                    <span
+                      key={savedView.id}
+                      className={`flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg text-[10px] font-bold border ${
+                        isActive ? 'bg-blue-50 border-blue-200 text-blue-600' : 'bg-white border-slate-200 text-slate-500'
+                      }`}
+                    >
+                      <button onClick={() => setFilter(isActive ? EMPTY_FILTER : savedView.filter)} className="flex items-center gap-1">
+                        <Bookmark size={10} /> {savedView.name}
+                      </button>
+                      <button
+                        onClick={() => confirm(`Delete the view "${savedView.name}"?`) && saveSavedViews(savedViews.filter(v => v.id !== savedView.id))}
+                        className="text-slate-300 hover:text-red-500"
+                        title="Delete View"
+                      >
+                        <X size={10} />
+                      </button>
+                    </span>
+                  );
+                })}
+              </div>
             )}
           </div>
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 space-y-2 no-scrollbar">
-          {filteredLogs.map(log => (
+          {filteredLogs.map(({ log, rows }) => (
             <div 
               key={log.id}
-              onClick={() => setSelectedLogId(log.id)}
+              onClick={() => openLog(log.id)}
               className={`p-4 rounded-2xl cursor-pointer transition-all border group relative ${
-                selectedLogId === log.id 
+                selectedLogId === log.id && view === 'logs'
                 ? 'bg-blue-50 border-blue-200 shadow-sm' 
                 : 'bg-white border-transparent hover:border-slate-200'
               }`}
             >
               <div className="flex items-start justify-between">
                 <div>
-                  <p className="text-[10px] font-bold text-blue-600 uppercase tracking-wider mb-1">{log.date}</p>
+                  <p className="text-[10px] font-bold text-blue-600 uppercase tracking-wider mb-1">
+                    <HighlightText text={formatLogDate(log)} terms={highlightTerms} />
+                  </p>
                   <h3 className="font-semibold text-slate-800 flex items-center gap-1.5 truncate">
-                    {log.author}
-                    {log.isLocked && <Lock size={12} className="text-amber-500" />}
+                    <HighlightText text={log.author} terms={highlightTerms} />
+                    <span className={`text-[9px] px-1.5 py-0.5 rounded font-bold uppercase tracking-wide ${STATUS_BADGES[log.status]}`}>
+                      {STATUS_LABELS[log.status]}
+                    </span>
                   </h3>
-                  <div className="mt-1 flex gap-1">
-                    <span className="text-[9px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded font-medium">Dori</span>
-                    <span className="text-[9px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded font-medium">Warp</span>
-                    <span className="text-[9px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded font-medium">Bheem</span>
-                    <span className="text-[9px] px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded font-medium">Del</span>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {getLogSections(log, sections).map(section => (
+                      <span
+                        key={section.id}
+                        className={`text-[9px] px-1.5 py-0.5 rounded font-medium ${SECTION_COLORS[section.color]?.chip ?? SECTION_COLORS.slate.chip}`}
+                      >
+                        {getShortSectionName(section)}
+                      </span>
+                    ))}
                   </div>
+                  {rows.slice(0, 3).map(({ section, row, columns }) => (
+                    <button
+                      key={`${section}:${row.id}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        openLog(log.id, section);
+                      }}
+                      className="mt-2 block w-full text-left text-[11px] text-slate-500 leading-snug hover:text-slate-800"
+                    >
+                      <span className="font-bold text-slate-400">{getSectionName(sections, section)}: </span>
+                      <HighlightText
+                        terms={highlightTerms}
+                        text={columns
+                          .map(col => [col.header, getCellText(col, row.values[col.id], items)])
+                          .filter(([, text]) => text)
+                          .map(([header, text]) => `${header} ${text}`)
+                          .join(' · ')}
+                      />
+                    </button>
+                  ))}
+                  {rows.length > 3 && (
+                    <p className="mt-1 text-[10px] font-bold text-slate-400">+{rows.length - 3} more matching rows</p>
+                  )}
                 </div>
                 <ChevronRight size={18} className={`text-slate-300 transition-transform ${selectedLogId === log.id ? 'translate-x-1' : ''}`} />
               </div>
@@ -337,16 +974,133 @@ const App: React.FC = () => {
               <UserIcon size={20} className="text-blue-600" />
             </div>
             <div className="flex-1 overflow-hidden">
-              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-tight leading-none mb-1">Signed in as</p>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-tight leading-none mb-1">Signed in as {ROLE_LABELS[currentUser.role]}</p>
               <p className="text-sm font-bold text-slate-800 truncate">{currentUser.name}</p>
             </div>
           </div>
+          <div className="mt-3 flex items-center gap-2 text-[11px] font-semibold">
+            <button
+              onClick={performSync}
+              disabled={!syncUrl || !isOnline || isSyncing}
+              className={`flex-1 flex items-center gap-2 px-3 py-2 rounded-xl border transition-all text-left ${
+                syncError || conflicts.length ? 'border-red-200 bg-red-50 text-red-600' : 'border-slate-100 bg-slate-50 text-slate-500 hover:bg-slate-100'
+              }`}
+              title={syncError ?? undefined}
+            >
+              {!syncUrl ? <CloudOff size={14} /> : isSyncing ? <RefreshCw size={14} className="animate-spin" /> : <Cloud size={14} />}
+              <span className="truncate">
+                {!syncUrl
+                  ? 'Only on this device'
+                  : !isOnline
+                    ? pendingCount ? `Offline · ${pendingCount} waiting` : 'Offline'
+                    : isSyncing
+                      ? 'Syncing...'
+                      : syncError
+                        ? 'Sync failed'
+                        : conflicts.length
+                          ? `${conflicts.length} sync ${conflicts.length === 1 ? 'conflict' : 'conflicts'}`
+                          : lastSyncedAt
+                            ? `Synced ${new Date(lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                            : 'Not synced yet'}
+              </span>
+            </button>
+            <button
+              onClick={configureSync}
+              className="p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors"
+              title="Sync Settings"
+            >
+              <Settings size={14} />
+            </button>
+          </div>
+          {installPrompt && (
+            <button
+              onClick={installApp}
+              className="mt-2 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-blue-50 text-blue-600 text-[11px] font-bold hover:bg-blue-100 transition-colors"
+            >
+              <MonitorDown size={14} /> Install StockLog on this device
+            </button>
+          )}
+          {canManageBackups(currentUser) && isBackupDue(backupSettings) && !backupReminderDismissed && (
+            <div className="mt-2 flex items-center gap-2 px-3 py-2 rounded-xl bg-amber-50 text-amber-700 text-[11px] font-bold">
+              <DatabaseBackup size={14} className="shrink-0" />
+              <span className="flex-1">{backupSettings.lastBackupAt ? 'No backup in the last day' : 'No backup made yet'}</span>
+              <button
+                onClick={() => persist(backUp())}
+                className="px-2 py-1 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors"
+              >
+                Back up
+              </button>
+              <button onClick={() => setBackupReminderDismissed(true)} className="text-amber-400 hover:text-amber-600" title="Remind me later">
+                <X size={14} />
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
       {/* Main Content Area */}
-      <div className={`flex-1 flex flex-col h-screen overflow-hidden ${!selectedLogId && 'hidden md:flex'}`}>
-        {selectedLog ? (
+      <div className={`flex-1 flex flex-col h-screen overflow-hidden print:h-auto print:overflow-visible ${!showMain && 'hidden md:flex'}`}>
+        {view === 'dashboard' ? (
+          <Dashboard
+            logs={logs}
+            items={items}
+            sections={sections}
+            onClose={() => setView('logs')}
+          />
+        ) : view === 'ledger' ? (
+          <LedgerView
+            logs={logs}
+            items={items}
+            sections={sections}
+            canEditLog={canEditLog}
+            onUpdateLog={updateLog}
+            onOpenLog={openLog}
+            onClose={() => setView('logs')}
+          />
+        ) : view === 'users' ? (
+          <UserManager
+            users={availableUsers}
+            currentUser={currentUser}
+            onSaveUser={saveUser}
+            onClose={() => setView('logs')}
+          />
+        ) : view === 'templates' ? (
+          <TemplateManager
+            sections={sections}
+            templates={templates}
+            defaults={defaultTemplates}
+            onSaveTemplate={saveTemplate}
+            onDeleteTemplate={deleteTemplate}
+            onSetDefault={setDefaultTemplate}
+            onClose={() => setView('logs')}
+          />
+        ) : view === 'sections' ? (
+          <SectionManager
+            sections={sections}
+            onSaveSections={saveSections}
+            onClose={() => setView('logs')}
+          />
+        ) : view === 'alerts' ? (
+          <AlertInbox
+            alerts={alerts}
+            logs={logs}
+            rules={alertRules}
+            sections={sections}
+            items={items}
+            columnHeaders={columnHeaders}
+            canManageRules={canManageAlertRules(currentUser)}
+            onSaveRules={saveAlertRules}
+            onOpenAlert={openAlert}
+            onClose={() => setView('logs')}
+          />
+        ) : view === 'items' ? (
+          <ItemCatalogue
+            items={items}
+            onSaveItem={saveItem}
+            onDeleteItem={deleteItem}
+            onClose={() => setView('logs')}
+          />
+        ) : selectedLog ? (
           <>
             {/* Header */}
             <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm">
@@ -359,9 +1113,30 @@ const App: React.FC = () => {
                 </button>
                 <div>
                   <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
-                    {selectedLog.date}
-                    {selectedLog.isLocked && <Lock size={16} className="text-amber-500" />}
+                    {formatLogDate(selectedLog, { dateStyle: 'full' })}
+                    <span className={`text-[10px] px-2 py-0.5 rounded-lg font-bold uppercase tracking-wide ${STATUS_BADGES[selectedLog.status]}`}>
+                      {STATUS_LABELS[selectedLog.status]}
+                    </span>
                   </h2>
+                  {canEdit && !historyPoint && (
+                    <div className="flex items-center gap-2 my-1">
+                      <input
+                        type="date"
+                        className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        value={selectedLog.date}
+                        max={today()}
+                        onChange={(e) => e.target.value && updateLog({ ...selectedLog, date: e.target.value })}
+                      />
+                      <select
+                        className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        value={selectedLog.shift ?? ''}
+                        onChange={(e) => updateLog({ ...selectedLog, shift: (e.target.value || undefined) as Shift | undefined })}
+                      >
+                        <option value="">Whole day</option>
+                        {SHIFTS.map(s => <option key={s} value={s}>{SHIFT_LABELS[s]}</option>)}
+                      </select>
+                    </div>
+                  )}
                   <p className="text-xs text-slate-500 flex items-center gap-1">
                     Created by <span className={`font-bold ${selectedLog.author === currentUser.name ? 'text-blue-600' : 'text-slate-700'}`}>
                       {selectedLog.author === currentUser.name ? 'You' : selectedLog.author}
@@ -371,86 +1146,322 @@ const App: React.FC = () => {
               </div>
 
               <div className="flex items-center gap-1 md:gap-2">
+                <ConnectionStatus isOnline={isOnline} pendingCount={syncUrl ? pendingCount : 0} />
                 <button 
-                  onClick={handleAiAnalyze}
+                  onClick={() => runAnalysis()}
                   className="flex items-center gap-1.5 px-3 py-2 bg-violet-50 text-violet-600 rounded-xl text-xs font-bold hover:bg-violet-100 transition-all border border-violet-100 disabled:opacity-50"
                   disabled={isAnalyzing}
                 >
                   <Sparkles size={14} className={isAnalyzing ? 'animate-spin' : ''} />
-                  <span className="hidden sm:inline">{isAnalyzing ? 'Thinking...' : 'AI Insights'}</span>
+                  <span className="hidden sm:inline">{isAnalyzing ? 'Analysing...' : 'Analyse'}</span>
                 </button>
                 
                 <div className="h-6 w-px bg-slate-200 mx-1"></div>
 
                 <button 
-                  onClick={() => duplicateLog(selectedLog)}
+                  onClick={() => stepUndo('undo')}
+                  disabled={!canUndo(undoStack) || !!historyPoint}
+                  className="p-2 hover:bg-slate-100 rounded-xl text-slate-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 size={20} />
+                </button>
+                <button 
+                  onClick={() => stepUndo('redo')}
+                  disabled={!canRedo(undoStack) || !!historyPoint}
+                  className="p-2 hover:bg-slate-100 rounded-xl text-slate-600 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 size={20} />
+                </button>
+                <button 
+                  onClick={() => {
+                    setShowHistory(!showHistory);
+                    setHistoryPointId(null);
+                  }}
+                  className={`p-2 rounded-xl transition-colors ${showHistory ? 'bg-blue-50 text-blue-600' : 'hover:bg-slate-100 text-slate-600'}`}
+                  title="Change History"
+                >
+                  <HistoryIcon size={20} />
+                </button>
+                <button 
+                  onClick={() => setShowLabel(true)}
                   className="p-2 hover:bg-slate-100 rounded-xl text-slate-600 transition-colors"
-                  title="Duplicate as Template"
+                  title="QR Label"
                 >
-                  <Copy size={20} />
+                  <QrCode size={20} />
                 </button>
                 <button 
-                  onClick={() => exportLogToPDF(selectedLog)}
+                  onClick={() => duplicateLog(selectedLog)}
                   className="p-2 hover:bg-slate-100 rounded-xl text-slate-600 transition-colors"
-                  title="Download PDF"
+                  title="Duplicate Log"
                 >
-                  <Download size={20} />
+                  <Copy size={20} />
                 </button>
-
-                {selectedLog.author === currentUser.name && (
-                  <>
-                    <button 
-                      onClick={() => toggleLock(selectedLog)}
-                      className={`p-2 rounded-xl transition-all ${selectedLog.isLocked ? 'bg-amber-100 text-amber-600 border border-amber-200' : 'hover:bg-slate-100 text-slate-600 border border-transparent'}`}
-                      title={selectedLog.isLocked ? "Unlock Log" : "Lock Log"}
+                <div className="relative">
+                  <button 
+                    onClick={() => setShowExportMenu(!showExportMenu)}
+                    className={`p-2 rounded-xl text-slate-600 transition-colors ${showExportMenu ? 'bg-slate-100' : 'hover:bg-slate-100'}`}
+                    title="Download"
+                  >
+                    <Download size={20} />
+                  </button>
+                  {showExportMenu && (
+                    <div
+                      className="absolute right-0 mt-2 w-56 bg-white border border-slate-200 rounded-2xl shadow-xl p-2 z-20 text-sm animate-in fade-in duration-150"
+                      onClick={() => setShowExportMenu(false)}
                     >
-                      {selectedLog.isLocked ? <Lock size={20} /> : <Unlock size={20} />}
-                    </button>
-                    <button 
-                      onClick={() => deleteLog(selectedLog.id)}
-                      className="p-2 hover:bg-red-50 text-red-500 rounded-xl transition-colors"
-                      title="Delete Log"
+                      <button onClick={() => setPdfExport('log')} className="w-full text-left px-3 py-2 rounded-xl hover:bg-slate-50 font-semibold text-slate-700">
+                        PDF report...
+                      </button>
+                      {activeDefinition && (
+                        <>
+                          <p className="px-3 pt-2 pb-1 text-[10px] uppercase font-bold text-slate-400">{activeDefinition.name}</p>
+                          <button onClick={() => exportSection(selectedLog, activeDefinition, 'csv', items)} className="w-full text-left px-3 py-2 rounded-xl hover:bg-slate-50 font-semibold text-slate-700">
+                            CSV
+                          </button>
+                          <button onClick={() => exportSection(selectedLog, activeDefinition, 'xlsx', items)} className="w-full text-left px-3 py-2 rounded-xl hover:bg-slate-50 font-semibold text-slate-700">
+                            Excel
+                          </button>
+                        </>
+                      )}
+                      <p className="px-3 pt-2 pb-1 text-[10px] uppercase font-bold text-slate-400">Whole log</p>
+                      <button onClick={() => exportLog(selectedLog, logSections, 'csv', items)} className="w-full text-left px-3 py-2 rounded-xl hover:bg-slate-50 font-semibold text-slate-700">
+                        CSV
+                      </button>
+                      <button onClick={() => exportLog(selectedLog, logSections, 'xlsx', items)} className="w-full text-left px-3 py-2 rounded-xl hover:bg-slate-50 font-semibold text-slate-700">
+                        Excel (one sheet per section)
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                {!historyPoint && getAvailableStatuses(currentUser, selectedLog).map(status => {
+                  const StatusIcon = STATUS_ICONS[status];
+                  return (
+                    <button
+                      key={status}
+                      onClick={() => changeLogStatus(selectedLog, status)}
+                      className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-xs font-bold transition-all border ${
+                        status === LogStatus.REJECTED || status === LogStatus.DRAFT || status === LogStatus.REOPENED
+                          ? 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                          : 'bg-blue-600 text-white border-blue-600 hover:bg-blue-700 shadow-sm shadow-blue-200'
+                      }`}
+                      title={STATUS_ACTIONS[status]}
                     >
-                      <Trash2 size={20} />
+                      <StatusIcon size={14} />
+                      <span className="hidden sm:inline">{STATUS_ACTIONS[status]}</span>
                     </button>
-                  </>
+                  );
+                })}
+                {canDeleteLog(currentUser, selectedLog) && (
+                  <button 
+                    onClick={() => deleteLog(selectedLog)}
+                    className="p-2 hover:bg-red-50 text-red-500 rounded-xl transition-colors"
+                    title="Delete Log"
+                  >
+                    <Trash2 size={20} />
+                  </button>
                 )}
               </div>
             </header>
 
-            {/* AI Insights Card */}
-            {aiAnalysis && (
+            {/* Sync conflict for this log */}
+            {selectedConflict && (
+              <div className="m-4 mb-0 p-4 bg-red-50 border border-red-200 rounded-2xl flex flex-col sm:flex-row sm:items-center gap-3 text-red-900">
+                <AlertTriangle size={20} className="text-red-500 shrink-0" />
+                <p className="flex-1 text-xs font-medium">
+                  <span className="font-bold block">
+                    {selectedConflict.reason ? 'The sync server refused this change' : 'This log was changed on another device'}
+                  </span>
+                  {selectedConflict.reason ?? (selectedConflict.remote
+                    ? 'Choose which copy to keep. The other copy will be discarded.'
+                    : 'It was deleted on the server. Keep your copy to restore it.')}
+                </p>
+                <div className="flex gap-2">
+                  {selectedConflict.local && !selectedConflict.reason && (
+                    <button
+                      onClick={() => resolveConflict(selectedConflict, true)}
+                      className="px-3 py-2 bg-white border border-red-200 rounded-xl text-xs font-bold hover:bg-red-100 transition-all"
+                    >
+                      Keep mine
+                    </button>
+                  )}
+                  <button
+                    onClick={() => resolveConflict(selectedConflict, false)}
+                    className="px-3 py-2 bg-red-600 text-white rounded-xl text-xs font-bold hover:bg-red-700 transition-all"
+                  >
+                    Use server copy
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {showHistory && (
+              <HistoryPanel
+                log={selectedLog}
+                items={items}
+                sections={sections}
+                viewingChangeId={historyPointId}
+                canRevert={!!canEdit}
+                onViewChange={setHistoryPointId}
+                onRevert={(changeId) => {
+                  setHistoryPointId(null);
+                  updateLog(revertChange(selectedLog, changeId));
+                }}
+                onClose={() => {
+                  setShowHistory(false);
+                  setHistoryPointId(null);
+                }}
+              />
+            )}
+
+            {historyPoint && (
+              <div className="m-4 mb-0 p-3 bg-blue-50 border border-blue-200 rounded-2xl flex items-center gap-3 text-blue-900">
+                <Clock size={16} className="text-blue-500 shrink-0" />
+                <p className="flex-1 text-xs font-medium">
+                  Showing this log as it was on {new Date(historyPoint.at).toLocaleString()}, after a change by {historyPoint.user}
+                </p>
+                <button
+                  onClick={() => setHistoryPointId(null)}
+                  className="px-3 py-1.5 bg-white border border-blue-200 rounded-xl text-xs font-bold hover:bg-blue-100 transition-all"
+                >
+                  Back to current
+                </button>
+              </div>
+            )}
+
+            {/* Analysis Card */}
+            {(analysis || analysisError) && (
               <div className="m-4 p-5 bg-gradient-to-br from-violet-600 to-indigo-700 text-white rounded-2xl shadow-xl relative overflow-hidden group border border-violet-400/30 animate-in zoom-in-95 duration-300">
                 <div className="absolute top-[-10px] right-[-10px] p-2 opacity-10 group-hover:scale-110 transition-transform duration-700">
                   <Sparkles size={80} />
                 </div>
-                <div className="flex items-center justify-between mb-3 relative z-10">
-                  <h4 className="text-sm font-bold flex items-center gap-2 uppercase tracking-widest"><Sparkles size={16} /> Gemini AI Analysis</h4>
-                  <button onClick={() => setAiAnalysis(null)} className="text-white/60 hover:text-white transition-colors"><X size={18} /></button>
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-3 relative z-10">
+                  <h4 className="text-sm font-bold flex items-center gap-2 uppercase tracking-widest"><Sparkles size={16} /> Log Analysis</h4>
+                  <div className="flex items-center gap-2">
+                    {analyzers.length > 1 && (
+                      <select
+                        className="text-xs font-semibold bg-white/10 border border-white/20 rounded-lg px-2 py-1 focus:outline-none [&>option]:text-slate-800"
+                        value={analyzerName ?? ''}
+                        disabled={isAnalyzing}
+                        onChange={(e) => runAnalysis(e.target.value, compareDays)}
+                      >
+                        {analyzers.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+                      </select>
+                    )}
+                    <select
+                      className="text-xs font-semibold bg-white/10 border border-white/20 rounded-lg px-2 py-1 focus:outline-none [&>option]:text-slate-800"
+                      value={compareDays}
+                      disabled={isAnalyzing}
+                      onChange={(e) => runAnalysis(analyzerName, Number(e.target.value))}
+                    >
+                      {COMPARE_OPTIONS.map(days => (
+                        <option key={days} value={days}>{days ? `Compare with last ${days} days` : 'This log only'}</option>
+                      ))}
+                    </select>
+                    <button onClick={closeAnalysis} className="text-white/60 hover:text-white transition-colors"><X size={18} /></button>
+                  </div>
                 </div>
-                <p className="text-sm text-violet-50 leading-relaxed italic relative z-10 font-medium">"{aiAnalysis}"</p>
-                <div className="mt-3 text-[10px] text-violet-200/60 uppercase tracking-tighter relative z-10">AI-generated summary based on table data</div>
+                {analysisError && <p className="text-sm font-bold text-red-100 relative z-10">{analysisError}</p>}
+                {analysis && (
+                  <div className={`space-y-3 relative z-10 ${isAnalyzing ? 'opacity-60' : ''}`}>
+                    {analysis.notice && <p className="text-xs font-semibold text-amber-200">{analysis.notice}</p>}
+                    <p className="text-sm text-violet-50 leading-relaxed font-medium">{analysis.summary}</p>
+                    {analysis.findings.length > 0 && (
+                      <ul className="space-y-1.5 max-h-64 overflow-y-auto no-scrollbar">
+                        {analysis.findings.map(finding => {
+                          const SeverityIcon = finding.severity === 'critical' ? OctagonAlert : finding.severity === 'warning' ? AlertTriangle : Info;
+                          return (
+                            <li key={finding.id}>
+                              <button
+                                onClick={() => showFinding(finding)}
+                                disabled={!finding.section}
+                                className={`w-full text-left flex items-start gap-2 p-2 rounded-xl transition-colors disabled:cursor-default ${
+                                  highlight?.id === finding.id ? 'bg-white/20' : 'enabled:hover:bg-white/10'
+                                }`}
+                              >
+                                <SeverityIcon
+                                  size={14}
+                                  className={`mt-0.5 shrink-0 ${finding.severity === 'critical' ? 'text-red-300' : finding.severity === 'warning' ? 'text-amber-300' : 'text-violet-200'}`}
+                                />
+                                <span className="min-w-0">
+                                  <span className="block text-xs font-bold">{finding.title}</span>
+                                  <span className="block text-xs text-violet-100/80">{finding.detail}</span>
+                                </span>
+                              </button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                    {analysis.actions.length > 0 && (
+                      <div>
+                        <p className="text-[10px] font-bold uppercase tracking-widest text-violet-200 flex items-center gap-1 mb-1"><Lightbulb size={12} /> Suggested actions</p>
+                        <ul className="list-disc list-inside text-xs text-violet-50 space-y-0.5">
+                          {analysis.actions.map((action, i) => <li key={i}>{action}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    <div className="text-[10px] text-violet-200/60 uppercase tracking-tighter">
+                      {analysis.source}
+                      {analysis.comparedLogs > 0 && ` · compared with ${analysis.comparedLogs} earlier ${analysis.comparedLogs === 1 ? 'log' : 'logs'}`}
+                      {analysis.findings.some(f => f.section) && ' · click a finding to show it in the table'}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {logAlerts.length > 0 && !historyPoint && (
+              <div className={`m-4 mb-0 p-3 border rounded-2xl ${logAlerts.some(a => a.blocking) ? 'bg-red-50 border-red-200 text-red-900' : 'bg-amber-50 border-amber-200 text-amber-900'}`}>
+                <p className="text-xs font-bold flex items-center gap-2 mb-1">
+                  <Bell size={14} /> {logAlerts.length} {logAlerts.length === 1 ? 'alert' : 'alerts'} on this log
+                </p>
+                <ul className="max-h-28 overflow-y-auto no-scrollbar">
+                  {logAlerts.map(a => (
+                    <li key={a.id}>
+                      <button
+                        onClick={() => openAlert(a)}
+                        className={`w-full text-left flex items-center gap-2 px-2 py-1 rounded-lg text-xs font-medium hover:bg-white/60 ${highlight?.id === a.id ? 'bg-white/80' : ''}`}
+                      >
+                        {a.blocking && <ShieldAlert size={12} className="text-red-500 shrink-0" />}
+                        <span className="truncate">{a.message}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
 
             {/* Navigation Tabs */}
             <nav className="px-4 flex items-center gap-6 border-b border-slate-100 overflow-x-auto no-scrollbar bg-white sticky top-0 z-[5]">
-              {Object.values(LogSectionType).map(type => (
+              {logSections.map(section => (
                 <button
-                  key={type}
-                  onClick={() => setActiveSection(type)}
-                  className={`py-4 text-sm font-bold whitespace-nowrap transition-all border-b-2 px-2 relative ${
-                    activeSection === type 
-                    ? 'border-blue-600 text-blue-600' 
+                  key={section.id}
+                  onClick={() => setActiveSection(section.id)}
+                  className={`py-4 text-sm font-bold whitespace-nowrap transition-all border-b-2 px-2 relative flex items-center gap-2 ${
+                    activeSection === section.id 
+                    ? SECTION_COLORS[section.color]?.accent ?? SECTION_COLORS.slate.accent
                     : 'border-transparent text-slate-400 hover:text-slate-600'
                   }`}
                 >
-                  {type}
-                  {activeSection === type && (
-                    <span className="absolute -bottom-[1px] left-0 right-0 h-[2px] bg-blue-600 blur-[2px] opacity-40"></span>
+                  <SectionIcon name={section.icon} size={14} />
+                  {section.name}
+                  {activeSection === section.id && (
+                    <span className="absolute -bottom-[1px] left-0 right-0 h-[2px] bg-current blur-[2px] opacity-40"></span>
                   )}
                 </button>
               ))}
+              {canManageSections(currentUser) && (
+                <button
+                  onClick={() => setView('sections')}
+                  className="ml-auto p-2 rounded-xl text-slate-400 hover:bg-slate-100 hover:text-slate-600 transition-colors"
+                  title="Manage Sections"
+                >
+                  <Settings size={16} />
+                </button>
+              )}
             </nav>
 
             {/* Editor Content */}
@@ -458,36 +1469,81 @@ const App: React.FC = () => {
               <section className="animate-in fade-in slide-in-from-bottom-2 duration-500">
                 <div className="flex items-center justify-between mb-6">
                   <div>
-                    <h3 className="text-2xl font-black text-slate-800 tracking-tight">{activeSection}</h3>
+                    <h3 className="text-2xl font-black text-slate-800 tracking-tight">{getSectionName(sections, activeSection)}</h3>
                     <p className="text-sm text-slate-500 font-medium mt-1">Configure and manage stock entries with dynamic tables.</p>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => saveSectionAsTemplate(selectedLog, activeSection)}
+                      className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50"
+                    >
+                      <LayoutTemplate size={14} /> Save as Template
+                    </button>
+                    {canEdit && !historyPoint && (
+                      <button
+                        onClick={() => setIsImporting(true)}
+                        className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50"
+                      >
+                        <Upload size={14} /> Import
+                      </button>
+                    )}
+                  </div>
                 </div>
 
+                {isImporting && (
+                  <ImportDialog
+                    sectionName={getSectionName(sections, activeSection)}
+                    data={getSectionData(selectedLog, activeSection)}
+                    items={items}
+                    onApply={(newData) => {
+                      updateLog({ ...selectedLog, sections: { ...selectedLog.sections, [activeSection]: newData } });
+                      setIsImporting(false);
+                    }}
+                    onClose={() => setIsImporting(false)}
+                  />
+                )}
+                {showLabel && <LogLabel log={selectedLog} onClose={() => setShowLabel(false)} />}
+
                 <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden p-6">
                    <DynamicTable 
-                    data={selectedLog[activeSection]}
-                    onChange={(newData) => updateLog({ ...selectedLog, [activeSection]: newData })}
-                    readOnly={!canEdit}
+                    data={getSectionData(displayedLog!, activeSection)}
+                    onChange={(newData) => updateLog({ ...selectedLog, sections: { ...selectedLog.sections, [activeSection]: newData } })}
+                    readOnly={!canEdit || !!historyPoint}
+                    items={items}
+                    sort={sorts[sortKey] ?? NO_SORT}
+                    onSortChange={changeSort}
+                    attachmentCounts={countRowAttachments(displayedLog!, activeSection)}
+                    onOpenAttachments={setAttachmentRowId}
+                    highlight={highlight?.logId === selectedLog.id && highlight.section === activeSection ? highlight : null}
                    />
                 </div>
               </section>
 
-              {/* Status Info for locked items */}
-              {!canEdit && (
-                <div className="p-6 bg-amber-50 border border-amber-200 rounded-3xl flex items-start gap-4 text-amber-900 shadow-sm">
-                  <div className="p-2 bg-amber-100 rounded-full text-amber-600">
-                    <Lock size={20} />
-                  </div>
-                  <div>
-                    <h5 className="font-bold text-sm">Log Read-Only</h5>
-                    <p className="text-xs font-medium text-amber-800/80 mt-1 leading-relaxed">
-                      {selectedLog.isLocked 
-                        ? "This log has been finalized and locked. Editing is disabled until the author unlocks it." 
-                        : `This entry belongs to ${selectedLog.author}. You can view the data but cannot modify it.`}
-                    </p>
-                  </div>
-                </div>
+              <section className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6">
+                <AttachmentGallery
+                  title="Photos & Documents"
+                  attachments={getAttachments(displayedLog!)}
+                  author={currentUser.name}
+                  describeTarget={describeAttachmentRow}
+                  readOnly={!canEdit || !!historyPoint}
+                  onAdd={(added) => updateLog(addAttachments(selectedLog, added))}
+                  onRemove={(attachment) => updateLog(removeAttachment(selectedLog, attachment.id))}
+                />
+              </section>
+              {attachmentRowId && (
+                <AttachmentGallery
+                  title={describeAttachmentRow({ section: activeSection, rowId: attachmentRowId }) ?? 'Row'}
+                  attachments={getAttachments(displayedLog!, { section: activeSection, rowId: attachmentRowId })}
+                  author={currentUser.name}
+                  target={{ section: activeSection, rowId: attachmentRowId }}
+                  readOnly={!canEdit || !!historyPoint}
+                  onAdd={(added) => updateLog(addAttachments(selectedLog, added))}
+                  onRemove={(attachment) => updateLog(removeAttachment(selectedLog, attachment.id))}
+                  onClose={() => setAttachmentRowId(null)}
+                />
               )}
+
+              {!historyPoint && <ReviewPanel log={selectedLog} currentUser={currentUser} />}
               
               <div className="h-20"></div> {/* Bottom Spacer */}
             </main>
@@ -502,7 +1558,7 @@ const App: React.FC = () => {
               Start your daily stock records. Your entries are private and secure.
             </p>
             <button 
-              onClick={createNewLog}
+              onClick={() => createNewLog()}
               className="mt-8 px-8 py-4 bg-blue-600 text-white rounded-2xl font-bold hover:bg-blue-700 transition-all shadow-xl shadow-blue-200 flex items-center gap-3 transform active:scale-95"
             >
               <Plus size={20} /> New Daily Entry
@@ -0,0 +1,186 @@
+
+import React, { useState } from 'react';
+import { Camera, ExternalLink, FileText, Paperclip, Trash2, Upload, X } from 'lucide-react';
+import { Attachment } from './types';
+import {
+  ATTACHMENT_ACCEPT, AttachmentTarget, createAttachment, formatFileSize, isImageAttachment, openAttachment
+} from './attachmentService';
+
+interface AttachmentGalleryProps {
+  title: string;
+  attachments: Attachment[];
+  /** Signed-in user, recorded on new attachments */
+  author: string;
+  /** New attachments go to this row; without it they belong to the whole log */
+  target?: AttachmentTarget;
+  /** Where an attachment belongs, e.g. "Dori · row 2", shown under its thumbnail */
+  describeTarget?: (attachment: Attachment) => string | null;
+  readOnly?: boolean;
+  onAdd: (attachments: Attachment[]) => void;
+  onRemove: (attachment: Attachment) => void;
+  /** Shows the gallery as a dialog */
+  onClose?: () => void;
+}
+
+const buttonClass = 'flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50 cursor-pointer';
+
+const AttachmentGallery: React.FC<AttachmentGalleryProps> = ({
+  title, attachments, author, target, describeTarget, readOnly, onAdd, onRemove, onClose
+}) => {
+  const [viewing, setViewing] = useState<Attachment | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setIsAdding(true);
+    setError(null);
+    const added: Attachment[] = [];
+    const failed: string[] = [];
+    // One at a time; decoding several full-size photos at once can run a phone out of memory
+    for (const file of Array.from(files)) {
+      try {
+        added.push(await createAttachment(file, author, target));
+      } catch (err) {
+        failed.push((err as Error).message);
+      }
+    }
+    if (added.length) onAdd(added);
+    if (failed.length) setError(failed.join('. '));
+    setIsAdding(false);
+  };
+
+  const remove = (attachment: Attachment) => {
+    if (!confirm(`Remove ${attachment.name}? This cannot be undone.`)) return;
+    onRemove(attachment);
+    setViewing(null);
+  };
+
+  const gallery = (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {!onClose && (
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Paperclip size={16} className="text-slate-400" /> {title}
+          </h3>
+        )}
+        {!readOnly && (
+          <div className="flex flex-wrap items-center gap-2">
+            <label className={buttonClass}>
+              <Camera size={14} /> Take Photo
+              <input
+                type="file"
+                accept="image/*"
+                capture="environment"
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <label className={buttonClass}>
+              <Upload size={14} /> Add Files
+              <input
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  addFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {isAdding && <span className="text-xs font-semibold text-slate-400">Compressing…</span>}
+          </div>
+        )}
+      </div>
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+      {attachments.length > 0 ? (
+        <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+          {attachments.map(a => (
+            <button
+              key={a.id}
+              onClick={() => setViewing(a)}
+              className="text-left rounded-2xl border border-slate-200 overflow-hidden hover:border-blue-400 transition-colors"
+              title={a.name}
+            >
+              <div className="aspect-square bg-slate-100 flex items-center justify-center">
+                {a.thumbnail ? (
+                  <img src={a.thumbnail} alt={a.name} className="w-full h-full object-cover" />
+                ) : (
+                  <FileText size={32} className="text-slate-400" />
+                )}
+              </div>
+              <div className="px-2 py-1.5">
+                <p className="text-[10px] font-bold text-slate-700 truncate">{a.name}</p>
+                <p className="text-[10px] text-slate-400 truncate">{describeTarget?.(a) ?? formatFileSize(a.size)}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs font-medium text-slate-400">
+          {readOnly ? 'No photos or documents attached' : 'Attach photos of challans or damaged goods, or PDF documents'}
+        </p>
+      )}
+
+      {viewing && (
+        <div className="fixed inset-0 z-[60] bg-slate-900/80 flex items-center justify-center p-4" onClick={() => setViewing(null)}>
+          <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+            <div className="p-4 border-b border-slate-100 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-bold text-slate-800 truncate">{viewing.name}</p>
+                <p className="text-xs text-slate-500">
+                  {viewing.addedBy} · {new Date(viewing.addedAt).toLocaleString()} · {formatFileSize(viewing.size)}
+                  {describeTarget?.(viewing) && ` · ${describeTarget(viewing)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button onClick={() => openAttachment(viewing)} className="p-2 text-slate-500 hover:bg-slate-100 rounded-xl" title="Open in New Tab">
+                  <ExternalLink size={18} />
+                </button>
+                {!readOnly && (
+                  <button onClick={() => remove(viewing)} className="p-2 text-red-500 hover:bg-red-50 rounded-xl" title="Remove">
+                    <Trash2 size={18} />
+                  </button>
+                )}
+                <button onClick={() => setViewing(null)} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto bg-slate-50 flex items-center justify-center">
+              {isImageAttachment(viewing) ? (
+                <img src={viewing.data} alt={viewing.name} className="max-w-full max-h-[75vh] object-contain" />
+              ) : (
+                <button onClick={() => openAttachment(viewing)} className="m-12 flex flex-col items-center gap-3 text-slate-500 hover:text-blue-600">
+                  <FileText size={48} />
+                  <span className="text-sm font-bold">Open PDF</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  if (!onClose) return gallery;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Paperclip size={18} className="text-blue-600" /> {title}
+          </h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-5 no-scrollbar">{gallery}</div>
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentGallery;
@@ -0,0 +1,183 @@
+
+import React, { useState } from 'react';
+import { ArchiveRestore, DatabaseBackup, Upload, X } from 'lucide-react';
+import { BackupArchive, BackupFormat, BackupSettings, RestoreMode, readBackupFile } from './backupService';
+
+interface BackupDialogProps {
+  settings: BackupSettings;
+  onSaveSettings: (settings: BackupSettings) => void;
+  onBackUp: (format: BackupFormat) => Promise<void>;
+  /** Writes the backup to this device and returns a summary of what changed */
+  onRestore: (archive: BackupArchive, mode: RestoreMode) => Promise<string>;
+  onClose: () => void;
+}
+
+const RESTORE_MODES: Record<RestoreMode, { label: string; description: string }> = {
+  merge: {
+    label: 'Merge',
+    description: 'Keep everything on this device and add what the backup has. Where both have the same log, the newer copy wins.'
+  },
+  replace: {
+    label: 'Replace',
+    description: 'Delete every log, user and setting on this device, then restore the backup exactly as it was.'
+  }
+};
+
+const BackupDialog: React.FC<BackupDialogProps> = ({ settings, onSaveSettings, onBackUp, onRestore, onClose }) => {
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [restored, setRestored] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setArchive(null);
+    setError(null);
+    try {
+      setArchive(await readBackupFile(file));
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const restore = () => {
+    if (!archive) return;
+    if (mode === 'replace' && !confirm('Delete everything on this device and replace it with the backup? This cannot be undone.')) return;
+    run(async () => setRestored(await onRestore(archive, mode)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <DatabaseBackup size={18} className="text-blue-600" /> Backup & Restore
+            </h3>
+            <p className="text-xs text-slate-500">Every log, user, item, template and setting on this device, in one file</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+        </div>
+
+        {restored ? (
+          <div className="p-5 space-y-4">
+            <p className="text-sm font-bold text-slate-800">Backup restored</p>
+            <p className="text-sm text-slate-600">{restored}.</p>
+            <p className="text-xs text-slate-500">StockLog reloads to show the restored data; sign in again afterwards.</p>
+            <div className="flex justify-end">
+              <button
+                onClick={() => window.location.reload()}
+                className="px-4 py-2.5 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 shadow-sm shadow-blue-200"
+              >
+                Reload
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-5 space-y-6 no-scrollbar">
+            <section className="space-y-3">
+              <h4 className="text-xs font-bold uppercase tracking-widest text-slate-500">Back up</h4>
+              <p className="text-xs text-slate-500">
+                {settings.lastBackupAt
+                  ? `Last backup: ${new Date(settings.lastBackupAt).toLocaleString()}`
+                  : 'No backup has been made on this device yet.'}
+                {' '}The file includes photos and PIN hashes, so keep it somewhere safe.
+              </p>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => run(() => onBackUp('zip'))}
+                  disabled={isWorking}
+                  className="flex items-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 shadow-sm shadow-blue-200 disabled:opacity-50"
+                >
+                  <DatabaseBackup size={16} /> Download Backup
+                </button>
+                <button
+                  onClick={() => run(() => onBackUp('json'))}
+                  disabled={isWorking}
+                  className="px-4 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-200 disabled:opacity-50"
+                  title="One JSON file, readable in any text editor but larger when logs have photos"
+                >
+                  As JSON
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={settings.reminder}
+                  onChange={(e) => onSaveSettings({ ...settings, reminder: e.target.checked })}
+                />
+                Remind me when a day has passed since the last backup
+              </label>
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="text-xs font-bold uppercase tracking-widest text-slate-500">Restore</h4>
+              <label className="flex items-center justify-center gap-2 py-6 border-2 border-dashed border-slate-200 rounded-2xl text-sm font-bold text-slate-400 hover:border-blue-400 hover:text-blue-500 cursor-pointer transition-all">
+                <Upload size={18} /> {fileName || 'Choose a backup file'}
+                <input
+                  type="file"
+                  accept=".zip,.json,application/zip,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {archive && (
+                <>
+                  <p className="text-xs text-slate-500">
+                    Made {archive.createdAt ? new Date(archive.createdAt).toLocaleString() : 'at an unknown time'}
+                    {archive.createdBy && ` by ${archive.createdBy}`}: {archive.data.logs.length} logs, {archive.data.users.length} users, {archive.data.items.length} items, {archive.data.templates.length} templates.
+                  </p>
+                  <div className="space-y-2">
+                    {(Object.keys(RESTORE_MODES) as RestoreMode[]).map(m => (
+                      <label
+                        key={m}
+                        className={`flex items-start gap-3 p-3 rounded-2xl border cursor-pointer transition-all ${mode === m ? 'border-blue-500 bg-blue-50' : 'border-slate-200'}`}
+                      >
+                        <input type="radio" name="restore-mode" className="mt-0.5" checked={mode === m} onChange={() => setMode(m)} />
+                        <span>
+                          <span className="block text-sm font-bold text-slate-800">{RESTORE_MODES[m].label}</span>
+                          <span className="block text-xs text-slate-500">{RESTORE_MODES[m].description}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <button
+                    onClick={restore}
+                    disabled={isWorking}
+                    className={`flex items-center gap-2 px-4 py-2.5 text-white rounded-xl text-sm font-bold shadow-sm disabled:opacity-50 ${
+                      mode === 'replace' ? 'bg-red-600 hover:bg-red-700 shadow-red-200' : 'bg-blue-600 hover:bg-blue-700 shadow-blue-200'
+                    }`}
+                  >
+                    <ArchiveRestore size={16} /> Restore
+                  </button>
+                </>
+              )}
+            </section>
+
+            {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupDialog;
@@ -0,0 +1,33 @@
+
+import React from 'react';
+import { Wifi, WifiOff } from 'lucide-react';
+
+interface ConnectionStatusProps {
+  isOnline: boolean;
+  /** Changes saved on this device that the sync server has not received yet */
+  pendingCount: number;
+  compact?: boolean;
+}
+
+const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ isOnline, pendingCount, compact = false }) => {
+  const waiting = pendingCount > 0 ? `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} waiting to sync` : '';
+  const title = isOnline
+    ? `Online${waiting && ` — ${waiting}`}`
+    : `Offline — changes are saved on this device${waiting && ` (${waiting})`}`;
+
+  return (
+    <span
+      className={`flex items-center gap-1.5 rounded-full text-[10px] font-bold uppercase tracking-wide border ${compact ? 'p-1.5' : 'px-2 py-1'} ${
+        isOnline ? 'bg-emerald-50 border-emerald-200 text-emerald-600' : 'bg-amber-50 border-amber-200 text-amber-700'
+      }`}
+      title={title}
+      role="status"
+    >
+      {isOnline ? <Wifi size={12} /> : <WifiOff size={12} />}
+      {!compact && (isOnline ? 'Online' : 'Offline')}
+      {pendingCount > 0 && <span className="tabular-nums">· {pendingCount}</span>}
+    </span>
+  );
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,204 @@
+
+import React, { useMemo, useState } from 'react';
+import { BarChart3, ChevronRight, Printer } from 'lucide-react';
+import { Item, SectionDefinition, StockLog } from './types';
+import { PERIOD_LABELS, Period, buildDashboard, formatPeriod } from './dashboardService';
+import { formatNumber } from './formulaUtils';
+import { toIsoDay, today } from './dateService';
+import TrendChart from './TrendChart';
+import MonthlyReport from './MonthlyReport';
+
+interface DashboardProps {
+  logs: StockLog[];
+  items: Item[];
+  sections: SectionDefinition[];
+  onClose: () => void;
+}
+
+// The section table shows this many of the latest periods next to the range total
+const TABLE_PERIODS = 6;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toIsoDay(date);
+};
+
+const inputClass = 'text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const Dashboard: React.FC<DashboardProps> = ({ logs, items, sections, onClose }) => {
+  const [period, setPeriod] = useState<Period>('week');
+  const [from, setFrom] = useState(daysAgo(90));
+  const [to, setTo] = useState(today());
+  const [itemKey, setItemKey] = useState('');
+  const [reportMonth, setReportMonth] = useState<string | null>(null);
+
+  const dashboard = useMemo(
+    () => buildDashboard(logs, sections, items, { period, from, to, itemKey: itemKey || undefined }),
+    [logs, sections, items, period, from, to, itemKey]
+  );
+
+  if (reportMonth) {
+    return (
+      <MonthlyReport
+        logs={logs}
+        items={items}
+        sections={sections}
+        month={reportMonth}
+        onMonthChange={setReportMonth}
+        onClose={() => setReportMonth(null)}
+      />
+    );
+  }
+
+  const topItems = dashboard.items.slice(0, 8);
+  const topMovement = Math.max(1, ...topItems.map(i => i.received + i.consumed + i.dispatched));
+  const topRows = Math.max(1, ...dashboard.authors.map(a => a.rows));
+  const tablePeriods = dashboard.periods.slice(-TABLE_PERIODS);
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex flex-wrap items-center justify-between gap-3 sticky top-0 z-10 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="md:hidden p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
+              <BarChart3 size={18} className="text-blue-600" /> Dashboard
+            </h2>
+            <p className="text-xs text-slate-500">
+              {dashboard.logCount} {dashboard.logCount === 1 ? 'log' : 'logs'} in this period
+              {dashboard.warningCount > 0 && ` · ${dashboard.warningCount} ledger warnings`}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex bg-slate-100 rounded-xl p-1">
+            {(Object.keys(PERIOD_LABELS) as Period[]).map(p => (
+              <button
+                key={p}
+                onClick={() => setPeriod(p)}
+                className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${period === p ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {PERIOD_LABELS[p]}
+              </button>
+            ))}
+          </div>
+          <input type="date" className={inputClass} value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          <span className="text-xs text-slate-400">to</span>
+          <input type="date" className={inputClass} value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          <button
+            onClick={() => setReportMonth(today().slice(0, 7))}
+            className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50"
+          >
+            <Printer size={14} /> Monthly Report
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-slate-50/30 space-y-6 no-scrollbar">
+        <section className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h3 className="font-bold text-slate-800">Received vs. Dispatched</h3>
+            <select className={inputClass} value={itemKey} onChange={(e) => setItemKey(e.target.value)}>
+              <option value="">All items</option>
+              {dashboard.items.map(i => <option key={i.key} value={i.key}>{i.label}</option>)}
+            </select>
+          </div>
+          <TrendChart
+            labels={dashboard.movements.map(m => formatPeriod(m.period, period))}
+            series={[
+              { name: 'Received', color: 'fill-emerald-500', values: dashboard.movements.map(m => m.received) },
+              { name: 'Consumed', color: 'fill-amber-400', values: dashboard.movements.map(m => m.consumed) },
+              { name: 'Dispatched', color: 'fill-violet-500', values: dashboard.movements.map(m => m.dispatched) }
+            ]}
+          />
+        </section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <section className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6">
+            <h3 className="font-bold text-slate-800 mb-4">Top Items</h3>
+            <div className="space-y-3">
+              {topItems.map(item => (
+                <div key={item.key}>
+                  <div className="flex justify-between text-xs font-semibold text-slate-600 mb-1">
+                    <span className="truncate">{item.label}</span>
+                    <span className="tabular-nums text-slate-400 shrink-0">
+                      in {formatNumber(item.received)} · out {formatNumber(item.consumed + item.dispatched)} {item.unit}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden flex">
+                    <div className="bg-emerald-500" style={{ width: `${(item.received / topMovement) * 100}%` }} />
+                    <div className="bg-amber-400" style={{ width: `${(item.consumed / topMovement) * 100}%` }} />
+                    <div className="bg-violet-500" style={{ width: `${(item.dispatched / topMovement) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+              {topItems.length === 0 && <p className="text-xs font-medium text-slate-400">No stock movements in this period</p>}
+            </div>
+          </section>
+
+          <section className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6">
+            <h3 className="font-bold text-slate-800 mb-4">Entries per Author</h3>
+            <div className="space-y-3">
+              {dashboard.authors.map(a => (
+                <div key={a.author}>
+                  <div className="flex justify-between text-xs font-semibold text-slate-600 mb-1">
+                    <span className="truncate">{a.author}</span>
+                    <span className="tabular-nums text-slate-400 shrink-0">
+                      {a.rows} {a.rows === 1 ? 'row' : 'rows'} in {a.logs} {a.logs === 1 ? 'log' : 'logs'}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500" style={{ width: `${(a.rows / topRows) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+              {dashboard.authors.length === 0 && <p className="text-xs font-medium text-slate-400">No logs in this period</p>}
+            </div>
+          </section>
+        </div>
+
+        <section className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+          <h3 className="px-6 py-4 border-b border-slate-100 font-bold text-slate-800">Section Totals</h3>
+          <div className="overflow-x-auto no-scrollbar">
+            <table className="min-w-full divide-y divide-slate-100 text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                  <th className="px-4 py-2">Section</th>
+                  <th className="px-4 py-2">Column</th>
+                  {tablePeriods.map(p => <th key={p} className="px-4 py-2 text-right whitespace-nowrap">{formatPeriod(p, period)}</th>)}
+                  <th className="px-4 py-2 text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {dashboard.columns.map(col => (
+                  <tr key={`${col.section}:${col.header}`} className="hover:bg-slate-50">
+                    <td className="px-4 py-2 font-semibold text-slate-700 whitespace-nowrap">{col.sectionName}</td>
+                    <td className="px-4 py-2 text-slate-600 whitespace-nowrap">{col.header}{col.unit && ` (${col.unit})`}</td>
+                    {tablePeriods.map(p => (
+                      <td key={p} className="px-4 py-2 text-right tabular-nums text-slate-600">
+                        {col.byPeriod[p] !== undefined ? formatNumber(col.byPeriod[p]) : '—'}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2 text-right tabular-nums font-bold text-slate-800">{formatNumber(col.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {dashboard.columns.length === 0 && (
+              <p className="px-6 py-4 text-xs font-medium text-slate-400">No number columns in the logs of this period</p>
+            )}
+          </div>
+        </section>
+        <div className="h-20"></div>
+      </main>
+    </>
+  );
+};
+
+export default Dashboard;
@@ -1,69 +1,451 @@
 
-import React, { useState, useMemo } from 'react';
-import { SectionData, TableColumn, TableRow } from '../types';
-import { Plus, Trash2, Edit3, Save, ChevronUp, ChevronDown, ArrowUpDown } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { SectionData, TableColumn, TableRow, ColumnType, AggregateType, Item, SortConfig } from './types';
+import {
+  Plus, Trash2, Edit3, Save, ChevronUp, ChevronDown, ArrowUpDown, AlertCircle, ScanLine, Paperclip,
+  GripVertical, CopyPlus, ArrowDownToLine, ListOrdered
+} from 'lucide-react';
+import {
+  COLUMN_TYPE_LABELS, COMMON_UNITS, getColumnType, formatColumnHeader,
+  normalizeCellValue, normalizeColumnValues, validateCellValue, compareCellValues, countInvalidCells
+} from './columnUtils';
+import {
+  AGGREGATE_LABELS, computeSection, formatNumber, getFormulaError,
+  isNumericColumn, renameFormulaReferences
+} from './formulaUtils';
+import { findItemById, formatItemLabel, getItemLabel, matchItem } from './itemService';
+import { ScanTarget, applyScannedCode } from './scanService';
+import {
+  CellPosition, clearRange, copyRange, createRowId, duplicateRow, fillDown, formatClipboardTable,
+  getCellRange, getRowWindow, isSingleCell, moveRow, parseClipboardTable, pasteCells, setCellValue
+} from './gridUtils';
+import ScanDialog from './ScanDialog';
 
 interface DynamicTableProps {
   data: SectionData;
   onChange: (newData: SectionData) => void;
   readOnly?: boolean;
+  items?: Item[];
+  sort?: SortConfig;
+  onSortChange?: (sort: SortConfig) => void;
+  /** Number of attachments per row id */
+  attachmentCounts?: Record<string, number>;
+  onOpenAttachments?: (rowId: string) => void;
+  /** Cell, row or column to draw attention to, e.g. the one an analysis finding is about */
+  highlight?: { rowId?: string; columnId?: string } | null;
 }
 
-type SortConfig = {
-  key: string;
-  direction: 'asc' | 'desc' | null;
+interface ItemCellProps {
+  value: string;
+  items: Item[];
+  listId: string;
+  className: string;
+  readOnly?: boolean;
+  error: string | null;
+  onChange: (value: string) => void;
+}
+
+// Item cells store the catalogue id; the typed text is kept as a draft until it resolves to an item
+const ItemCell: React.FC<ItemCellProps> = ({ value, items, listId, className, readOnly, error, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const unit = findItemById(items, value)?.unit;
+
+  const handleChange = (text: string) => {
+    const picked = items.find(i => formatItemLabel(i) === text);
+    if (picked) {
+      setDraft(null);
+      onChange(picked.id);
+    } else {
+      setDraft(text);
+    }
+  };
+
+  const handleBlur = () => {
+    if (draft === null) return;
+    onChange(matchItem(items, draft)?.id ?? draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="text"
+        list={readOnly ? undefined : listId}
+        className={className}
+        value={draft ?? getItemLabel(items, value)}
+        onChange={(e) => handleChange(e.target.value)}
+        onBlur={handleBlur}
+        readOnly={readOnly}
+        placeholder={readOnly ? '' : 'Search items...'}
+        title={error || undefined}
+      />
+      {unit && draft === null && <span className="text-[10px] font-bold text-slate-400 uppercase">{unit}</span>}
+    </div>
+  );
+};
+
+// Tables longer than this only render the rows in and near the visible part of the page
+const VIRTUALIZE_FROM = 60;
+const ESTIMATED_ROW_HEIGHT = 45;
+
+const findScrollParent = (element: HTMLElement | null): HTMLElement | null => {
+  for (let node = element?.parentElement; node; node = node.parentElement) {
+    if (/auto|scroll/.test(getComputedStyle(node).overflowY) && node.scrollHeight > node.clientHeight + 1) return node;
+  }
+  return null;
 };
 
-const DynamicTable: React.FC<DynamicTableProps> = ({ data, onChange, readOnly }) => {
+interface RowActions {
+  updateCell: (rowId: string, colId: string, value: string) => void;
+  normalizeCell: (rowId: string, colId: string) => void;
+  focusCell: (cell: ScanTarget) => void;
+  keyDown: (e: React.KeyboardEvent, row: number, col: number) => void;
+  mouseDown: (e: React.MouseEvent, cell: ScanTarget) => void;
+  mouseEnter: (e: React.MouseEvent, cell: ScanTarget) => void;
+  startRowDrag: (e: React.PointerEvent, rowId: string, index: number) => void;
+  moveRowDrag: (e: React.PointerEvent) => void;
+  endRowDrag: (drop: boolean) => void;
+  duplicateRow: (rowId: string) => void;
+  deleteRow: (rowId: string) => void;
+  openAttachments: (rowId: string) => void;
+}
+
+// Wraps each action in a function that never changes but always calls the latest version,
+// so memoised rows are not re-rendered just because the table was
+const useStableActions = <T extends object>(actions: T): T => {
+  const latest = useRef(actions);
+  latest.current = actions;
+  return useMemo(() => Object.fromEntries(Object.keys(actions).map(key =>
+    [key, (...args: unknown[]) => (latest.current as Record<string, (...a: unknown[]) => unknown>)[key](...args)]
+  )) as T, []);
+};
+
+interface GridCellProps {
+  rowId: string;
+  rowIndex: number;
+  colIndex: number;
+  column: TableColumn;
+  value: string | undefined;
+  items: Item[];
+  listId: string;
+  readOnly?: boolean;
+  formulaError: string | null;
+  className: string;
+  isHighlighted: boolean;
+  actions: RowActions;
+}
+
+const GridCell: React.FC<GridCellProps> = React.memo(({
+  rowId, rowIndex, colIndex, column: col, value = '', items, listId, readOnly, formulaError, className, isHighlighted, actions
+}: GridCellProps) => {
+  const error = validateCellValue(col, value, items);
+  const cell = { rowId, columnId: col.id };
+  const inputClass = `w-full bg-transparent border-b focus:outline-none py-1 transition-all ${
+    error ? 'border-red-400 bg-red-50/60 text-red-700' : 'border-transparent focus:border-blue-500'
+  } ${readOnly ? 'cursor-default' : ''}`;
+
+  const renderField = () => {
+    switch (getColumnType(col)) {
+      case ColumnType.FORMULA:
+        return (
+          <div
+            className={`flex items-center justify-end gap-1 py-1 tabular-nums font-semibold ${formulaError ? 'text-red-500' : 'text-slate-700'}`}
+            title={formulaError || col.formula}
+          >
+            {formulaError ? <AlertCircle size={14} /> : (value || <span className="text-slate-300">-</span>)}
+            {col.unit && !formulaError && <span className="text-[10px] font-bold text-slate-400 uppercase">{col.unit}</span>}
+          </div>
+        );
+      case ColumnType.NUMBER:
+        return (
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`${inputClass} text-right tabular-nums`}
+              value={value}
+              onChange={(e) => actions.updateCell(rowId, col.id, e.target.value)}
+              onBlur={() => actions.normalizeCell(rowId, col.id)}
+              readOnly={readOnly}
+              placeholder={readOnly ? '' : '0'}
+              title={error || undefined}
+            />
+            {col.unit && <span className="text-[10px] font-bold text-slate-400 uppercase">{col.unit}</span>}
+          </div>
+        );
+      case ColumnType.ITEM:
+        return (
+          <ItemCell
+            value={value}
+            items={items}
+            listId={listId}
+            className={inputClass}
+            readOnly={readOnly}
+            error={error}
+            onChange={(newValue) => actions.updateCell(rowId, col.id, newValue)}
+          />
+        );
+      case ColumnType.DATE:
+        return (
+          <input
+            type="date"
+            className={inputClass}
+            value={value}
+            onChange={(e) => actions.updateCell(rowId, col.id, e.target.value)}
+            readOnly={readOnly}
+            title={error || undefined}
+          />
+        );
+      case ColumnType.CHOICE: {
+        const options = col.options ?? [];
+        return (
+          <select
+            className={inputClass}
+            value={value}
+            onChange={(e) => actions.updateCell(rowId, col.id, e.target.value)}
+            disabled={readOnly}
+            title={error || undefined}
+          >
+            <option value="">{readOnly ? '' : 'Select...'}</option>
+            {value && !options.includes(value) && <option value={value}>{value}</option>}
+            {options.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        );
+      }
+      default:
+        return (
+          <input 
+            type="text"
+            className={inputClass}
+            value={value}
+            onChange={(e) => actions.updateCell(rowId, col.id, e.target.value)}
+            readOnly={readOnly}
+            placeholder={readOnly ? '' : '...'}
+            title={error || undefined}
+          />
+        );
+    }
+  };
+
+  return (
+    <td
+      className={`px-4 py-2 focus:outline-none ${className}`}
+      tabIndex={-1}
+      data-cell={`${rowIndex}:${colIndex}`}
+      data-highlight={isHighlighted ? true : undefined}
+      onFocusCapture={() => actions.focusCell(cell)}
+      onKeyDown={(e) => actions.keyDown(e, rowIndex, colIndex)}
+      onMouseDown={(e) => actions.mouseDown(e, cell)}
+      onMouseEnter={(e) => actions.mouseEnter(e, cell)}
+    >
+      {renderField()}
+    </td>
+  );
+});
+
+interface GridRowProps {
+  row: TableRow;
+  rowIndex: number;
+  columns: TableColumn[];
+  formulaErrors: Record<string, string | null>;
+  items: Item[];
+  listId: string;
+  readOnly?: boolean;
+  highlight?: { rowId?: string; columnId?: string } | null;
+  /** Columns of this row inside a multi-cell selection, or -1 when it has none */
+  selectedFrom: number;
+  selectedTo: number;
+  isDragged: boolean;
+  isDropTarget: boolean;
+  canDrag: boolean;
+  showActions: boolean;
+  canAttach: boolean;
+  attachmentCount: number;
+  actions: RowActions;
+}
+
+const GridRow: React.FC<GridRowProps> = React.memo(({
+  row, rowIndex, columns, formulaErrors, items, listId, readOnly, highlight, selectedFrom, selectedTo,
+  isDragged, isDropTarget, canDrag, showActions, canAttach, attachmentCount, actions
+}: GridRowProps) => {
+  const isHighlightedRow = !!highlight?.rowId && highlight.rowId === row.id;
+  // A finding about a whole column, e.g. a total that changed
+  const isHighlightedColumn = (columnId: string) => !!highlight && !highlight.rowId && highlight.columnId === columnId;
+
+  return (
+    <tr
+      className={`transition-colors ${isHighlightedRow ? 'bg-violet-50' : 'hover:bg-slate-50'} ${isDragged ? 'opacity-50' : ''} ${
+        isDropTarget ? 'outline outline-2 outline-blue-400' : ''
+      }`}
+      data-row-index={rowIndex}
+      data-highlight={isHighlightedRow && !highlight?.columnId ? true : undefined}
+    >
+      {columns.map((col, colIndex) => {
+        const isCell = isHighlightedRow && highlight?.columnId === col.id;
+        return (
+          <GridCell
+            key={col.id}
+            rowId={row.id}
+            rowIndex={rowIndex}
+            colIndex={colIndex}
+            column={col}
+            value={row.values[col.id]}
+            items={items}
+            listId={listId}
+            readOnly={readOnly}
+            formulaError={formulaErrors[col.id]}
+            className={
+              isCell ? 'ring-2 ring-inset ring-violet-500 bg-violet-50'
+              : isHighlightedColumn(col.id) ? 'bg-violet-50'
+              : colIndex >= selectedFrom && colIndex <= selectedTo ? 'bg-blue-50' : ''
+            }
+            isHighlighted={isCell}
+            actions={actions}
+          />
+        );
+      })}
+      {showActions && (
+        <td className="px-4 py-2 text-right">
+          <div className="flex items-center justify-end gap-3">
+            {canDrag && (
+              <button
+                className="text-slate-300 hover:text-slate-500 cursor-grab touch-none"
+                title="Drag to Reorder"
+                onPointerDown={(e) => actions.startRowDrag(e, row.id, rowIndex)}
+                onPointerMove={actions.moveRowDrag}
+                onPointerUp={() => actions.endRowDrag(true)}
+                onPointerCancel={() => actions.endRowDrag(false)}
+              >
+                <GripVertical size={14} />
+              </button>
+            )}
+            {canAttach && (!readOnly || attachmentCount > 0) && (
+              <button
+                onClick={() => actions.openAttachments(row.id)}
+                className={`flex items-center gap-0.5 text-xs font-bold transition-colors ${attachmentCount ? 'text-blue-500 hover:text-blue-700' : 'text-slate-300 hover:text-blue-500'}`}
+                title="Photos and Documents"
+              >
+                <Paperclip size={14} />
+                {attachmentCount > 0 && attachmentCount}
+              </button>
+            )}
+            {!readOnly && (
+              <button
+                onClick={() => actions.duplicateRow(row.id)}
+                className="text-slate-300 hover:text-blue-500 transition-colors"
+                title="Duplicate Row"
+              >
+                <CopyPlus size={14} />
+              </button>
+            )}
+            {!readOnly && (
+              <button 
+                onClick={() => actions.deleteRow(row.id)}
+                className="text-slate-300 hover:text-red-500 transition-colors"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+        </td>
+      )}
+    </tr>
+  );
+});
+
+const DynamicTable: React.FC<DynamicTableProps> = ({
+  data, onChange, readOnly, items = [], sort, onSortChange, attachmentCounts = {}, onOpenAttachments, highlight
+}) => {
   const [editingColId, setEditingColId] = useState<string | null>(null);
-  const [tempColName, setTempColName] = useState('');
-  const [sortConfig, setSortConfig] = useState<SortConfig>({ key: '', direction: null });
+  const [draftCol, setDraftCol] = useState<TableColumn | null>(null);
+  const [localSort, setLocalSort] = useState<SortConfig>({ key: '', direction: null });
+  // Sorting is controlled when the parent wants it (e.g. to undo it), otherwise kept here
+  const sortConfig = sort ?? localSort;
+  const setSortConfig = onSortChange ?? setLocalSort;
+  const itemListId = useMemo(() => `item-list-${Math.random().toString(36).substring(7)}`, []);
+  // The last cell the user was in, which a scan fills instead of adding a row
+  const [focusedCell, setFocusedCell] = useState<ScanTarget | null>(null);
+  // The other corner of a multi-cell selection; the focused cell is the corner that moves
+  const [anchorCell, setAnchorCell] = useState<ScanTarget | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [draggedRowId, setDraggedRowId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+  const selectionStart = useRef<ScanTarget | null>(null);
+  // A cell to move into once its row has rendered, e.g. one just added from the keyboard
+  const pendingFocus = useRef<ScanTarget | null>(null);
+  const [rowWindow, setRowWindow] = useState({ start: 0, end: VIRTUALIZE_FROM });
+  const rowHeight = useRef(ESTIMATED_ROW_HEIGHT);
+  // The page scrolls when this is null
+  const scroller = useRef<HTMLElement | null>(null);
+
+  // Every edit goes through here so formula cells and totals are stored alongside the raw values
+  const commit = (newData: SectionData) => onChange(computeSection(newData));
 
   const addColumn = () => {
     const newCol: TableColumn = {
       id: Math.random().toString(36).substring(7),
-      header: 'New Column'
+      header: 'New Column',
+      type: ColumnType.TEXT
     };
-    onChange({
+    commit({
       ...data,
       columns: [...data.columns, newCol]
     });
   };
 
-  const addRow = () => {
+  const addRow = (columnId = data.columns[0]?.id) => {
     const newRow: TableRow = {
-      id: Math.random().toString(36).substring(7),
+      id: createRowId(),
       values: {}
     };
-    onChange({
+    commit({
       ...data,
       rows: [...data.rows, newRow]
     });
+    if (columnId) pendingFocus.current = { rowId: newRow.id, columnId };
   };
 
   const updateCellValue = (rowId: string, colId: string, value: string) => {
-    const newRows = data.rows.map(row => {
-      if (row.id === rowId) {
-        return { ...row, values: { ...row.values, [colId]: value } };
-      }
-      return row;
-    });
-    onChange({ ...data, rows: newRows });
+    commit(setCellValue(data, rowId, colId, value));
+  };
+
+  const normalizeCell = (rowId: string, colId: string) => {
+    const row = data.rows.find(r => r.id === rowId);
+    const col = data.columns.find(c => c.id === colId);
+    if (!row || !col) return;
+    const current = row.values[col.id] || '';
+    const normalized = normalizeCellValue(col, current);
+    if (normalized !== current) updateCellValue(row.id, col.id, normalized);
   };
 
   const startEditColumn = (e: React.MouseEvent, col: TableColumn) => {
     e.stopPropagation();
     setEditingColId(col.id);
-    setTempColName(col.header);
+    setDraftCol({ ...col, type: getColumnType(col) });
   };
 
   const saveColumnName = () => {
-    if (editingColId) {
-      const newCols = data.columns.map(c => 
-        c.id === editingColId ? { ...c, header: tempColName } : c
-      );
-      onChange({ ...data, columns: newCols });
+    if (editingColId && draftCol) {
+      const savedCol: TableColumn = {
+        ...draftCol,
+        header: draftCol.header.trim() || 'Untitled',
+        unit: isNumericColumn(draftCol) && draftCol.unit?.trim() ? draftCol.unit.trim() : undefined,
+        formula: draftCol.type === ColumnType.FORMULA ? draftCol.formula?.trim() ?? '' : undefined,
+        aggregate: isNumericColumn(draftCol) ? draftCol.aggregate : undefined,
+        options: draftCol.type === ColumnType.CHOICE
+          ? (draftCol.options ?? []).map(o => o.trim()).filter(Boolean)
+          : undefined
+      };
+      const newCols = data.columns.map(c => c.id === editingColId ? savedCol : c);
+      const oldHeader = data.columns.find(c => c.id === editingColId)?.header ?? savedCol.header;
+      commit({
+        ...data,
+        columns: renameFormulaReferences(newCols, oldHeader, savedCol.header),
+        rows: normalizeColumnValues(data.rows, savedCol)
+      });
       setEditingColId(null);
+      setDraftCol(null);
     }
   };
 
@@ -75,11 +457,25 @@ const DynamicTable: React.FC<DynamicTableProps> = ({ data, onChange, readOnly })
       delete newValues[colId];
       return { ...row, values: newValues };
     });
-    onChange({ columns: newCols, rows: newRows });
+    commit({ ...data, columns: newCols, rows: newRows });
   };
 
   const deleteRow = (rowId: string) => {
-    onChange({ ...data, rows: data.rows.filter(r => r.id !== rowId) });
+    commit({ ...data, rows: data.rows.filter(r => r.id !== rowId) });
+  };
+
+  const applyScan = (code: string, fillTarget: boolean) => {
+    const result = applyScannedCode(data, code, items, fillTarget ? focusedCell : null);
+    onChange(result.data);
+    const label = result.item ? formatItemLabel(result.item) : `${code.trim()} (not in the catalogue)`;
+    return `${fillTarget && focusedCell ? 'Filled' : 'Added'} ${label}`;
+  };
+
+  const setAggregate = (colId: string, aggregate: AggregateType | undefined) => {
+    commit({
+      ...data,
+      columns: data.columns.map(c => c.id === colId ? { ...c, aggregate } : c)
+    });
   };
 
   const handleSort = (colId: string) => {
@@ -93,42 +489,375 @@ const DynamicTable: React.FC<DynamicTableProps> = ({ data, onChange, readOnly })
   };
 
   const sortedRows = useMemo(() => {
-    if (!sortConfig.direction) return data.rows;
-    return [...data.rows].sort((a, b) => {
-      const valA = (a.values[sortConfig.key] || '').toLowerCase();
-      const valB = (b.values[sortConfig.key] || '').toLowerCase();
-      if (valA < valB) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (valA > valB) return sortConfig.direction === 'asc' ? 1 : -1;
-      return 0;
-    });
-  }, [data.rows, sortConfig]);
+    const sortCol = data.columns.find(c => c.id === sortConfig.key);
+    if (!sortConfig.direction || !sortCol) return data.rows;
+    const direction = sortConfig.direction;
+    if (getColumnType(sortCol) === ColumnType.ITEM) {
+      const textCol = { ...sortCol, type: ColumnType.TEXT };
+      return [...data.rows].sort((a, b) => compareCellValues(
+        textCol, getItemLabel(items, a.values[sortCol.id]), getItemLabel(items, b.values[sortCol.id]), direction
+      ));
+    }
+    return [...data.rows].sort((a, b) =>
+      compareCellValues(sortCol, a.values[sortCol.id], b.values[sortCol.id], direction)
+    );
+  }, [data.rows, data.columns, sortConfig, items]);
+
+  const positionOf = (cell: ScanTarget | null): CellPosition | null => {
+    if (!cell) return null;
+    const row = sortedRows.findIndex(r => r.id === cell.rowId);
+    const col = data.columns.findIndex(c => c.id === cell.columnId);
+    return row >= 0 && col >= 0 ? { row, col } : null;
+  };
+  const focusedPosition = positionOf(focusedCell);
+  const selection = focusedPosition ? getCellRange(positionOf(anchorCell) ?? focusedPosition, focusedPosition) : null;
+  const isMultiSelect = !!selection && !isSingleCell(selection);
+
+  const isVirtual = sortedRows.length > VIRTUALIZE_FROM;
+  const windowStart = isVirtual ? Math.min(rowWindow.start, sortedRows.length) : 0;
+  const windowEnd = isVirtual ? Math.min(rowWindow.end, sortedRows.length) : sortedRows.length;
+
+  const getViewport = () => scroller.current?.getBoundingClientRect() ?? { top: 0, height: window.innerHeight };
+
+  useEffect(() => {
+    const table = tableRef.current;
+    const body = table?.tBodies[0];
+    if (!isVirtual || !body) return;
+    scroller.current = findScrollParent(table);
+    const target = scroller.current ?? window;
+    const update = () => {
+      const measured = body.querySelector('tr[data-row-index]')?.getBoundingClientRect().height;
+      if (measured) rowHeight.current = measured;
+      const viewport = getViewport();
+      const next = getRowWindow(viewport.top - body.getBoundingClientRect().top, viewport.height, rowHeight.current, sortedRows.length);
+      setRowWindow(prev => prev.start === next.start && prev.end === next.end ? prev : next);
+    };
+    update();
+    target.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      target.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [isVirtual, sortedRows.length]);
+
+  const scrollToRow = (index: number) => {
+    const body = tableRef.current?.tBodies[0];
+    if (!body) return;
+    const viewport = getViewport();
+    const offset = body.getBoundingClientRect().top + index * rowHeight.current - viewport.top - viewport.height / 2;
+    if (scroller.current) {
+      scroller.current.scrollTop += offset;
+    } else {
+      window.scrollBy(0, offset);
+    }
+  };
+
+  const focusRenderedCell = (row: number, col: number) => {
+    const cell = tableRef.current?.querySelector<HTMLElement>(`td[data-cell="${row}:${col}"]`);
+    if (!cell) return false;
+    const field = cell.querySelector<HTMLElement>('input, select:not(:disabled)') ?? cell;
+    field.focus();
+    if (field instanceof HTMLInputElement && field.type === 'text') field.select();
+    return true;
+  };
+
+  // Rows outside the rendered window are scrolled to, then focused once they render
+  const focusCell = (row: number, col: number) => {
+    if (focusRenderedCell(row, col)) return;
+    pendingFocus.current = { rowId: sortedRows[row].id, columnId: data.columns[col].id };
+    scrollToRow(row);
+  };
+
+  useEffect(() => {
+    const position = positionOf(pendingFocus.current);
+    if (!position) return;
+    if (focusRenderedCell(position.row, position.col)) {
+      pendingFocus.current = null;
+    } else {
+      scrollToRow(position.row);
+    }
+  }, [sortedRows, windowStart, windowEnd]);
+
+  useEffect(() => {
+    if (!highlight) return;
+    const target = tableRef.current?.querySelector('[data-highlight]');
+    if (target) {
+      target.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+    } else {
+      const index = sortedRows.findIndex(r => r.id === highlight.rowId);
+      if (index >= 0) scrollToRow(index);
+    }
+  }, [highlight]);
+
+  const moveFocus = (row: number, col: number, extend: boolean) => {
+    if (row < 0 || row >= sortedRows.length || col < 0 || col >= data.columns.length) return;
+    setAnchorCell(extend ? anchorCell ?? focusedCell : null);
+    focusCell(row, col);
+  };
+
+  const applyFillDown = () => {
+    if (selection) commit(fillDown(data, sortedRows, data.columns, selection));
+  };
+
+  // Arrows move between cells except where they already do something in the field: moving the
+  // caret inside text, picking item suggestions and stepping through the parts of a date
+  const handleCellKeyDown = (e: React.KeyboardEvent, cellRow: number, cellCol: number) => {
+    if (e.nativeEvent.isComposing) return;
+    // After a mouse drag the moving corner is not the cell holding focus
+    const { row, col } = focusedPosition ?? { row: cellRow, col: cellCol };
+    const input = e.target instanceof HTMLInputElement ? e.target : null;
+    const isDate = input?.type === 'date';
+    const isText = input?.type === 'text';
+    const atStart = !isText || (input!.selectionStart === 0 && input!.selectionEnd === 0);
+    const atEnd = !isText || input!.selectionStart === input!.value.length;
+    const hasModifier = e.ctrlKey || e.metaKey || e.altKey;
+
+    const move = (nextRow: number, nextCol: number, extend = false) => {
+      e.preventDefault();
+      moveFocus(nextRow, nextCol, extend);
+    };
+
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'ArrowDown':
+        if (hasModifier || isDate || (input?.list && !e.shiftKey)) return;
+        return move(row + (e.key === 'ArrowUp' ? -1 : 1), col, e.shiftKey);
+      case 'ArrowLeft':
+        if (hasModifier || isDate || !atStart) return;
+        return move(row, col - 1, e.shiftKey);
+      case 'ArrowRight':
+        if (hasModifier || isDate || !atEnd) return;
+        return move(row, col + 1, e.shiftKey);
+      case 'Enter':
+        if (hasModifier) return;
+        if (!e.shiftKey && row === sortedRows.length - 1 && !readOnly) {
+          e.preventDefault();
+          addRow(data.columns[col].id);
+          return;
+        }
+        return move(row + (e.shiftKey ? -1 : 1), col);
+      case 'Tab': {
+        // Wraps to the next row; leaving the last cell moves on past the table as usual
+        const index = row * data.columns.length + col + (e.shiftKey ? -1 : 1);
+        if (index < 0 || index >= sortedRows.length * data.columns.length) return;
+        return move(Math.floor(index / data.columns.length), index % data.columns.length);
+      }
+      case 'Escape':
+        setAnchorCell(null);
+        return;
+      case 'd':
+      case 'D':
+        if (!(e.ctrlKey || e.metaKey) || readOnly) return;
+        e.preventDefault();
+        applyFillDown();
+        return;
+      case 'Delete':
+      case 'Backspace':
+        if (!isMultiSelect || readOnly) return;
+        e.preventDefault();
+        commit(clearRange(data, sortedRows, data.columns, selection!));
+        return;
+    }
+  };
+
+  const handleCellMouseDown = (e: React.MouseEvent, cell: ScanTarget) => {
+    if (e.button !== 0) return;
+    if (e.shiftKey && focusedCell) {
+      setAnchorCell(anchorCell ?? focusedCell);
+    } else {
+      setAnchorCell(null);
+      selectionStart.current = cell;
+    }
+  };
+
+  // Dragging across cells with the mouse selects them
+  const handleCellMouseEnter = (e: React.MouseEvent, cell: ScanTarget) => {
+    const start = selectionStart.current;
+    if (e.buttons !== 1 || !start || draggedRowId) return;
+    setAnchorCell(start);
+    setFocusedCell(cell);
+  };
+
+  // Copying a single cell while part of its text is selected copies just that text
+  const copySelection = (e: React.ClipboardEvent) => {
+    if (!selection) return false;
+    const input = e.target instanceof HTMLInputElement ? e.target : null;
+    const hasTextSelection = !!input && input.selectionStart !== input.selectionEnd;
+    if (!isMultiSelect && hasTextSelection) return false;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', formatClipboardTable(copyRange(sortedRows, data.columns, selection, items)));
+    return true;
+  };
+
+  const handleCut = (e: React.ClipboardEvent) => {
+    if (copySelection(e) && !readOnly) commit(clearRange(data, sortedRows, data.columns, selection!));
+  };
+
+  // Pasting one value into one cell is left to the field; anything bigger fills the table
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (readOnly || !selection) return;
+    const cells = parseClipboardTable(e.clipboardData.getData('text/plain'));
+    if (!isMultiSelect && cells.length <= 1 && (cells[0]?.length ?? 0) <= 1) return;
+    e.preventDefault();
+    commit(pasteCells(data, sortedRows, data.columns, selection, cells, items));
+  };
+
+  // Rows are dragged by their handle with pointer events, so it works with touch as well as a mouse
+  const startRowDrag = (e: React.PointerEvent, rowId: string, index: number) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraggedRowId(rowId);
+    setDropIndex(index);
+  };
+
+  const handleRowDragMove = (e: React.PointerEvent) => {
+    if (!draggedRowId) return;
+    const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('tr[data-row-index]');
+    if (target && tableRef.current?.contains(target)) setDropIndex(Number(target.dataset.rowIndex));
+  };
+
+  const endRowDrag = (drop: boolean) => {
+    if (drop && draggedRowId && dropIndex !== null) commit(moveRow(data, draggedRowId, dropIndex));
+    setDraggedRowId(null);
+    setDropIndex(null);
+  };
+
+  // Sorting is a way of viewing the rows until it is kept, which stores the rows in that order
+  const keepSortOrder = () => {
+    commit({ ...data, rows: sortedRows });
+    setSortConfig({ key: '', direction: null });
+  };
+
+  const rowActions = useStableActions<RowActions>({
+    updateCell: updateCellValue,
+    normalizeCell,
+    focusCell: setFocusedCell,
+    keyDown: handleCellKeyDown,
+    mouseDown: handleCellMouseDown,
+    mouseEnter: handleCellMouseEnter,
+    startRowDrag,
+    moveRowDrag: handleRowDragMove,
+    endRowDrag,
+    duplicateRow: (rowId) => commit(duplicateRow(data, rowId)),
+    deleteRow,
+    openAttachments: (rowId) => onOpenAttachments?.(rowId)
+  });
+
+  const formulaErrors = useMemo(() => Object.fromEntries(data.columns.map(c =>
+    [c.id, getColumnType(c) === ColumnType.FORMULA ? getFormulaError(c, data.columns) : null]
+  )), [data.columns]);
+
+  const totals = data.totals ?? {};
+  const hasFooter = data.columns.some(isNumericColumn);
+
+  const invalidCount = useMemo(
+    () => data.rows.reduce((count, row) => count + countInvalidCells(row, data.columns, items), 0),
+    [data.rows, data.columns, items]
+  );
+
+  // Read-only tables keep the action column only to reach rows' attachments
+  const hasRowAttachments = !!onOpenAttachments && data.rows.some(r => attachmentCounts[r.id] > 0);
+  const showActions = !readOnly || hasRowAttachments;
+
+  const columnCount = data.columns.length + (showActions ? 1 : 0);
+  const topSpace = windowStart * rowHeight.current;
+  const bottomSpace = (sortedRows.length - windowEnd) * rowHeight.current;
+
+  const isHighlightedColumn = (columnId: string) => !!highlight && !highlight.rowId && highlight.columnId === columnId;
+
+  const focusedRowIndex = focusedCell ? sortedRows.findIndex(r => r.id === focusedCell.rowId) : -1;
+  const focusedColumn = focusedCell && data.columns.find(c => c.id === focusedCell.columnId);
+  const scanTargetLabel = focusedRowIndex >= 0 && focusedColumn ? `Row ${focusedRowIndex + 1} · ${focusedColumn.header}` : null;
 
   return (
     <div className="w-full overflow-hidden">
+      {data.columns.some(c => getColumnType(c) === ColumnType.ITEM) && (
+        <datalist id={itemListId}>
+          {items.map(i => <option key={i.id} value={formatItemLabel(i)} />)}
+        </datalist>
+      )}
       <div className="overflow-x-auto no-scrollbar pb-4">
-        <table className="min-w-full divide-y divide-slate-200 border rounded-lg bg-white shadow-sm">
+        <table
+          ref={tableRef}
+          onCopy={copySelection}
+          onCut={handleCut}
+          onPaste={handlePaste}
+          className="min-w-full divide-y divide-slate-200 border rounded-lg bg-white shadow-sm">
           <thead className="bg-slate-50">
             <tr>
               {data.columns.map(col => (
                 <th 
                   key={col.id} 
                   onClick={() => !editingColId && handleSort(col.id)}
-                  className="px-4 py-3 text-left text-xs font-semibold text-slate-500 uppercase tracking-wider min-w-[150px] relative group cursor-pointer hover:bg-slate-100 transition-colors"
+                  className={`px-4 py-3 text-left text-xs font-semibold uppercase tracking-wider min-w-[150px] relative group cursor-pointer hover:bg-slate-100 transition-colors ${isHighlightedColumn(col.id) ? 'bg-violet-100 text-violet-700' : 'text-slate-500'}`}
+                  data-highlight={isHighlightedColumn(col.id) ? true : undefined}
                 >
-                  {editingColId === col.id ? (
-                    <div className="flex items-center gap-1" onClick={e => e.stopPropagation()}>
-                      <input 
-                        className="border rounded px-1 py-0.5 w-full text-slate-900 font-normal normal-case"
-                        value={tempColName}
-                        onChange={(e) => setTempColName(e.target.value)}
-                        autoFocus
-                      />
-                      <button onClick={saveColumnName} className="text-green-600"><Save size={14}/></button>
+                  {editingColId === col.id && draftCol ? (
+                    <div className="space-y-2 normal-case tracking-normal font-normal" onClick={e => e.stopPropagation()}>
+                      <div className="flex items-center gap-1">
+                        <input 
+                          className="border rounded px-1 py-0.5 w-full text-slate-900"
+                          value={draftCol.header}
+                          onChange={(e) => setDraftCol({ ...draftCol, header: e.target.value })}
+                          onKeyDown={(e) => e.key === 'Enter' && saveColumnName()}
+                          autoFocus
+                        />
+                        <button onClick={saveColumnName} className="text-green-600"><Save size={14}/></button>
+                      </div>
+                      <select
+                        className="w-full border rounded px-1 py-0.5 text-slate-700 bg-white"
+                        value={draftCol.type}
+                        onChange={(e) => setDraftCol({ ...draftCol, type: e.target.value as ColumnType })}
+                      >
+                        {Object.values(ColumnType).map(t => (
+                          <option key={t} value={t}>{COLUMN_TYPE_LABELS[t]}</option>
+                        ))}
+                      </select>
+                      {draftCol.type === ColumnType.FORMULA && (
+                        <input
+                          className="w-full border rounded px-1 py-0.5 text-slate-700 font-mono text-xs"
+                          placeholder="e.g. Gross - Tare"
+                          value={draftCol.formula ?? ''}
+                          onChange={(e) => setDraftCol({ ...draftCol, formula: e.target.value })}
+                          title="Use column names; wrap names with spaces in [brackets]"
+                        />
+                      )}
+                      {isNumericColumn(draftCol) && (
+                        <>
+                          <input
+                            className="w-full border rounded px-1 py-0.5 text-slate-700"
+                            list="dynamic-table-units"
+                            placeholder="Unit (kg, m, bundles...)"
+                            value={draftCol.unit ?? ''}
+                            onChange={(e) => setDraftCol({ ...draftCol, unit: e.target.value })}
+                          />
+                          <datalist id="dynamic-table-units">
+                            {COMMON_UNITS.map(u => <option key={u} value={u} />)}
+                          </datalist>
+                        </>
+                      )}
+                      {draftCol.type === ColumnType.CHOICE && (
+                        <textarea
+                          className="w-full border rounded px-1 py-0.5 text-slate-700 text-xs"
+                          rows={3}
+                          placeholder="One option per line"
+                          value={(draftCol.options ?? []).join('\n')}
+                          onChange={(e) => setDraftCol({ ...draftCol, options: e.target.value.split('\n') })}
+                        />
+                      )}
+                      <label className="flex items-center gap-1.5 text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={!!draftCol.required}
+                          onChange={(e) => setDraftCol({ ...draftCol, required: e.target.checked })}
+                        />
+                        Required
+                      </label>
                     </div>
                   ) : (
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
-                        <span>{col.header}</span>
+                        <span>{formatColumnHeader(col)}</span>
                         {sortConfig.key === col.id ? (
                           sortConfig.direction === 'asc' ? <ChevronUp size={14} /> : <ChevronDown size={14} />
                         ) : (
@@ -145,57 +874,143 @@ const DynamicTable: React.FC<DynamicTableProps> = ({ data, onChange, readOnly })
                   )}
                 </th>
               ))}
-              {!readOnly && (
+              {showActions && (
                 <th className="px-4 py-3 w-10">
-                  <button 
-                    onClick={addColumn}
-                    className="p-1 hover:bg-slate-200 rounded-full transition-colors text-slate-500"
-                    title="Add Column"
-                  >
-                    <Plus size={16} />
-                  </button>
+                  {!readOnly && (
+                    <button 
+                      onClick={addColumn}
+                      className="p-1 hover:bg-slate-200 rounded-full transition-colors text-slate-500"
+                      title="Add Column"
+                    >
+                      <Plus size={16} />
+                    </button>
+                  )}
                 </th>
               )}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-slate-100">
-            {sortedRows.map((row) => (
-              <tr key={row.id} className="hover:bg-slate-50 transition-colors">
+            {topSpace > 0 && <tr aria-hidden="true" style={{ height: topSpace }}><td colSpan={columnCount} /></tr>}
+            {sortedRows.slice(windowStart, windowEnd).map((row, offset) => {
+              const rowIndex = windowStart + offset;
+              const isSelectedRow = isMultiSelect && rowIndex >= selection!.top && rowIndex <= selection!.bottom;
+              return (
+                <GridRow
+                  key={row.id}
+                  row={row}
+                  rowIndex={rowIndex}
+                  columns={data.columns}
+                  formulaErrors={formulaErrors}
+                  items={items}
+                  listId={itemListId}
+                  readOnly={readOnly}
+                  highlight={highlight}
+                  selectedFrom={isSelectedRow ? selection!.left : -1}
+                  selectedTo={isSelectedRow ? selection!.right : -1}
+                  isDragged={draggedRowId === row.id}
+                  isDropTarget={!!draggedRowId && dropIndex === rowIndex && draggedRowId !== row.id}
+                  canDrag={!readOnly && !sortConfig.direction}
+                  showActions={showActions}
+                  canAttach={!!onOpenAttachments}
+                  attachmentCount={attachmentCounts[row.id] ?? 0}
+                  actions={rowActions}
+                />
+              );
+            })}
+            {bottomSpace > 0 && <tr aria-hidden="true" style={{ height: bottomSpace }}><td colSpan={columnCount} /></tr>}
+          </tbody>
+          {hasFooter && (
+            <tfoot className="bg-slate-50 border-t-2 border-slate-200">
+              <tr>
                 {data.columns.map(col => (
                   <td key={col.id} className="px-4 py-2">
-                    <input 
-                      type="text"
-                      className={`w-full bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none py-1 transition-all ${readOnly ? 'cursor-default' : ''}`}
-                      value={row.values[col.id] || ''}
-                      onChange={(e) => updateCellValue(row.id, col.id, e.target.value)}
-                      readOnly={readOnly}
-                      placeholder={readOnly ? '' : '...'}
-                    />
+                    {isNumericColumn(col) && (
+                      <div className="flex items-center justify-between gap-2">
+                        {readOnly ? (
+                          <span className="text-[10px] font-bold uppercase text-slate-400">
+                            {col.aggregate ? AGGREGATE_LABELS[col.aggregate] : ''}
+                          </span>
+                        ) : (
+                          <select
+                            className="text-[10px] font-bold uppercase text-slate-400 bg-transparent focus:outline-none cursor-pointer"
+                            value={col.aggregate ?? ''}
+                            onChange={(e) => setAggregate(col.id, (e.target.value || undefined) as AggregateType | undefined)}
+                          >
+                            <option value="">None</option>
+                            {Object.values(AggregateType).map(a => (
+                              <option key={a} value={a}>{AGGREGATE_LABELS[a]}</option>
+                            ))}
+                          </select>
+                        )}
+                        {col.aggregate && (
+                          <span className="text-sm font-black text-slate-800 tabular-nums">
+                            {totals[col.id] != null ? formatNumber(totals[col.id] as number) : '-'}
+                            {col.unit && col.aggregate !== AggregateType.COUNT && (
+                              <span className="ml-1 text-[10px] font-bold text-slate-400 uppercase">{col.unit}</span>
+                            )}
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </td>
                 ))}
-                {!readOnly && (
-                  <td className="px-4 py-2 text-right">
-                    <button 
-                      onClick={() => deleteRow(row.id)}
-                      className="text-slate-300 hover:text-red-500 transition-colors"
-                    >
-                      <Trash2 size={14} />
-                    </button>
-                  </td>
-                )}
+                {showActions && <td />}
               </tr>
-            ))}
-          </tbody>
+            </tfoot>
+          )}
         </table>
       </div>
       
-      {!readOnly && (
-        <button 
-          onClick={addRow}
-          className="mt-3 flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
-        >
-          <Plus size={16} /> Add Row
-        </button>
+      <div className="mt-3 flex items-center justify-between gap-4">
+        {!readOnly ? (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <button 
+              onClick={() => addRow()}
+              className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+            >
+              <Plus size={16} /> Add Row
+            </button>
+            <button
+              onClick={() => setIsScanning(true)}
+              className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+              title={scanTargetLabel ? `Scan into ${scanTargetLabel}` : 'Scan a barcode or QR code into a new row'}
+            >
+              <ScanLine size={16} /> Scan
+            </button>
+            {focusedPosition && (
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={applyFillDown}
+                className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+                title={isMultiSelect ? 'Copy the top cells of the selection down (Ctrl+D)' : 'Copy the cell above into this one (Ctrl+D)'}
+              >
+                <ArrowDownToLine size={16} /> Fill Down
+              </button>
+            )}
+            {sortConfig.direction && (
+              <button
+                onClick={keepSortOrder}
+                className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-700 transition-colors"
+                title="Store the rows in the order they are sorted in now"
+              >
+                <ListOrdered size={16} /> Keep This Order
+              </button>
+            )}
+          </div>
+        ) : <span />}
+        {invalidCount > 0 && (
+          <span className="flex items-center gap-1.5 text-xs font-semibold text-red-500">
+            <AlertCircle size={14} /> {invalidCount} invalid {invalidCount === 1 ? 'cell' : 'cells'}
+          </span>
+        )}
+      </div>
+
+      {isScanning && (
+        <ScanDialog
+          targetLabel={scanTargetLabel}
+          onScan={applyScan}
+          onClose={() => setIsScanning(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,25 @@
+
+import React from 'react';
+
+interface HighlightTextProps {
+  text: string;
+  terms: string[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const HighlightText: React.FC<HighlightTextProps> = ({ text, terms }) => {
+  const wanted = terms.filter(Boolean);
+  if (!wanted.length) return <>{text}</>;
+  const pattern = new RegExp(`(${wanted.map(escapeRegExp).join('|')})`, 'gi');
+  // split keeps the captured matches at the odd indexes
+  return (
+    <>
+      {text.split(pattern).map((part, i) => i % 2 === 1
+        ? <mark key={i} className="bg-yellow-100 text-inherit rounded px-0.5">{part}</mark>
+        : part)}
+    </>
+  );
+};
+
+export default HighlightText;
@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { Eye, History as HistoryIcon, RotateCcw, X } from 'lucide-react';
+import { Item, SectionDefinition, StockLog } from './types';
+import { canRevertChange, describeChange } from './historyService';
+import { getSectionName } from './sectionService';
+
+interface HistoryPanelProps {
+  log: StockLog;
+  items: Item[];
+  sections: SectionDefinition[];
+  viewingChangeId: string | null;
+  canRevert: boolean;
+  onViewChange: (changeId: string | null) => void;
+  onRevert: (changeId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  log, items, sections, viewingChangeId, canRevert, onViewChange, onRevert, onClose
+}) => {
+  const history = [...(log.history ?? [])].reverse();
+
+  return (
+    <div className="m-4 mb-0 bg-white border border-slate-200 rounded-2xl shadow-sm overflow-hidden animate-in fade-in duration-200">
+      <div className="px-4 py-3 flex items-center justify-between border-b border-slate-100">
+        <h4 className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
+          <HistoryIcon size={14} /> Change History
+        </h4>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><X size={16} /></button>
+      </div>
+      <div className="max-h-64 overflow-y-auto divide-y divide-slate-50 no-scrollbar">
+        {history.map(change => (
+          <div
+            key={change.id}
+            className={`px-4 py-2.5 flex items-start gap-3 ${viewingChangeId === change.id ? 'bg-blue-50' : ''}`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-semibold text-slate-700 break-words">{describeChange(change, log, items)}</p>
+              <p className="text-[10px] font-medium text-slate-400 mt-0.5">
+                {change.user} · {formatTime(change.at)}{change.section && ` · ${getSectionName(sections, change.section)}`}
+              </p>
+            </div>
+            <button
+              onClick={() => onViewChange(viewingChangeId === change.id ? null : change.id)}
+              className={`p-1.5 rounded-lg transition-colors ${viewingChangeId === change.id ? 'text-blue-600 bg-blue-100' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-600'}`}
+              title="Show the log as it was after this change"
+            >
+              <Eye size={14} />
+            </button>
+            {canRevert && canRevertChange(log, change) && (
+              <button
+                onClick={() => onRevert(change.id)}
+                className="p-1.5 rounded-lg text-slate-400 hover:bg-amber-50 hover:text-amber-600 transition-colors"
+                title="Revert this change"
+              >
+                <RotateCcw size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+        {history.length === 0 && (
+          <p className="px-4 py-6 text-center text-xs font-medium text-slate-400">No changes recorded yet</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,213 @@
+
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { ColumnType, Item, SectionData } from './types';
+import { formatColumnHeader, getColumnType, validateCellValue } from './columnUtils';
+import { getItemLabel } from './itemService';
+import {
+  ColumnMapping, ImportOptions, NEW_COLUMN, ParsedSheet, buildImport, readSpreadsheet, suggestMapping
+} from './spreadsheetService';
+
+interface ImportDialogProps {
+  sectionName: string;
+  data: SectionData;
+  items: Item[];
+  onApply: (data: SectionData) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+const selectClass = 'w-full text-xs bg-slate-50 border border-slate-200 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ sectionName, data, items, onApply, onClose }) => {
+  const [sheets, setSheets] = useState<ParsedSheet[]>([]);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [options, setOptions] = useState<ImportOptions>({ replaceRows: false, skipInvalidRows: true });
+  const [fileName, setFileName] = useState('');
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const sheet = sheets[sheetIndex];
+  const mappableColumns = data.columns.filter(c => getColumnType(c) !== ColumnType.FORMULA);
+
+  const selectSheet = (found: ParsedSheet[], index: number) => {
+    setSheetIndex(index);
+    setMapping(suggestMapping(found[index].headers, data.columns));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setReadError(null);
+    try {
+      const found = await readSpreadsheet(file);
+      if (!found.length) throw new Error('The file has no header row');
+      setSheets(found);
+      // A whole-log workbook has one sheet per section, so prefer the one named after this section
+      const matching = found.findIndex(s => s.name.trim().toLowerCase() === sectionName.toLowerCase());
+      selectSheet(found, Math.max(matching, 0));
+    } catch (err) {
+      setSheets([]);
+      setReadError(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const result = useMemo(
+    () => sheet && buildImport(sheet, mapping, data, items, options),
+    [sheet, mapping, data, items, options]
+  );
+
+  const isMappedTwice = (target: string | null) =>
+    !!target && target !== NEW_COLUMN && mapping.filter(m => m === target).length > 1;
+  const hasDuplicateTargets = mapping.some(isMappedTwice);
+  const previewColumns = result ? result.data.columns : [];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <FileSpreadsheet size={18} className="text-green-600" /> Import into {sectionName}
+            </h3>
+            <p className="text-xs text-slate-500">CSV or Excel; the first row must hold the column names</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6 no-scrollbar">
+          <label className="flex items-center justify-center gap-2 py-6 border-2 border-dashed border-slate-200 rounded-2xl text-sm font-bold text-slate-400 hover:border-blue-400 hover:text-blue-500 cursor-pointer transition-all">
+            <Upload size={18} /> {fileName || 'Choose a .csv or .xlsx file'}
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+          {readError && <p className="text-sm font-bold text-red-500">{readError}</p>}
+
+          {sheet && result && (
+            <>
+              {sheets.length > 1 && (
+                <div className="max-w-xs">
+                  <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Sheet</label>
+                  <select className={selectClass} value={sheetIndex} onChange={(e) => selectSheet(sheets, Number(e.target.value))}>
+                    {sheets.map((s, i) => <option key={s.name} value={i}>{s.name}</option>)}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">Match columns</h4>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {sheet.headers.map((header, index) => (
+                    <div key={index} className="flex items-center gap-2 p-2 bg-slate-50 rounded-xl">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-xs font-bold text-slate-700 truncate">{header || `Column ${index + 1}`}</p>
+                        <p className="text-[10px] text-slate-400 truncate">{sheet.rows.find(r => r[index])?.[index] ?? 'No values'}</p>
+                      </div>
+                      <select
+                        className={`${selectClass} max-w-[55%] ${isMappedTwice(mapping[index]) ? 'border-red-400' : ''}`}
+                        value={mapping[index] ?? ''}
+                        onChange={(e) => setMapping(mapping.map((m, i) => i === index ? e.target.value || null : m))}
+                      >
+                        <option value="">Skip</option>
+                        <option value={NEW_COLUMN}>New column</option>
+                        {mappableColumns.map(c => <option key={c.id} value={c.id}>{formatColumnHeader(c)}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {hasDuplicateTargets && (
+                  <p className="mt-2 text-xs font-bold text-red-500">Each table column can only be filled from one file column.</p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-4 text-xs font-semibold text-slate-600">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options.replaceRows}
+                    onChange={(e) => setOptions({ ...options, replaceRows: e.target.checked })}
+                  />
+                  Replace the rows already in this section
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={options.skipInvalidRows}
+                    onChange={(e) => setOptions({ ...options, skipInvalidRows: e.target.checked })}
+                  />
+                  Leave out rows with errors
+                </label>
+              </div>
+
+              {result.errors.length > 0 && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-2xl space-y-1 max-h-40 overflow-y-auto">
+                  <p className="text-xs font-bold text-red-700 flex items-center gap-1.5">
+                    <AlertCircle size={14} /> {result.errors.length} {result.errors.length === 1 ? 'row has' : 'rows have'} errors
+                    {options.skipInvalidRows ? ' and will be left out' : ' and will be imported as they are'}
+                  </p>
+                  {result.errors.map(e => (
+                    <p key={e.row} className="text-[11px] text-red-600"><span className="font-bold">Row {e.row}:</span> {e.message}</p>
+                  ))}
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">
+                  Preview · {result.importedRows.length} {result.importedRows.length === 1 ? 'row' : 'rows'} to import
+                </h4>
+                <div className="overflow-x-auto border border-slate-100 rounded-xl">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        {previewColumns.map(c => (
+                          <th key={c.id} className="px-3 py-2 text-left font-bold text-slate-500 whitespace-nowrap">{formatColumnHeader(c)}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.importedRows.slice(0, PREVIEW_ROWS).map(row => (
+                        <tr key={row.id} className="border-t border-slate-50">
+                          {previewColumns.map(c => (
+                            <td
+                              key={c.id}
+                              className={`px-3 py-1.5 whitespace-nowrap ${validateCellValue(c, row.values[c.id], items) ? 'bg-red-50 text-red-700' : 'text-slate-700'}`}
+                            >
+                              {getColumnType(c) === ColumnType.ITEM ? getItemLabel(items, row.values[c.id]) : row.values[c.id]}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                {result.importedRows.length > PREVIEW_ROWS && (
+                  <p className="mt-1 text-[11px] text-slate-400">and {result.importedRows.length - PREVIEW_ROWS} more</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-200">
+            Cancel
+          </button>
+          <button
+            onClick={() => result && onApply(result.data)}
+            disabled={!result || !result.importedRows.length || hasDuplicateTargets}
+            className="px-4 py-2.5 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 shadow-sm shadow-blue-200 disabled:opacity-50"
+          >
+            Import {result ? result.importedRows.length : 0} {result?.importedRows.length === 1 ? 'Row' : 'Rows'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,170 @@
+
+import React, { useState } from 'react';
+import { ChevronRight, Package, Plus, Search, Trash2 } from 'lucide-react';
+import { Item } from './types';
+import { COMMON_UNITS, parseNumber } from './columnUtils';
+import { createItem, getItemCategories } from './itemService';
+
+interface ItemCatalogueProps {
+  items: Item[];
+  onSaveItem: (item: Item) => void;
+  onDeleteItem: (id: string) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'w-full bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none py-1 transition-all';
+
+const ItemCatalogue: React.FC<ItemCatalogueProps> = ({ items, onSaveItem, onDeleteItem, onClose }) => {
+  const [query, setQuery] = useState('');
+  const categories = getItemCategories(items);
+
+  const visibleItems = items.filter(i =>
+    [i.code, i.name, i.category ?? ''].some(f => f.toLowerCase().includes(query.toLowerCase()))
+  );
+
+  const addItem = () => {
+    onSaveItem(createItem({ code: '', name: 'New Item' }));
+    setQuery('');
+  };
+
+  const updateItem = (item: Item, fields: Partial<Item>) => {
+    onSaveItem({ ...item, ...fields });
+  };
+
+  const deleteItem = (item: Item) => {
+    if (confirm(`Remove ${item.name} from the catalogue? Existing log entries will show it as unknown.`)) {
+      onDeleteItem(item.id);
+    }
+  };
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="md:hidden p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
+              <Package size={18} className="text-blue-600" /> Item Catalogue
+            </h2>
+            <p className="text-xs text-slate-500">{items.length} items available to item columns</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative w-32 md:w-56">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+            <input
+              className="w-full pl-9 pr-3 py-2 bg-slate-100/50 border border-transparent rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white text-sm transition-all"
+              placeholder="Search..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <button
+            onClick={addItem}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-xl text-xs font-bold hover:bg-blue-700 shadow-sm shadow-blue-200"
+          >
+            <Plus size={14} /> Item
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-slate-50/30 no-scrollbar">
+        <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden p-6">
+          <datalist id="item-catalogue-units">
+            {COMMON_UNITS.map(u => <option key={u} value={u} />)}
+          </datalist>
+          <datalist id="item-catalogue-categories">
+            {categories.map(c => <option key={c} value={c} />)}
+          </datalist>
+          <div className="overflow-x-auto no-scrollbar">
+            <table className="min-w-full divide-y divide-slate-200 text-sm">
+              <thead className="bg-slate-50">
+                <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                  <th className="px-4 py-3 w-28">Code</th>
+                  <th className="px-4 py-3 min-w-[180px]">Name</th>
+                  <th className="px-4 py-3 w-28">Unit</th>
+                  <th className="px-4 py-3 min-w-[120px]">Category</th>
+                  <th className="px-4 py-3 w-28 text-right">Reorder At</th>
+                  <th className="px-4 py-3 w-10"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleItems.map(item => (
+                  <tr key={item.id} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-4 py-2">
+                      <input
+                        className={`${fieldClass} font-mono uppercase`}
+                        value={item.code}
+                        placeholder="CODE"
+                        onChange={(e) => updateItem(item, { code: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        className={`${fieldClass} font-semibold`}
+                        value={item.name}
+                        onChange={(e) => updateItem(item, { name: e.target.value })}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        className={fieldClass}
+                        list="item-catalogue-units"
+                        value={item.unit ?? ''}
+                        placeholder="kg"
+                        onChange={(e) => updateItem(item, { unit: e.target.value || undefined })}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        className={fieldClass}
+                        list="item-catalogue-categories"
+                        value={item.category ?? ''}
+                        placeholder="..."
+                        onChange={(e) => updateItem(item, { category: e.target.value || undefined })}
+                      />
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        key={item.reorderLevel ?? ''}
+                        className={`${fieldClass} text-right tabular-nums`}
+                        inputMode="decimal"
+                        defaultValue={item.reorderLevel ?? ''}
+                        placeholder="-"
+                        onBlur={(e) => updateItem(item, { reorderLevel: parseNumber(e.target.value) ?? undefined })}
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => deleteItem(item)}
+                        className="text-slate-300 hover:text-red-500 transition-colors"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {visibleItems.length === 0 && (
+            <div className="text-center py-10 opacity-50">
+              <Package size={48} className="mx-auto mb-2 text-slate-300" />
+              <p className="text-sm font-medium text-slate-400">
+                {items.length ? 'No items match your search' : 'Add yarns and materials to use them in item columns'}
+              </p>
+            </div>
+          )}
+        </div>
+        <div className="h-20"></div>
+      </main>
+    </>
+  );
+};
+
+export default ItemCatalogue;
@@ -0,0 +1,171 @@
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, BookOpen, ChevronRight, Search } from 'lucide-react';
+import { Item, SectionDefinition, StockLog } from './types';
+import { buildLedger } from './ledgerService';
+import { parseNumber } from './columnUtils';
+import { formatLogDate } from './dateService';
+
+interface LedgerViewProps {
+  logs: StockLog[];
+  items: Item[];
+  sections: SectionDefinition[];
+  canEditLog: (log: StockLog) => boolean;
+  onUpdateLog: (log: StockLog) => void;
+  onOpenLog: (logId: string) => void;
+  onClose: () => void;
+}
+
+const LedgerView: React.FC<LedgerViewProps> = ({ logs, items, sections, canEditLog, onUpdateLog, onOpenLog, onClose }) => {
+  const [itemQuery, setItemQuery] = useState('');
+  const ledger = useMemo(() => buildLedger(logs, sections, items), [logs, sections, items]);
+
+  const visibleItems = ledger.items.filter(item =>
+    item.label.toLowerCase().includes(itemQuery.toLowerCase())
+  );
+
+  const dateOf = (logId: string, fallback: string) => {
+    const log = logs.find(l => l.id === logId);
+    return log ? formatLogDate(log) : fallback;
+  };
+
+  const warningFor = (logId: string, itemKey: string) =>
+    ledger.warnings.filter(w => w.logId === logId && w.itemKey === itemKey);
+
+  const setCount = (logId: string, itemKey: string, raw: string) => {
+    const log = logs.find(l => l.id === logId);
+    const value = parseNumber(raw);
+    if (!log || (value ?? undefined) === log.openingStock?.[itemKey]) return;
+    const openingStock = { ...log.openingStock };
+    if (value === null) {
+      delete openingStock[itemKey];
+    } else {
+      openingStock[itemKey] = value;
+    }
+    onUpdateLog({ ...log, openingStock });
+  };
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="md:hidden p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
+              <BookOpen size={18} className="text-blue-600" /> Stock Ledger
+            </h2>
+            <p className="text-xs text-slate-500">Balances carried across {logs.length} daily logs</p>
+          </div>
+        </div>
+        <div className="relative w-40 md:w-64">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={14} />
+          <input
+            className="w-full pl-9 pr-3 py-2 bg-slate-100/50 border border-transparent rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white text-sm transition-all"
+            placeholder="Find item..."
+            value={itemQuery}
+            onChange={(e) => setItemQuery(e.target.value)}
+          />
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-slate-50/30 space-y-6 no-scrollbar">
+        {ledger.warnings.length > 0 && (
+          <div className="p-5 bg-amber-50 border border-amber-200 rounded-3xl text-amber-900 shadow-sm">
+            <h5 className="font-bold text-sm flex items-center gap-2 mb-2">
+              <AlertTriangle size={16} className="text-amber-600" /> {ledger.warnings.length} reconciliation {ledger.warnings.length === 1 ? 'warning' : 'warnings'}
+            </h5>
+            <ul className="space-y-1 max-h-40 overflow-y-auto no-scrollbar">
+              {ledger.warnings.map((w, i) => (
+                <li key={i}>
+                  <button onClick={() => onOpenLog(w.logId)} className="text-xs font-medium text-amber-800/80 hover:underline text-left">
+                    <span className="font-bold">{dateOf(w.logId, w.date)}</span> — {w.message}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {visibleItems.map(item => (
+          <section key={item.key} className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+              <h3 className="font-black text-slate-800 tracking-tight">{item.label}</h3>
+              <span className="text-xs font-bold text-slate-400 uppercase">
+                Closing {item.entries[item.entries.length - 1]?.closing ?? 0} {item.unit}
+              </span>
+            </div>
+            <div className="overflow-x-auto no-scrollbar">
+              <table className="min-w-full divide-y divide-slate-100 text-sm">
+                <thead className="bg-slate-50">
+                  <tr className="text-left text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                    <th className="px-4 py-2">Date</th>
+                    <th className="px-4 py-2 text-right">Opening</th>
+                    <th className="px-4 py-2 text-right">Counted</th>
+                    <th className="px-4 py-2 text-right">Received</th>
+                    <th className="px-4 py-2 text-right">Consumed</th>
+                    <th className="px-4 py-2 text-right">Dispatched</th>
+                    <th className="px-4 py-2 text-right">Closing</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {item.entries.map(entry => {
+                    const log = logs.find(l => l.id === entry.logId);
+                    const warnings = warningFor(entry.logId, item.key);
+                    return (
+                      <tr key={entry.logId} className={warnings.length ? 'bg-amber-50/60' : 'hover:bg-slate-50'} title={warnings.map(w => w.message).join('\n') || undefined}>
+                        <td className="px-4 py-2">
+                          <button onClick={() => onOpenLog(entry.logId)} className="font-bold text-blue-600 hover:underline flex items-center gap-1">
+                            {warnings.length > 0 && <AlertTriangle size={12} className="text-amber-500" />}
+                            {log ? formatLogDate(log) : entry.date}
+                          </button>
+                        </td>
+                        <td className="px-4 py-2 text-right tabular-nums">{entry.opening}</td>
+                        <td className="px-4 py-2 text-right">
+                          {log && canEditLog(log) ? (
+                            <input
+                              key={entry.counted ?? ''}
+                              type="text"
+                              inputMode="decimal"
+                              className="w-20 text-right bg-transparent border-b border-slate-200 focus:border-blue-500 focus:outline-none tabular-nums"
+                              defaultValue={entry.counted ?? ''}
+                              placeholder="-"
+                              onBlur={(e) => setCount(entry.logId, item.key, e.target.value)}
+                            />
+                          ) : (
+                            <span className="tabular-nums text-slate-500">{entry.counted ?? '-'}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right tabular-nums text-emerald-600">{entry.received || '-'}</td>
+                        <td className="px-4 py-2 text-right tabular-nums text-orange-600">{entry.consumed || '-'}</td>
+                        <td className="px-4 py-2 text-right tabular-nums text-violet-600">{entry.dispatched || '-'}</td>
+                        <td className={`px-4 py-2 text-right tabular-nums font-black ${entry.closing < 0 ? 'text-red-600' : 'text-slate-800'}`}>{entry.closing}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))}
+
+        {visibleItems.length === 0 && (
+          <div className="text-center py-16 opacity-60">
+            <BookOpen size={48} className="mx-auto mb-3 text-slate-300" />
+            <p className="text-sm font-medium text-slate-500">No stock movements yet.</p>
+            <p className="text-xs text-slate-400 mt-1 max-w-sm mx-auto">
+              The ledger reads each section's item column (or first text column) as the item and its first number column as the quantity.
+            </p>
+          </div>
+        )}
+        <div className="h-20"></div>
+      </main>
+    </>
+  );
+};
+
+export default LedgerView;
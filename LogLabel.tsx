@@ -0,0 +1,86 @@
+
+import React, { useEffect, useState } from 'react';
+import * as QRCode from 'qrcode';
+import { Download, Printer, QrCode, X } from 'lucide-react';
+import { StockLog } from './types';
+import { formatLogDate } from './dateService';
+import { getLogLink } from './scanService';
+
+interface LogLabelProps {
+  log: StockLog;
+  onClose: () => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const LogLabel: React.FC<LogLabelProps> = ({ log, onClose }) => {
+  const [svg, setSvg] = useState('');
+  const link = getLogLink(log.id);
+  const title = formatLogDate(log, { dateStyle: 'long' });
+
+  useEffect(() => {
+    QRCode.toString(link, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' }).then(setSvg);
+  }, [link]);
+
+  const download = async () => {
+    const a = document.createElement('a');
+    a.href = await QRCode.toDataURL(link, { width: 512, margin: 2 });
+    a.download = `stocklog-${log.date}${log.shift ? `-${log.shift}` : ''}-label.png`;
+    a.click();
+  };
+
+  // The label prints on its own page so the app around the dialog stays off the paper
+  const print = () => {
+    const win = window.open('', '_blank', 'width=420,height=560');
+    if (!win) return;
+    win.document.write(`<!DOCTYPE html><html><head><title>${escapeHtml(title)}</title>
+<style>body{font-family:sans-serif;text-align:center;margin:24px}svg{width:60mm;height:60mm}h1{font-size:16px;margin:8px 0 4px}p{font-size:11px;color:#555;margin:0}</style>
+</head><body>${svg}<h1>${escapeHtml(title)}</h1><p>${escapeHtml(log.author)} · #${escapeHtml(log.id)}</p></body></html>`);
+    win.document.close();
+    win.onafterprint = () => win.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-sm flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <QrCode size={18} className="text-blue-600" /> Log Label
+            </h3>
+            <p className="text-xs text-slate-500">Scanning it opens this log</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 text-center">
+          <div className="w-56 h-56 mx-auto [&>svg]:w-full [&>svg]:h-full" dangerouslySetInnerHTML={{ __html: svg }} />
+          <p className="mt-3 font-bold text-slate-800">{title}</p>
+          <p className="text-xs text-slate-500">{log.author} · #{log.id}</p>
+          <p className="mt-2 text-[10px] text-slate-400 break-all">{link}</p>
+        </div>
+
+        <div className="p-5 border-t border-slate-100 flex gap-2">
+          <button
+            onClick={download}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50"
+          >
+            <Download size={14} /> PNG
+          </button>
+          <button
+            onClick={print}
+            disabled={!svg}
+            className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-xl text-xs font-bold hover:bg-blue-700 shadow-sm shadow-blue-200 disabled:opacity-50"
+          >
+            <Printer size={14} /> Print
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LogLabel;
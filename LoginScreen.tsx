@@ -0,0 +1,210 @@
+
+import React, { useState } from 'react';
+import { ChevronRight, KeyRound, ShieldCheck, User as UserIcon, Users } from 'lucide-react';
+import { User, UserRole } from './types';
+import { ROLE_LABELS, canSetOwnPin, needsPinSetup, validatePin, verifyPin, verifySetupCode, withPin } from './authService';
+
+interface LoginScreenProps {
+  users: User[];
+  onSaveUser: (user: User) => void;
+  onSignIn: (user: User, pin: string) => void;
+}
+
+const inputClass = 'w-full px-5 py-4 bg-slate-50 border border-slate-200 rounded-2xl focus:ring-2 focus:ring-blue-500 focus:bg-white focus:outline-none transition-all font-bold text-slate-800';
+const labelClass = 'block text-xs font-black uppercase text-slate-400 mb-2 tracking-widest';
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ users, onSaveUser, onSignIn }) => {
+  const [selected, setSelected] = useState<User | null>(null);
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [setupCode, setSetupCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const activeUsers = users.filter(u => !u.disabled);
+  // Only an empty device; disabling everyone must not hand out a new admin account
+  const isFirstRun = users.length === 0;
+  const isSettingPin = isFirstRun || (selected !== null && needsPinSetup(selected));
+  const needsSetupCode = !!selected && needsPinSetup(selected) && !canSetOwnPin(selected, users);
+
+  const reset = (user: User | null) => {
+    setSelected(user);
+    setPin('');
+    setConfirmPin('');
+    setSetupCode('');
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isSettingPin) {
+      const pinError = validatePin(pin);
+      if (pinError) return setError(pinError);
+      if (pin !== confirmPin) return setError('PINs do not match');
+      if (isFirstRun && !name.trim()) return setError('Enter your name');
+    }
+
+    setIsBusy(true);
+    try {
+      if (isFirstRun) {
+        const admin = await withPin({ name: name.trim(), role: UserRole.ADMIN }, pin);
+        onSaveUser(admin);
+        onSignIn(admin, pin);
+      } else if (selected && isSettingPin) {
+        if (needsSetupCode && !(await verifySetupCode(selected, setupCode))) {
+          setError('That setup code is wrong or has expired. Ask an admin for a new one.');
+          setSetupCode('');
+          return;
+        }
+        const updated = await withPin(selected, pin);
+        onSaveUser(updated);
+        onSignIn(updated, pin);
+      } else if (selected) {
+        if (await verifyPin(selected, pin)) {
+          onSignIn(selected, pin);
+        } else {
+          setError('Incorrect PIN');
+          setPin('');
+        }
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const pinFields = (
+    <>
+      {needsSetupCode && (
+        <div>
+          <label className={labelClass}>Setup Code</label>
+          <input
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            autoFocus
+            required
+            className={`${inputClass} tracking-[0.3em]`}
+            value={setupCode}
+            onChange={(e) => setSetupCode(e.target.value.replace(/\D/g, ''))}
+            placeholder="From your admin"
+          />
+        </div>
+      )}
+      <div>
+        <label className={labelClass}>{isSettingPin ? 'Choose a PIN' : 'PIN'}</label>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete={isSettingPin ? 'new-password' : 'current-password'}
+          autoFocus={!isFirstRun && !needsSetupCode}
+          required
+          className={`${inputClass} tracking-[0.5em]`}
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+          placeholder="••••"
+        />
+      </div>
+      {isSettingPin && (
+        <div>
+          <label className={labelClass}>Confirm PIN</label>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            required
+            className={`${inputClass} tracking-[0.5em]`}
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+            placeholder="••••"
+          />
+        </div>
+      )}
+      {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-50 to-blue-100">
+      <div className="bg-white p-8 rounded-3xl shadow-2xl w-full max-w-md space-y-8 border border-white">
+        <div className="text-center">
+          <div className="inline-flex p-4 bg-blue-600 text-white rounded-2xl mb-4 shadow-lg shadow-blue-200">
+            {isFirstRun ? <ShieldCheck size={32} /> : selected ? <KeyRound size={32} /> : <Users size={32} />}
+          </div>
+          <h1 className="text-3xl font-black text-slate-900 tracking-tight">StockLog Access</h1>
+          <p className="text-slate-500 font-medium">
+            {isFirstRun
+              ? 'Create the administrator account'
+              : selected
+                ? needsSetupCode
+                  ? `Enter the setup code an admin gave you and choose a PIN for ${selected.name}`
+                  : isSettingPin ? `Set a PIN for ${selected.name}` : `Enter the PIN for ${selected.name}`
+                : 'Select your profile to continue'}
+          </p>
+        </div>
+
+        {!isFirstRun && !selected ? (
+          <div className="max-h-72 overflow-y-auto pr-2 no-scrollbar space-y-2">
+            {activeUsers.map(user => (
+              <button
+                key={user.name}
+                onClick={() => reset(user)}
+                className="w-full flex items-center justify-between p-4 bg-slate-50 hover:bg-blue-50 border border-slate-100 hover:border-blue-200 rounded-2xl transition-all group"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-10 h-10 rounded-full bg-white border border-slate-200 flex items-center justify-center text-slate-400 group-hover:text-blue-500">
+                    <UserIcon size={20} />
+                  </div>
+                  <div className="text-left">
+                    <span className="font-bold text-slate-700 block">{user.name}</span>
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{ROLE_LABELS[user.role]}</span>
+                  </div>
+                </div>
+                <ChevronRight size={18} className="text-slate-300 group-hover:text-blue-400" />
+              </button>
+            ))}
+            <p className="text-center text-xs text-slate-400 font-medium pt-2">Ask an admin if your name is missing.</p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 animate-in fade-in duration-300">
+            {isFirstRun && (
+              <div>
+                <label className={labelClass}>Employee Name</label>
+                <input
+                  required
+                  autoFocus
+                  className={inputClass}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Enter full name"
+                />
+              </div>
+            )}
+            {pinFields}
+            <div className="flex gap-2">
+              {!isFirstRun && (
+                <button
+                  type="button"
+                  onClick={() => reset(null)}
+                  className="flex-1 py-4 bg-slate-100 text-slate-600 font-bold rounded-2xl hover:bg-slate-200 transition-all"
+                >
+                  Back
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={isBusy}
+                className="flex-[2] bg-blue-600 hover:bg-blue-700 text-white font-bold py-4 rounded-2xl transition-all shadow-lg shadow-blue-200 disabled:opacity-60"
+              >
+                {isBusy ? 'Checking...' : isSettingPin ? 'Save PIN & Continue' : 'Sign In'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
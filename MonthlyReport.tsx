@@ -0,0 +1,146 @@
+
+import React, { useMemo } from 'react';
+import { ChevronRight, Printer } from 'lucide-react';
+import { Item, SectionDefinition, StockLog } from './types';
+import { buildDashboard, formatPeriod, getMonthRange } from './dashboardService';
+import { formatNumber } from './formulaUtils';
+
+interface MonthlyReportProps {
+  logs: StockLog[];
+  items: Item[];
+  sections: SectionDefinition[];
+  /** yyyy-mm */
+  month: string;
+  onMonthChange: (month: string) => void;
+  onClose: () => void;
+}
+
+const cellClass = 'px-3 py-1.5 text-right tabular-nums';
+
+const MonthlyReport: React.FC<MonthlyReportProps> = ({ logs, items, sections, month, onMonthChange, onClose }) => {
+  const report = useMemo(
+    () => buildDashboard(logs, sections, items, { period: 'week', ...getMonthRange(month) }),
+    [logs, sections, items, month]
+  );
+  const title = formatPeriod(month, 'month');
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm print:hidden">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+            title="Back to Dashboard"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <h2 className="text-lg font-bold text-slate-800">Monthly Report</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            className="text-xs bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            value={month}
+            onChange={(e) => e.target.value && onMonthChange(e.target.value)}
+          />
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-xl text-xs font-bold hover:bg-blue-700 shadow-sm shadow-blue-200"
+          >
+            <Printer size={14} /> Print
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-white no-scrollbar print:overflow-visible print:p-0">
+        <div className="max-w-3xl mx-auto space-y-8 text-slate-800">
+          <div className="border-b-2 border-slate-800 pb-3">
+            <h1 className="text-2xl font-black tracking-tight">Stock Report — {title}</h1>
+            <p className="text-xs text-slate-500 mt-1">
+              {report.logCount} {report.logCount === 1 ? 'log' : 'logs'} · {report.warningCount} ledger {report.warningCount === 1 ? 'warning' : 'warnings'} · printed {new Date().toLocaleDateString()}
+            </p>
+          </div>
+
+          <section>
+            <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-2">Stock Movements</h3>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-slate-300 text-xs font-semibold text-slate-500">
+                  <th className="px-3 py-1.5 text-left">Item</th>
+                  <th className={cellClass}>Received</th>
+                  <th className={cellClass}>Consumed</th>
+                  <th className={cellClass}>Dispatched</th>
+                  <th className={cellClass}>Closing</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.items.map(item => (
+                  <tr key={item.key} className="border-b border-slate-100 break-inside-avoid">
+                    <td className="px-3 py-1.5 font-semibold">{item.label}{item.unit && <span className="text-slate-400 font-normal"> ({item.unit})</span>}</td>
+                    <td className={cellClass}>{formatNumber(item.received)}</td>
+                    <td className={cellClass}>{formatNumber(item.consumed)}</td>
+                    <td className={cellClass}>{formatNumber(item.dispatched)}</td>
+                    <td className={`${cellClass} font-bold`}>{formatNumber(item.closing)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.items.length === 0 && <p className="text-xs text-slate-400 mt-2">No stock movements this month.</p>}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-2">Section Totals by Week</h3>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-slate-300 text-xs font-semibold text-slate-500">
+                  <th className="px-3 py-1.5 text-left">Section / Column</th>
+                  {report.periods.map(p => <th key={p} className={cellClass}>{formatPeriod(p, 'week').replace('Week of ', '')}</th>)}
+                  <th className={cellClass}>Month</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.columns.map(col => (
+                  <tr key={`${col.section}:${col.header}`} className="border-b border-slate-100 break-inside-avoid">
+                    <td className="px-3 py-1.5">
+                      <span className="font-semibold">{col.sectionName}</span> · {col.header}{col.unit && ` (${col.unit})`}
+                    </td>
+                    {report.periods.map(p => (
+                      <td key={p} className={cellClass}>{col.byPeriod[p] !== undefined ? formatNumber(col.byPeriod[p]) : '—'}</td>
+                    ))}
+                    <td className={`${cellClass} font-bold`}>{formatNumber(col.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.columns.length === 0 && <p className="text-xs text-slate-400 mt-2">No number columns in this month's logs.</p>}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-bold uppercase tracking-wider text-slate-500 mb-2">Entries per Author</h3>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b border-slate-300 text-xs font-semibold text-slate-500">
+                  <th className="px-3 py-1.5 text-left">Author</th>
+                  <th className={cellClass}>Logs</th>
+                  <th className={cellClass}>Rows</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.authors.map(a => (
+                  <tr key={a.author} className="border-b border-slate-100">
+                    <td className="px-3 py-1.5 font-semibold">{a.author}</td>
+                    <td className={cellClass}>{a.logs}</td>
+                    <td className={cellClass}>{a.rows}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      </main>
+    </>
+  );
+};
+
+export default MonthlyReport;
@@ -0,0 +1,95 @@
+
+import React, { useState } from 'react';
+import { LayoutTemplate, X } from 'lucide-react';
+import { SectionDefinition, SectionTemplate, Shift } from './types';
+import { DefaultTemplates } from './templateService';
+import { getActiveSections } from './sectionService';
+import { SHIFTS, SHIFT_LABELS, today } from './dateService';
+
+interface NewLogDialogProps {
+  sections: SectionDefinition[];
+  templates: SectionTemplate[];
+  defaults: DefaultTemplates;
+  onCreate: (chosen: DefaultTemplates, date: string, shift?: Shift) => void;
+  onClose: () => void;
+}
+
+const BLANK = '';
+
+const fieldClass = 'w-full text-sm bg-slate-50 border border-slate-200 rounded-xl p-2.5 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const NewLogDialog: React.FC<NewLogDialogProps> = ({ sections, templates, defaults, onCreate, onClose }) => {
+  const activeSections = getActiveSections(sections);
+  const [chosen, setChosen] = useState<Record<string, string>>(() =>
+    Object.fromEntries(activeSections.map(s => [s.id, defaults[s.id] ?? BLANK]))
+  );
+  const [date, setDate] = useState(today());
+  const [shift, setShift] = useState<Shift | ''>('');
+
+  const create = () => {
+    onCreate(Object.fromEntries(Object.entries(chosen).filter(([, id]) => id !== BLANK)), date, shift || undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <LayoutTemplate size={18} className="text-blue-600" /> New Log
+          </h3>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+        </div>
+        <div className="p-5 space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Date</label>
+              <input
+                type="date"
+                className={fieldClass}
+                value={date}
+                max={today()}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Shift</label>
+              <select className={fieldClass} value={shift} onChange={(e) => setShift(e.target.value as Shift | '')}>
+                <option value="">Whole day</option>
+                {SHIFTS.map(s => <option key={s} value={s}>{SHIFT_LABELS[s]}</option>)}
+              </select>
+            </div>
+          </div>
+          {activeSections.map(({ id, name }) => (
+            <div key={id}>
+              <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">{name}</label>
+              <select
+                className={fieldClass}
+                value={chosen[id]}
+                onChange={(e) => setChosen({ ...chosen, [id]: e.target.value })}
+              >
+                <option value={BLANK}>Blank</option>
+                {templates.filter(t => t.section === id).map(t => (
+                  <option key={t.id} value={t.id}>{t.name}{defaults[id] === t.id ? ' (default)' : ''}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+        <div className="p-5 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-200">
+            Cancel
+          </button>
+          <button
+            onClick={create}
+            disabled={!date}
+            className="px-4 py-2.5 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 shadow-sm shadow-blue-200 disabled:opacity-50"
+          >
+            Create Log
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewLogDialog;
@@ -0,0 +1,191 @@
+
+import React, { useState } from 'react';
+import { FileDown, ImagePlus, X } from 'lucide-react';
+import { Item, SectionDefinition, StockLog } from './types';
+import {
+  PAGE_SIZE_LABELS, PageOrientation, PageSize, PdfSettings, exportLogToPDF, exportLogsToPDF, getLogsInRange
+} from './pdfService';
+import { compressImage } from './attachmentService';
+import { formatLogDate, today } from './dateService';
+
+interface PdfExportDialogProps {
+  /** The log to export; without one the dialog exports a date range of logs */
+  log?: StockLog;
+  logs: StockLog[];
+  sections: SectionDefinition[];
+  items: Item[];
+  settings: PdfSettings;
+  onSaveSettings: (settings: PdfSettings) => void;
+  onClose: () => void;
+}
+
+// Logos print at most 40 × 18 mm, so a few hundred pixels is plenty
+const LOGO_SIZE = 400;
+
+const fieldClass = 'w-full text-sm bg-slate-50 border border-slate-200 rounded-xl p-2.5 focus:outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'block text-[10px] uppercase font-bold text-slate-400 mb-1';
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ log, logs, sections, items, settings, onSaveSettings, onClose }) => {
+  const [draft, setDraft] = useState<PdfSettings>(settings);
+  const [includeAttachments, setIncludeAttachments] = useState(false);
+  const [from, setFrom] = useState(today().slice(0, 8) + '01');
+  const [to, setTo] = useState(today());
+  const [error, setError] = useState<string | null>(null);
+
+  const rangeCount = log ? 0 : getLogsInRange(logs, from, to).length;
+  const hasAttachments = log
+    ? !!log.attachments?.length
+    : getLogsInRange(logs, from, to).some(l => l.attachments?.length);
+
+  const pickLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setDraft({ ...draft, logo: (await compressImage(file, LOGO_SIZE)).data });
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const exportPdf = () => {
+    const options = { settings: draft, items, includeAttachments: hasAttachments && includeAttachments };
+    try {
+      if (log) {
+        exportLogToPDF(log, sections, options);
+      } else {
+        exportLogsToPDF(logs, sections, from, to, options);
+      }
+      onSaveSettings(draft);
+      onClose();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <FileDown size={18} className="text-blue-600" /> {log ? 'PDF Report' : 'Batch PDF Export'}
+            </h3>
+            <p className="text-xs text-slate-500">{log ? formatLogDate(log) : 'Every log in a date range, in one file'}</p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5 no-scrollbar">
+          {!log && (
+            <div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>From</label>
+                  <input type="date" className={fieldClass} value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+                </div>
+                <div>
+                  <label className={labelClass}>To</label>
+                  <input type="date" className={fieldClass} value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </div>
+              <p className="mt-1.5 text-xs font-semibold text-slate-500">
+                {rangeCount} {rangeCount === 1 ? 'log' : 'logs'} in this range
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Page size</label>
+              <select className={fieldClass} value={draft.pageSize} onChange={(e) => setDraft({ ...draft, pageSize: e.target.value as PageSize })}>
+                {(Object.keys(PAGE_SIZE_LABELS) as PageSize[]).map(size => <option key={size} value={size}>{PAGE_SIZE_LABELS[size]}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Orientation</label>
+              <select
+                className={fieldClass}
+                value={draft.orientation}
+                onChange={(e) => setDraft({ ...draft, orientation: e.target.value as PageOrientation })}
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape (wide tables)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="text-xs font-bold uppercase tracking-widest text-slate-500">Company header</h4>
+            <div className="flex items-start gap-3">
+              <label
+                className="w-20 h-20 shrink-0 flex items-center justify-center border-2 border-dashed border-slate-200 rounded-2xl text-slate-400 hover:border-blue-400 hover:text-blue-500 cursor-pointer overflow-hidden"
+                title="Logo"
+              >
+                {draft.logo ? <img src={draft.logo} alt="Logo" className="max-w-full max-h-full object-contain" /> : <ImagePlus size={20} />}
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    pickLogo(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <div className="flex-1 space-y-2">
+                <input
+                  className={fieldClass}
+                  placeholder="Company name"
+                  value={draft.companyName}
+                  onChange={(e) => setDraft({ ...draft, companyName: e.target.value })}
+                />
+                <textarea
+                  className={`${fieldClass} text-xs`}
+                  rows={2}
+                  placeholder="Address, phone, GST number..."
+                  value={draft.companyDetails}
+                  onChange={(e) => setDraft({ ...draft, companyDetails: e.target.value })}
+                />
+              </div>
+            </div>
+            {draft.logo && (
+              <button onClick={() => setDraft({ ...draft, logo: undefined })} className="text-xs font-semibold text-red-500 hover:text-red-600">
+                Remove logo
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-2 text-xs font-semibold text-slate-600">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.signatures} onChange={(e) => setDraft({ ...draft, signatures: e.target.checked })} />
+              Signature blocks for the author and supervisor, stamped when the log is approved
+            </label>
+            {hasAttachments && (
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={includeAttachments} onChange={(e) => setIncludeAttachments(e.target.checked)} />
+                Photos and documents in an appendix
+              </label>
+            )}
+          </div>
+
+          {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2.5 bg-slate-100 text-slate-600 rounded-xl text-sm font-bold hover:bg-slate-200">
+            Cancel
+          </button>
+          <button
+            onClick={exportPdf}
+            disabled={!log && rangeCount === 0}
+            className="px-4 py-2.5 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 shadow-sm shadow-blue-200 disabled:opacity-50"
+          >
+            Download PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportDialog;
@@ -0,0 +1,83 @@
+
+import React from 'react';
+import { CircleCheck, CircleX, Lock, Pencil, RotateCcw, Send, Undo2 } from 'lucide-react';
+import { LogStatus, StockLog, User } from './types';
+import { STATUS_BADGES, STATUS_LABELS, getStatusChange } from './reviewService';
+import { COMMENTED_STATUSES, canEditLog, isEditableStatus } from './permissions';
+
+interface ReviewPanelProps {
+  log: StockLog;
+  currentUser: User;
+}
+
+/** Icons for the buttons that move a log to each status */
+export const STATUS_ICONS: Record<LogStatus, typeof Send> = {
+  [LogStatus.DRAFT]: Undo2,
+  [LogStatus.SUBMITTED]: Send,
+  [LogStatus.APPROVED]: CircleCheck,
+  [LogStatus.REJECTED]: CircleX,
+  [LogStatus.REOPENED]: RotateCcw
+};
+
+const describeStatus = (log: StockLog, currentUser: User) => {
+  const isAuthor = log.author === currentUser.name;
+  switch (log.status) {
+    case LogStatus.SUBMITTED:
+      return isAuthor
+        ? 'Waiting for a supervisor to review it. Withdraw it to make more changes.'
+        : 'Waiting for review. Approve it once the figures are checked, or reject it with what needs fixing.';
+    case LogStatus.APPROVED:
+      return 'Checked and final. A supervisor can reopen it if something has to be corrected.';
+    case LogStatus.REJECTED:
+      return isAuthor ? 'Sent back for corrections. Submit it again once they are made.' : `Sent back to ${log.author} for corrections.`;
+    case LogStatus.REOPENED:
+      return isAuthor ? 'Reopened for corrections. Submit it again once they are made.' : `Reopened for ${log.author} to correct.`;
+    default:
+      return isAuthor ? 'Submit it for review once every entry is in.' : `${log.author} is still filling it in.`;
+  }
+};
+
+/** Where the log stands in its review, and every step it has been through. */
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ log, currentUser }) => {
+  const steps = [...(log.statusHistory ?? [])].reverse();
+  // The reason stays in view for as long as the log is rejected or reopened
+  const comment = COMMENTED_STATUSES.includes(log.status) ? getStatusChange(log)?.comment : undefined;
+  const readOnly = !canEditLog(currentUser, log);
+
+  return (
+    <section className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6 space-y-4">
+      <div className="flex items-start gap-4">
+        <div className={`p-2 rounded-full ${STATUS_BADGES[log.status]}`}>
+          {isEditableStatus(log.status) ? <Pencil size={20} /> : <Lock size={20} />}
+        </div>
+        <div className="min-w-0">
+          <h5 className="font-bold text-sm text-slate-800">{STATUS_LABELS[log.status]}</h5>
+          <p className="text-xs font-medium text-slate-500 mt-1 leading-relaxed">
+            {describeStatus(log, currentUser)}
+            {readOnly && isEditableStatus(log.status) && ` This entry belongs to ${log.author}; you can view it but not change it.`}
+          </p>
+          {comment && (
+            <p className="mt-2 p-3 bg-slate-50 border border-slate-100 rounded-xl text-xs font-medium text-slate-700 whitespace-pre-wrap">{comment}</p>
+          )}
+        </div>
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="border-l-2 border-slate-100 ml-4 pl-5 space-y-3">
+          {steps.map(step => (
+            <li key={`${step.at}-${step.status}`} className="text-xs">
+              <span className={`inline-block px-1.5 py-0.5 rounded font-bold uppercase text-[9px] mr-2 ${STATUS_BADGES[step.status]}`}>
+                {STATUS_LABELS[step.status]}
+              </span>
+              <span className="font-semibold text-slate-700">{step.user}</span>
+              <span className="text-slate-400"> · {new Date(step.at).toLocaleString()}</span>
+              {step.comment && <p className="mt-1 text-slate-500 whitespace-pre-wrap">{step.comment}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+};
+
+export default ReviewPanel;
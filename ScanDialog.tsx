@@ -0,0 +1,176 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { CameraOff, ImagePlus, ScanLine, X } from 'lucide-react';
+import { CodeDecoder, createDecoder, decodeImageFile } from './scanService';
+
+interface ScanDialogProps {
+  /** The focused cell, e.g. "Row 3 · Lot No"; without one every scan adds a row */
+  targetLabel: string | null;
+  /** Applies a code and returns what was done with it, e.g. "Added C-20 — Cotton 2/40" */
+  onScan: (code: string, fillTarget: boolean) => string;
+  onClose: () => void;
+}
+
+// How often a camera frame is decoded, and how long the same code is ignored after a read
+const FRAME_INTERVAL = 250;
+const REPEAT_DELAY = 2000;
+
+const ScanDialog: React.FC<ScanDialogProps> = ({ targetLabel, onScan, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const decoderRef = useRef<CodeDecoder | null>(null);
+  const lastRead = useRef({ code: '', at: 0 });
+  const [fillTarget, setFillTarget] = useState(!!targetLabel);
+  const [qrOnly, setQrOnly] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [typedCode, setTypedCode] = useState('');
+  // The camera loop outlives renders, so it reads the latest handler through a ref
+  const handleCode = useRef<(code: string) => void>(() => undefined);
+
+  handleCode.current = (code: string) => {
+    const now = Date.now();
+    if (code === lastRead.current.code && now - lastRead.current.at < REPEAT_DELAY) return;
+    lastRead.current = { code, at: now };
+    setMessage(onScan(code, fillTarget));
+    // Filling a cell is a single read; adding rows carries on with the next bale
+    if (fillTarget) onClose();
+  };
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const readFrame = async () => {
+      const video = videoRef.current;
+      const decoder = decoderRef.current;
+      if (stopped || !video || !decoder) return;
+      try {
+        const code = video.readyState >= 2 ? await decoder.decode(video) : null;
+        if (code && !stopped) handleCode.current(code);
+      } catch {
+        // A frame that cannot be read is skipped; the next one usually works
+      }
+      if (!stopped) timer = window.setTimeout(readFrame, FRAME_INTERVAL);
+    };
+
+    const start = async () => {
+      decoderRef.current = await createDecoder();
+      setQrOnly(decoderRef.current.qrOnly);
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('This browser cannot open the camera here. Scan from a photo instead.');
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        if (stopped || !videoRef.current) return;
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        readFrame();
+      } catch (err) {
+        const refused = (err as Error).name === 'NotAllowedError';
+        setCameraError(refused
+          ? 'Camera access was refused. Allow it in the browser settings, or scan from a photo.'
+          : `The camera could not be opened: ${(err as Error).message}`);
+      }
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  const scanPhoto = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const decoder = decoderRef.current ?? await createDecoder();
+      const code = await decodeImageFile(decoder, file);
+      if (code) {
+        lastRead.current = { code: '', at: 0 };
+        handleCode.current(code);
+      } else {
+        setMessage(`No ${decoder.qrOnly ? 'QR code' : 'barcode or QR code'} found in ${file.name}`);
+      }
+    } catch (err) {
+      setMessage(`Could not read ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const submitTyped = () => {
+    if (!typedCode.trim()) return;
+    lastRead.current = { code: '', at: 0 };
+    handleCode.current(typedCode.trim());
+    setTypedCode('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ScanLine size={18} className="text-blue-600" /> Scan Code
+            </h3>
+            <p className="text-xs text-slate-500">
+              {fillTarget && targetLabel ? `Fills ${targetLabel}` : 'Each code adds a row'}
+              {qrOnly && ' · this browser reads QR codes only'}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"><X size={18} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-4 no-scrollbar">
+          <div className="relative aspect-[4/3] bg-slate-900 rounded-2xl overflow-hidden flex items-center justify-center">
+            {cameraError ? (
+              <div className="p-6 text-center text-slate-300 text-sm font-medium">
+                <CameraOff size={28} className="mx-auto mb-3 text-slate-500" />
+                {cameraError}
+              </div>
+            ) : (
+              <>
+                <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                <div className="absolute inset-x-10 inset-y-12 border-2 border-white/70 rounded-2xl pointer-events-none" />
+              </>
+            )}
+          </div>
+
+          {message && <p className="text-sm font-bold text-slate-700 bg-slate-50 rounded-xl px-3 py-2" role="status">{message}</p>}
+
+          {targetLabel && (
+            <label className="flex items-center gap-2 text-xs font-semibold text-slate-600">
+              <input type="checkbox" checked={!fillTarget} onChange={(e) => setFillTarget(!e.target.checked)} />
+              Add a new row instead of filling {targetLabel}
+            </label>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              className="flex-1 min-w-0 text-sm bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              placeholder="Or type the code"
+              value={typedCode}
+              onChange={(e) => setTypedCode(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submitTyped()}
+            />
+            <label className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50 cursor-pointer shrink-0">
+              <ImagePlus size={14} /> From photo
+              <input
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  scanPhoto(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScanDialog;
@@ -0,0 +1,143 @@
+
+import React from 'react';
+import { Bookmark, Plus, X } from 'lucide-react';
+import { FilterCondition, FilterOperator, LogFilter, LogStatus, SectionDefinition } from './types';
+import { EMPTY_FILTER, FILTER_OPERATOR_LABELS } from './searchService';
+import { STATUS_LABELS } from './reviewService';
+
+interface SearchFiltersProps {
+  filter: LogFilter;
+  authors: string[];
+  sections: SectionDefinition[];
+  columnHeaders: string[];
+  onChange: (filter: LogFilter) => void;
+  onSaveView: () => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-[10px] uppercase font-bold text-slate-400 mb-1';
+const inputClass = 'w-full text-xs bg-slate-50 border border-slate-100 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const SearchFilters: React.FC<SearchFiltersProps> = ({
+  filter, authors, sections, columnHeaders, onChange, onSaveView, onClose
+}) => {
+  const update = (fields: Partial<LogFilter>) => onChange({ ...filter, ...fields });
+
+  const updateCondition = (index: number, fields: Partial<FilterCondition>) => {
+    update({ conditions: filter.conditions.map((c, i) => i === index ? { ...c, ...fields } : c) });
+  };
+
+  return (
+    <div className="p-3 bg-white rounded-xl border border-slate-200 shadow-sm animate-in slide-in-from-top-2 duration-200 space-y-3">
+      <div>
+        <label className={labelClass}>Filter by Author</label>
+        <select
+          className={inputClass}
+          value={filter.author ?? ''}
+          onChange={(e) => update({ author: e.target.value || undefined })}
+        >
+          <option value="">All Authors</option>
+          {authors.map(a => <option key={a} value={a}>{a}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>From</label>
+          <input type="date" className={inputClass} value={filter.from ?? ''} onChange={(e) => update({ from: e.target.value || undefined })} />
+        </div>
+        <div>
+          <label className={labelClass}>To</label>
+          <input type="date" className={inputClass} value={filter.to ?? ''} onChange={(e) => update({ to: e.target.value || undefined })} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Section</label>
+          <select className={inputClass} value={filter.section ?? ''} onChange={(e) => update({ section: e.target.value || undefined })}>
+            <option value="">All Sections</option>
+            {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Status</label>
+          <select
+            className={inputClass}
+            value={filter.status ?? ''}
+            onChange={(e) => update({ status: (e.target.value || undefined) as LogStatus | undefined })}
+          >
+            <option value="">Any</option>
+            {Object.values(LogStatus).map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>Column Conditions</label>
+        <datalist id="filter-column-headers">
+          {columnHeaders.map(h => <option key={h} value={h} />)}
+        </datalist>
+        <div className="space-y-2">
+          {filter.conditions.map((condition, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <input
+                className={`${inputClass} flex-1 min-w-0`}
+                list="filter-column-headers"
+                placeholder="Column"
+                value={condition.column}
+                onChange={(e) => updateCondition(index, { column: e.target.value })}
+              />
+              <select
+                className={`${inputClass} w-20 shrink-0`}
+                value={condition.operator}
+                onChange={(e) => updateCondition(index, { operator: e.target.value as FilterOperator })}
+              >
+                {Object.entries(FILTER_OPERATOR_LABELS).map(([op, label]) => <option key={op} value={op}>{label}</option>)}
+              </select>
+              <input
+                className={`${inputClass} flex-1 min-w-0`}
+                placeholder="Value"
+                value={condition.value}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+              />
+              <button
+                onClick={() => update({ conditions: filter.conditions.filter((_, i) => i !== index) })}
+                className="p-1 text-slate-300 hover:text-red-500"
+                title="Remove Condition"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => update({ conditions: [...filter.conditions, { column: '', operator: 'equals', value: '' }] })}
+          className="mt-2 flex items-center gap-1 text-[10px] text-blue-600 font-bold hover:underline"
+        >
+          <Plus size={12} /> Add Condition
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between pt-1">
+        <button
+          onClick={() => {
+            onChange(EMPTY_FILTER);
+            onClose();
+          }}
+          className="text-[10px] text-blue-600 font-bold hover:underline"
+        >
+          Clear Filters
+        </button>
+        <button
+          onClick={onSaveView}
+          className="flex items-center gap-1 px-2 py-1.5 bg-slate-100 text-slate-600 rounded-lg text-[10px] font-bold hover:bg-slate-200"
+        >
+          <Bookmark size={12} /> Save as View
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SearchFilters;
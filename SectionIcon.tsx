@@ -0,0 +1,35 @@
+
+import React from 'react';
+import {
+  Boxes, Cylinder, Droplets, Factory, Flame, Layers, Package, Scissors, Spool, Truck, Warehouse, Wind
+} from 'lucide-react';
+
+const SECTION_ICONS: Record<string, typeof Layers> = {
+  spool: Spool,
+  layers: Layers,
+  cylinder: Cylinder,
+  truck: Truck,
+  droplets: Droplets,
+  flame: Flame,
+  wind: Wind,
+  scissors: Scissors,
+  factory: Factory,
+  package: Package,
+  boxes: Boxes,
+  warehouse: Warehouse
+};
+
+export const SECTION_ICON_NAMES = Object.keys(SECTION_ICONS);
+
+interface SectionIconProps {
+  name: string;
+  size?: number;
+  className?: string;
+}
+
+const SectionIcon: React.FC<SectionIconProps> = ({ name, size = 16, className }) => {
+  const Icon = SECTION_ICONS[name] ?? Layers;
+  return <Icon size={size} className={className} />;
+};
+
+export default SectionIcon;
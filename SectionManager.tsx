@@ -0,0 +1,165 @@
+
+import React, { useState } from 'react';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, ChevronRight, Columns3, Plus } from 'lucide-react';
+import { LedgerMovement, SectionDefinition } from './types';
+import { MOVEMENT_LABELS, SECTION_COLORS, createSection, getActiveSections, moveSection } from './sectionService';
+import SectionIcon, { SECTION_ICON_NAMES } from './SectionIcon';
+
+interface SectionManagerProps {
+  sections: SectionDefinition[];
+  onSaveSections: (sections: SectionDefinition[]) => void;
+  onClose: () => void;
+}
+
+const SectionManager: React.FC<SectionManagerProps> = ({ sections, onSaveSections, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const activeCount = getActiveSections(sections).length;
+
+  const updateSection = (id: string, fields: Partial<SectionDefinition>) => {
+    onSaveSections(sections.map(s => s.id === id ? { ...s, ...fields } : s));
+  };
+
+  const addSection = () => {
+    if (!newName.trim()) return;
+    onSaveSections([...sections, createSection(newName, sections)]);
+    setNewName('');
+  };
+
+  const toggleArchived = (section: SectionDefinition) => {
+    if (!section.archived && !confirm(`Archive ${section.name}? New logs will not have it, but logs that already use it keep the tab.`)) return;
+    updateSection(section.id, { archived: !section.archived });
+  };
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="md:hidden p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
+              <Columns3 size={18} className="text-blue-600" /> Log Sections
+            </h2>
+            <p className="text-xs text-slate-500">{activeCount} active {activeCount === 1 ? 'section' : 'sections'} in every new log</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            className="w-32 md:w-56 px-3 py-2 bg-slate-100/50 border border-transparent rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white text-xs"
+            placeholder="New section name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addSection()}
+          />
+          <button
+            onClick={addSection}
+            disabled={!newName.trim()}
+            className="flex items-center gap-2 px-3 py-2 bg-blue-600 text-white rounded-xl text-xs font-bold hover:bg-blue-700 shadow-sm shadow-blue-200 disabled:opacity-50"
+          >
+            <Plus size={14} /> Add
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-slate-50/30 space-y-4 no-scrollbar">
+        {sections.map((section, index) => (
+          <section
+            key={section.id}
+            className={`bg-white rounded-3xl border border-slate-200 shadow-sm p-5 space-y-4 ${section.archived ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-center gap-3">
+              <span className={`p-2 rounded-xl ${SECTION_COLORS[section.color]?.chip ?? SECTION_COLORS.slate.chip}`}>
+                <SectionIcon name={section.icon} size={18} />
+              </span>
+              <input
+                className="flex-1 min-w-0 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none py-1 font-bold text-slate-800"
+                defaultValue={section.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== section.name) updateSection(section.id, { name });
+                }}
+              />
+              {section.archived && <span className="text-[10px] uppercase font-bold text-slate-400">Archived</span>}
+              <button
+                onClick={() => onSaveSections(moveSection(sections, section.id, -1))}
+                disabled={index === 0}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl disabled:opacity-30"
+                title="Move Up"
+              >
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => onSaveSections(moveSection(sections, section.id, 1))}
+                disabled={index === sections.length - 1}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl disabled:opacity-30"
+                title="Move Down"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                onClick={() => toggleArchived(section)}
+                disabled={!section.archived && activeCount === 1}
+                className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl disabled:opacity-30"
+                title={section.archived ? 'Restore' : 'Archive'}
+              >
+                {section.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Icon</label>
+                <div className="flex flex-wrap gap-1">
+                  {SECTION_ICON_NAMES.map(icon => (
+                    <button
+                      key={icon}
+                      onClick={() => updateSection(section.id, { icon })}
+                      className={`p-1.5 rounded-lg transition-colors ${section.icon === icon ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-100'}`}
+                      title={icon}
+                    >
+                      <SectionIcon name={icon} size={14} />
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Colour</label>
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(SECTION_COLORS).map(([color, { label, chip }]) => (
+                    <button
+                      key={color}
+                      onClick={() => updateSection(section.id, { color })}
+                      className={`px-2 py-1 rounded-lg text-[10px] font-bold ${chip} ${section.color === color ? 'ring-2 ring-offset-1 ring-blue-500' : ''}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Stock Ledger</label>
+                <select
+                  className="w-full text-xs bg-slate-50 border border-slate-100 rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  value={section.movement ?? ''}
+                  onChange={(e) => updateSection(section.id, { movement: (e.target.value || undefined) as LedgerMovement | undefined })}
+                >
+                  <option value="">Not counted</option>
+                  {Object.entries(MOVEMENT_LABELS).map(([movement, label]) => (
+                    <option key={movement} value={movement}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </section>
+        ))}
+        <div className="h-20"></div>
+      </main>
+    </>
+  );
+};
+
+export default SectionManager;
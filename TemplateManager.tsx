@@ -0,0 +1,163 @@
+
+import React, { useState } from 'react';
+import { ChevronRight, Download, LayoutTemplate, Star, Trash2, Upload } from 'lucide-react';
+import { SectionDefinition, SectionTemplate } from './types';
+import { formatColumnHeader } from './columnUtils';
+import { DefaultTemplates, exportTemplates, parseTemplateFile } from './templateService';
+import { getSectionName } from './sectionService';
+import SectionIcon from './SectionIcon';
+
+interface TemplateManagerProps {
+  sections: SectionDefinition[];
+  templates: SectionTemplate[];
+  defaults: DefaultTemplates;
+  onSaveTemplate: (template: SectionTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  onSetDefault: (section: string, id: string | undefined) => void;
+  onClose: () => void;
+}
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({
+  sections, templates, defaults, onSaveTemplate, onDeleteTemplate, onSetDefault, onClose
+}) => {
+  // Archived or unknown sections stay listed while they still have templates
+  const sectionIds = [
+    ...sections.filter(s => !s.archived || templates.some(t => t.section === s.id)).map(s => s.id),
+    ...new Set(templates.map(t => t.section).filter(id => !sections.some(s => s.id === id)))
+  ];
+
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseTemplateFile(await file.text());
+      imported.forEach(onSaveTemplate);
+      setImportMessage({ text: `Imported ${imported.length} ${imported.length === 1 ? 'template' : 'templates'} from ${file.name}`, isError: false });
+    } catch (err) {
+      setImportMessage({ text: (err as Error).message, isError: true });
+    }
+  };
+
+  const deleteTemplate = (template: SectionTemplate) => {
+    if (confirm(`Delete the template "${template.name}"? Logs already created from it are not affected.`)) {
+      onDeleteTemplate(template.id);
+    }
+  };
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="md:hidden p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
+              <LayoutTemplate size={18} className="text-blue-600" /> Section Templates
+            </h2>
+            <p className="text-xs text-slate-500">Starred templates are used for new logs</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50 cursor-pointer">
+            <Upload size={14} /> Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <button
+            onClick={() => exportTemplates(templates)}
+            disabled={!templates.length}
+            className="flex items-center gap-2 px-3 py-2 bg-white border border-slate-200 rounded-xl text-xs font-semibold text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+          >
+            <Download size={14} /> Export All
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-slate-50/30 space-y-6 no-scrollbar">
+        {importMessage && (
+          <div className={`p-4 rounded-2xl text-sm font-bold border ${importMessage.isError ? 'bg-red-50 border-red-200 text-red-600' : 'bg-green-50 border-green-200 text-green-700'}`}>
+            {importMessage.text}
+          </div>
+        )}
+
+        {sectionIds.map(section => {
+          const sectionTemplates = templates.filter(t => t.section === section);
+          const definition = sections.find(s => s.id === section);
+          return (
+            <section key={section} className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+              <h3 className="px-6 py-4 border-b border-slate-100 font-bold text-slate-800 flex items-center gap-2">
+                <SectionIcon name={definition?.icon ?? 'layers'} className="text-slate-400" />
+                {getSectionName(sections, section)}
+                {definition?.archived && <span className="text-[10px] uppercase font-bold text-slate-400">Archived</span>}
+              </h3>
+              <div className="divide-y divide-slate-50">
+                {sectionTemplates.map(template => {
+                  const isDefault = defaults[section] === template.id;
+                  return (
+                    <div key={template.id} className="px-6 py-3 flex items-center gap-3">
+                      <button
+                        onClick={() => onSetDefault(section, isDefault ? undefined : template.id)}
+                        className={`p-1.5 rounded-lg transition-colors ${isDefault ? 'text-amber-500' : 'text-slate-300 hover:text-amber-400'}`}
+                        title={isDefault ? 'Default for new logs' : 'Use for new logs'}
+                      >
+                        <Star size={16} fill={isDefault ? 'currentColor' : 'none'} />
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <input
+                          className="w-full bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none py-1 font-semibold text-slate-800"
+                          defaultValue={template.name}
+                          onBlur={(e) => {
+                            const name = e.target.value.trim();
+                            if (name && name !== template.name) onSaveTemplate({ ...template, name });
+                          }}
+                        />
+                        <p className="text-[11px] text-slate-400 truncate">
+                          {template.columns.map(formatColumnHeader).join(' · ')}
+                          {template.rows.length > 0 && ` — ${template.rows.length} default ${template.rows.length === 1 ? 'row' : 'rows'}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => exportTemplates([template])}
+                        className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"
+                        title="Share as JSON"
+                      >
+                        <Download size={14} />
+                      </button>
+                      <button
+                        onClick={() => deleteTemplate(template)}
+                        className="p-2 text-red-300 hover:text-red-500 hover:bg-red-50 rounded-xl"
+                        title="Delete Template"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+                {sectionTemplates.length === 0 && (
+                  <p className="px-6 py-4 text-xs font-medium text-slate-400">
+                    No templates yet. Use "Save as Template" on a log's {getSectionName(sections, section)} tab.
+                  </p>
+                )}
+              </div>
+            </section>
+          );
+        })}
+        <div className="h-20"></div>
+      </main>
+    </>
+  );
+};
+
+export default TemplateManager;
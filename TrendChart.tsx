@@ -0,0 +1,76 @@
+
+import React from 'react';
+import { formatNumber } from './formulaUtils';
+
+export interface ChartSeries {
+  name: string;
+  /** Tailwind fill class, e.g. fill-emerald-500 */
+  color: string;
+  values: number[];
+}
+
+interface TrendChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const AXIS = 24;
+
+// Grouped bars, one group per label; drawn in viewBox units and scaled to the container width
+const TrendChart: React.FC<TrendChartProps> = ({ labels, series, height = 200 }) => {
+  const max = Math.max(0, ...series.flatMap(s => s.values));
+  if (!labels.length || max === 0) {
+    return <p className="py-10 text-center text-xs font-medium text-slate-400">Nothing recorded in this period</p>;
+  }
+  const plotHeight = height - AXIS;
+  const groupWidth = WIDTH / labels.length;
+  const barWidth = Math.max(1, (groupWidth * 0.8) / series.length);
+  // Label every group only while they stay readable
+  const labelEvery = Math.ceil(labels.length / 12);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img">
+        <line x1={0} x2={WIDTH} y1={plotHeight} y2={plotHeight} className="stroke-slate-200" />
+        {labels.map((label, i) => (
+          <g key={label}>
+            {series.map((s, j) => {
+              const barHeight = (s.values[i] / max) * (plotHeight - 8);
+              return (
+                <rect
+                  key={s.name}
+                  x={i * groupWidth + groupWidth * 0.1 + j * barWidth}
+                  y={plotHeight - barHeight}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={Math.min(3, barWidth / 3)}
+                  className={s.color}
+                >
+                  <title>{`${label} — ${s.name}: ${formatNumber(s.values[i])}`}</title>
+                </rect>
+              );
+            })}
+            {i % labelEvery === 0 && (
+              <text x={i * groupWidth + groupWidth / 2} y={height - 6} textAnchor="middle" className="fill-slate-400 text-[10px]">
+                {label}
+              </text>
+            )}
+          </g>
+        ))}
+        <text x={2} y={10} className="fill-slate-400 text-[10px]">{formatNumber(max)}</text>
+      </svg>
+      <div className="mt-2 flex flex-wrap gap-4">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center gap-1.5 text-[11px] font-semibold text-slate-500">
+            <svg width={10} height={10}><rect width={10} height={10} rx={2} className={s.color} /></svg>
+            {s.name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
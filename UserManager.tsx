@@ -0,0 +1,200 @@
+
+import React, { useState } from 'react';
+import { ChevronRight, KeyRound, Save, ShieldCheck, TicketCheck, UserPlus, X } from 'lucide-react';
+import { User, UserRole } from './types';
+import { ROLE_LABELS, needsPinSetup, validatePin, withPin, withSetupCode } from './authService';
+
+interface UserManagerProps {
+  users: User[];
+  currentUser: User;
+  onSaveUser: (user: User) => void;
+  onClose: () => void;
+}
+
+const fieldClass = 'px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:bg-white focus:outline-none text-sm font-semibold text-slate-800';
+
+const UserManager: React.FC<UserManagerProps> = ({ users, currentUser, onSaveUser, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>(UserRole.OPERATOR);
+  const [newPin, setNewPin] = useState('');
+  const [pinFor, setPinFor] = useState<string | null>(null);
+  const [pinDraft, setPinDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const activeAdmins = users.filter(u => u.role === UserRole.ADMIN && !u.disabled);
+  const isLastAdmin = (user: User) =>
+    user.role === UserRole.ADMIN && !user.disabled && activeAdmins.length === 1;
+
+  const addUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return setError('Enter a name');
+    if (users.some(u => u.name.toLowerCase() === name.toLowerCase())) return setError(`${name} already exists`);
+    const pinError = validatePin(newPin);
+    if (pinError) return setError(pinError);
+    onSaveUser(await withPin({ name, role: newRole }, newPin));
+    setNewName('');
+    setNewPin('');
+    setNewRole(UserRole.OPERATOR);
+    setError(null);
+  };
+
+  const changeRole = (user: User, role: UserRole) => {
+    if (isLastAdmin(user) && role !== UserRole.ADMIN) return setError('There must always be at least one admin');
+    onSaveUser({ ...user, role, updatedAt: Date.now() });
+    setError(null);
+  };
+
+  const toggleDisabled = (user: User) => {
+    if (user.name === currentUser.name) return setError('You cannot disable your own account');
+    if (isLastAdmin(user)) return setError('There must always be at least one admin');
+    onSaveUser({ ...user, disabled: !user.disabled, updatedAt: Date.now() });
+    setError(null);
+  };
+
+  const savePin = async (user: User) => {
+    const pinError = validatePin(pinDraft);
+    if (pinError) return setError(pinError);
+    onSaveUser(await withPin(user, pinDraft));
+    setPinFor(null);
+    setPinDraft('');
+    setError(null);
+  };
+
+  // The code is shown once here; only its hash is saved
+  const issueSetupCode = async (user: User) => {
+    const { user: updated, code } = await withSetupCode(user);
+    onSaveUser(updated);
+    setError(null);
+    alert(`Setup code for ${user.name}: ${code}\n\nThey enter it at the sign-in screen to choose their PIN. It works once, within 24 hours.`);
+  };
+
+  return (
+    <>
+      <header className="p-4 bg-white border-b border-slate-200 flex items-center justify-between sticky top-0 z-10 shadow-sm">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="md:hidden p-2 hover:bg-slate-100 rounded-lg text-slate-600 transition-colors"
+          >
+            <ChevronRight size={20} className="rotate-180" />
+          </button>
+          <div>
+            <h2 className="text-lg font-bold flex items-center gap-2 text-slate-800">
+              <ShieldCheck size={18} className="text-blue-600" /> Users & Roles
+            </h2>
+            <p className="text-xs text-slate-500">Supervisors review, approve and reopen logs; admins also manage users</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto p-4 md:p-8 bg-slate-50/30 space-y-6 no-scrollbar">
+        <form onSubmit={addUser} className="bg-white rounded-3xl border border-slate-200 shadow-sm p-6 flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="flex-1">
+            <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Name</label>
+            <input className={`${fieldClass} w-full`} value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Full name" />
+          </div>
+          <div>
+            <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Role</label>
+            <select className={`${fieldClass} w-full`} value={newRole} onChange={(e) => setNewRole(e.target.value as UserRole)}>
+              {Object.values(UserRole).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-[10px] uppercase font-bold text-slate-400 mb-1">Initial PIN</label>
+            <input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              className={`${fieldClass} w-full md:w-32`}
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="••••"
+            />
+          </div>
+          <button type="submit" className="flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 text-white rounded-xl text-sm font-bold hover:bg-blue-700 shadow-sm shadow-blue-200">
+            <UserPlus size={16} /> Add User
+          </button>
+        </form>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-2xl text-sm font-bold text-red-600 flex items-center justify-between">
+            {error}
+            <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600"><X size={16} /></button>
+          </div>
+        )}
+
+        <div className="bg-white rounded-3xl border border-slate-200 shadow-sm divide-y divide-slate-100">
+          {users.map(user => (
+            <div key={user.name} className={`p-4 flex flex-col md:flex-row md:items-center gap-3 ${user.disabled ? 'opacity-50' : ''}`}>
+              <div className="flex-1">
+                <p className="font-bold text-slate-800">
+                  {user.name}
+                  {user.name === currentUser.name && <span className="ml-2 text-[10px] text-blue-600 uppercase">You</span>}
+                </p>
+                <p className="text-[11px] font-medium text-slate-400">
+                  {user.disabled
+                    ? 'Disabled'
+                    : user.setupCodeHash && (user.setupCodeExpiresAt ?? 0) > Date.now()
+                      ? 'Setup code issued'
+                      : needsPinSetup(user) ? 'No PIN yet: set one or issue a setup code' : 'PIN set'}
+                </p>
+              </div>
+              {pinFor === user.name ? (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="new-password"
+                    autoFocus
+                    className={`${fieldClass} w-32`}
+                    value={pinDraft}
+                    onChange={(e) => setPinDraft(e.target.value.replace(/\D/g, ''))}
+                    placeholder="New PIN"
+                  />
+                  <button onClick={() => savePin(user)} className="p-2 text-green-600 hover:bg-green-50 rounded-xl"><Save size={16} /></button>
+                  <button onClick={() => setPinFor(null)} className="p-2 text-slate-400 hover:bg-slate-100 rounded-xl"><X size={16} /></button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <select
+                    className={fieldClass}
+                    value={user.role}
+                    onChange={(e) => changeRole(user, e.target.value as UserRole)}
+                  >
+                    {Object.values(UserRole).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                  </select>
+                  <button
+                    onClick={() => { setPinFor(user.name); setPinDraft(''); }}
+                    className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"
+                    title="Set PIN"
+                  >
+                    <KeyRound size={16} />
+                  </button>
+                  {needsPinSetup(user) && (
+                    <button
+                      onClick={() => issueSetupCode(user)}
+                      className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl"
+                      title="Issue Setup Code"
+                    >
+                      <TicketCheck size={16} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => toggleDisabled(user)}
+                    className="px-3 py-2 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-xl"
+                  >
+                    {user.disabled ? 'Enable' : 'Disable'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="h-20"></div>
+      </main>
+    </>
+  );
+};
+
+export default UserManager;
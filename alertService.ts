@@ -0,0 +1,161 @@
+
+import {
+  AlertRule, AlertRuleKind, ComparisonOperator, Item, LogStatus, SectionDefinition, StockAlert, StockLog, TableColumn
+} from './types';
+import { parseNumber } from './columnUtils';
+import { computeSection, formatNumber } from './formulaUtils';
+import { findItemById, getItemLabel, matchItem } from './itemService';
+import { getLedgerColumns, resolveItem, toItemKey } from './ledgerService';
+import { getLogSections, getSectionData, getSectionName } from './sectionService';
+import { FILTER_OPERATOR_LABELS } from './searchService';
+
+export const ALERT_RULES_KEY = 'alertRules';
+
+export const ALERT_RULE_KIND_LABELS: Record<AlertRuleKind, string> = {
+  threshold: 'Value above or below a limit',
+  compare: 'Section total against another section',
+  required: 'Column left empty'
+};
+
+export const COMPARISON_OPERATORS: ComparisonOperator[] = ['gt', 'gte', 'lt', 'lte'];
+
+export const createAlertRule = (kind: AlertRuleKind, sections: SectionDefinition[]): AlertRule => ({
+  id: Date.now().toString(),
+  name: ALERT_RULE_KIND_LABELS[kind],
+  kind,
+  section: kind === 'compare' ? sections[sections.length - 1]?.id : undefined,
+  otherSection: kind === 'compare' ? sections[0]?.id : undefined,
+  column: kind === 'compare' ? undefined : '',
+  operator: kind === 'required' ? undefined : 'gt',
+  value: kind === 'threshold' ? 0 : undefined,
+  blocking: kind === 'required',
+  enabled: true
+});
+
+const compareNumbers = (a: number, operator: ComparisonOperator, b: number) => {
+  switch (operator) {
+    case 'gt': return a > b;
+    case 'gte': return a >= b;
+    case 'lt': return a < b;
+    case 'lte': return a <= b;
+  }
+};
+
+const sameHeader = (col: TableColumn, header: string) =>
+  col.header.trim().toLowerCase() === header.trim().toLowerCase();
+
+// A rule left half filled in while it is being set up raises nothing
+const isComplete = (rule: AlertRule) => {
+  switch (rule.kind) {
+    case 'threshold': return !!rule.column?.trim() && !!rule.operator && Number.isFinite(rule.value);
+    case 'compare': return !!rule.section && !!rule.otherSection && rule.section !== rule.otherSection && !!rule.operator;
+    case 'required': return !!rule.column?.trim();
+  }
+};
+
+/** One line saying what the rule watches for, e.g. "Weight > 500 in Dori Detail". */
+export const describeRule = (rule: AlertRule, sections: SectionDefinition[], items: Item[]) => {
+  const where = rule.section ? ` in ${getSectionName(sections, rule.section)}` : '';
+  const operator = rule.operator ? FILTER_OPERATOR_LABELS[rule.operator] : '';
+  switch (rule.kind) {
+    case 'threshold': {
+      const item = rule.item ? ` for ${findItemById(items, rule.item)?.name ?? rule.item}` : '';
+      return `${rule.column || '…'} ${operator} ${rule.value ?? '…'}${where}${item}`;
+    }
+    case 'compare':
+      return `${rule.section ? getSectionName(sections, rule.section) : '…'} total ${operator} ${rule.otherSection ? getSectionName(sections, rule.otherSection) : '…'} total, for the same item`;
+    case 'required':
+      return `${rule.column || '…'} empty${where}`;
+  }
+};
+
+// Same keys as the ledger: the catalogue id, or the normalised name of an item not in the catalogue
+const matchesItem = (items: Item[], wanted: string, col: TableColumn | undefined, value: string | undefined) => {
+  if (!col || !value?.trim()) return false;
+  const wantedKey = (findItemById(items, wanted) ?? matchItem(items, wanted))?.id ?? toItemKey(wanted);
+  return resolveItem(items, col, value.trim()).key === wantedKey;
+};
+
+const checkRule = (rule: AlertRule, log: StockLog, sections: SectionDefinition[], items: Item[]): StockAlert[] => {
+  const alerts: StockAlert[] = [];
+  const base = { ruleId: rule.id, ruleName: rule.name, logId: log.id, blocking: rule.blocking };
+
+  if (rule.kind === 'compare') {
+    const totals = (sectionId: string) => {
+      const data = log.sections[sectionId];
+      const byItem = new Map<string, { label: string; total: number; rowId: string }>();
+      if (!data) return { byItem };
+      const { item: itemCol, quantity } = getLedgerColumns(data);
+      if (!itemCol || !quantity) return { byItem, quantity };
+      for (const row of data.rows) {
+        const value = row.values[itemCol.id]?.trim();
+        const amount = parseNumber(row.values[quantity.id] ?? '', quantity.unit);
+        if (!value || amount === null) continue;
+        const { key, label } = resolveItem(items, itemCol, value);
+        const entry = byItem.get(key) ?? { label, total: 0, rowId: row.id };
+        byItem.set(key, { ...entry, total: entry.total + amount });
+      }
+      return { byItem, quantity };
+    };
+    const current = totals(rule.section!);
+    const other = totals(rule.otherSection!).byItem;
+    const name = getSectionName(sections, rule.section!);
+    const otherName = getSectionName(sections, rule.otherSection!);
+    const unit = current.quantity?.unit ? ` ${current.quantity.unit}` : '';
+    current.byItem.forEach(({ label, total, rowId }, key) => {
+      const otherTotal = other.get(key)?.total ?? 0;
+      if (!compareNumbers(total, rule.operator!, otherTotal)) return;
+      alerts.push({
+        ...base, id: `${rule.id}:${log.id}:${rule.section}:${key}`, section: rule.section, rowId, columnId: current.quantity?.id,
+        message: `${label}: ${name} total ${formatNumber(total)}${unit} ${FILTER_OPERATOR_LABELS[rule.operator!]} ${otherName} total ${formatNumber(otherTotal)}${unit}`
+      });
+    });
+    return alerts;
+  }
+
+  for (const section of getLogSections(log, sections).filter(s => !rule.section || s.id === rule.section)) {
+    const data = computeSection(getSectionData(log, section.id));
+    const col = data.columns.find(c => sameHeader(c, rule.column!));
+    if (!col) continue;
+    const itemCol = getLedgerColumns(data).item;
+    data.rows.forEach((row, index) => {
+      const where = `${section.name} row ${index + 1}`;
+      const id = `${rule.id}:${log.id}:${section.id}:${row.id}`;
+      if (rule.kind === 'required') {
+        // Rows with nothing in them yet are left alone
+        const isEmptyRow = data.columns.every(c => !row.values[c.id]?.trim());
+        if (isEmptyRow || row.values[col.id]?.trim()) return;
+        alerts.push({ ...base, id, section: section.id, rowId: row.id, columnId: col.id, message: `${where}: ${col.header} is empty` });
+        return;
+      }
+      if (rule.item && !matchesItem(items, rule.item, itemCol, row.values[itemCol?.id ?? ''])) return;
+      const value = parseNumber(row.values[col.id] ?? '', col.unit);
+      if (value === null || !compareNumbers(value, rule.operator!, rule.value!)) return;
+      const item = itemCol && row.values[itemCol.id] ? ` (${getItemLabel(items, row.values[itemCol.id])})` : '';
+      alerts.push({
+        ...base, id, section: section.id, rowId: row.id, columnId: col.id,
+        message: `${where}${item}: ${col.header} is ${formatNumber(value)}${col.unit ? ` ${col.unit}` : ''}, ${FILTER_OPERATOR_LABELS[rule.operator!]} ${formatNumber(rule.value!)}`
+      });
+    });
+  }
+  return alerts;
+};
+
+/** Every alert the enabled rules raise on one log. */
+export const evaluateRules = (rules: AlertRule[], log: StockLog, sections: SectionDefinition[], items: Item[]): StockAlert[] =>
+  rules.filter(r => r.enabled && isComplete(r)).flatMap(r => checkRule(r, log, sections, items));
+
+// Edits replace the log object, so a log that is still the same object keeps its alerts
+const alertCache = new WeakMap<StockLog, { rules: AlertRule[]; sections: SectionDefinition[]; items: Item[]; alerts: StockAlert[] }>();
+
+/** Alerts across all logs. Approved logs have been checked, so they raise none. */
+export const getAlerts = (rules: AlertRule[], logs: StockLog[], sections: SectionDefinition[], items: Item[]): StockAlert[] =>
+  logs.filter(l => l.status !== LogStatus.APPROVED).flatMap(log => {
+    const cached = alertCache.get(log);
+    if (cached && cached.rules === rules && cached.sections === sections && cached.items === items) return cached.alerts;
+    const alerts = evaluateRules(rules, log, sections, items);
+    alertCache.set(log, { rules, sections, items, alerts });
+    return alerts;
+  });
+
+export const getBlockingAlerts = (alerts: StockAlert[], logId: string) => alerts.filter(a => a.logId === logId && a.blocking);
@@ -0,0 +1,273 @@
+
+import {
+  AnalysisFinding, ColumnType, FindingSeverity, Item, LogAnalysis, SectionDefinition, StockLog, TableColumn
+} from './types';
+import { formatColumnHeader, getColumnType, parseNumber, validateCellValue } from './columnUtils';
+import { computeSection, formatNumber, isNumericColumn } from './formulaUtils';
+import { buildLedger } from './ledgerService';
+import { getLogSections, getSectionData } from './sectionService';
+import { compareLogs, formatLogDate, getLogDay } from './dateService';
+import { createGeminiAnalyzer } from './geminiService';
+
+/** Column totals of an earlier log, by section id and then column header. */
+export interface EarlierLog {
+  label: string;
+  totals: Record<string, Record<string, number>>;
+}
+
+export interface AnalysisContext {
+  items: Item[];
+  /** Most recent first */
+  earlierLogs: EarlierLog[];
+  /** Stock ledger problems on this log's day, which need every earlier log to work out */
+  ledgerWarnings: string[];
+}
+
+/** A finding as an analyser reports it; the service checks its references before showing it. */
+export type FindingDraft = Omit<AnalysisFinding, 'id'>;
+
+export type AnalysisDraft = Omit<LogAnalysis, 'findings' | 'source' | 'comparedLogs'> & { findings: FindingDraft[] };
+
+export interface StockAnalyzer {
+  name: string;
+  analyze: (log: StockLog, sections: SectionDefinition[], context: AnalysisContext) => Promise<AnalysisDraft>;
+}
+
+export const COMPARE_OPTIONS = [0, 7, 30];
+
+// Robust outlier test (modified z-score over the median absolute deviation)
+const OUTLIER_SCORE = 3.5;
+const MIN_VALUES_FOR_OUTLIERS = 5;
+// A column total this far from the earlier average is worth a look
+const TOTAL_CHANGE = 0.5;
+const MAX_FINDINGS_PER_RULE = 20;
+
+const SEVERITY_ORDER: FindingSeverity[] = ['critical', 'warning', 'info'];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const headerKey = (col: TableColumn) => col.header.trim().toLowerCase();
+
+/** Sum of every number column in each section, keyed by section id and lower-case header. */
+export const getColumnTotals = (log: StockLog) => {
+  const totals: Record<string, Record<string, number>> = {};
+  for (const [section, raw] of Object.entries(log.sections)) {
+    const data = computeSection(raw);
+    for (const col of data.columns.filter(isNumericColumn)) {
+      const values = data.rows.map(r => parseNumber(r.values[col.id] ?? '', col.unit)).filter((v): v is number => v !== null);
+      if (!values.length) continue;
+      totals[section] = { ...totals[section], [headerKey(col)]: values.reduce((a, b) => a + b, 0) };
+    }
+  }
+  return totals;
+};
+
+/** Everything an analyser needs besides the log itself. */
+export const buildAnalysisContext = (
+  log: StockLog,
+  logs: StockLog[],
+  sections: SectionDefinition[],
+  items: Item[],
+  compareDays: number
+): AnalysisContext => {
+  const day = getLogDay(log);
+  const since = day ? new Date(day.getFullYear(), day.getMonth(), day.getDate() - compareDays) : null;
+  const earlier = logs
+    .filter(l => l.id !== log.id && compareLogs(l, log) < 0)
+    .sort((a, b) => compareLogs(b, a));
+  const upToLog = [...earlier, log];
+  return {
+    items,
+    earlierLogs: compareDays > 0 && since
+      ? earlier
+        .filter(l => (getLogDay(l) ?? since) >= since)
+        .map(l => ({ label: formatLogDate(l), totals: getColumnTotals(l) }))
+      : [],
+    ledgerWarnings: buildLedger(upToLog, sections, items).warnings.filter(w => w.logId === log.id).map(w => w.message)
+  };
+};
+
+const checkCells = (log: StockLog, sections: SectionDefinition[], items: Item[]) => {
+  const invalid: FindingDraft[] = [];
+  const negative: FindingDraft[] = [];
+  const outliers: FindingDraft[] = [];
+  const duplicates: FindingDraft[] = [];
+
+  for (const section of getLogSections(log, sections)) {
+    const data = computeSection(getSectionData(log, section.id));
+    data.rows.forEach((row, index) => {
+      for (const col of data.columns) {
+        const error = validateCellValue(col, row.values[col.id], items);
+        if (error) {
+          invalid.push({
+            severity: 'warning', section: section.id, rowId: row.id, columnId: col.id,
+            title: `${col.header} in row ${index + 1} is not valid`,
+            detail: `${section.name}: ${error}${row.values[col.id] ? ` ("${row.values[col.id]}")` : ''}.`
+          });
+        }
+        const value = getColumnType(col) === ColumnType.NUMBER ? parseNumber(row.values[col.id] ?? '', col.unit) : null;
+        if (value !== null && value < 0) {
+          negative.push({
+            severity: 'warning', section: section.id, rowId: row.id, columnId: col.id,
+            title: `Negative ${col.header} in row ${index + 1}`,
+            detail: `${section.name}: ${formatNumber(value)}${col.unit ? ` ${col.unit}` : ''} is below zero.`
+          });
+        }
+      }
+    });
+
+    for (const col of data.columns.filter(isNumericColumn)) {
+      const cells = data.rows.flatMap((row, index) => {
+        const value = parseNumber(row.values[col.id] ?? '', col.unit);
+        return value === null ? [] : [{ row, index, value }];
+      });
+      if (cells.length < MIN_VALUES_FOR_OUTLIERS) continue;
+      const middle = median(cells.map(c => c.value));
+      const deviation = median(cells.map(c => Math.abs(c.value - middle)));
+      if (!deviation) continue;
+      for (const cell of cells) {
+        const score = (0.6745 * (cell.value - middle)) / deviation;
+        if (Math.abs(score) <= OUTLIER_SCORE) continue;
+        const unit = col.unit ? ` ${col.unit}` : '';
+        outliers.push({
+          severity: 'warning', section: section.id, rowId: cell.row.id, columnId: col.id,
+          title: `Unusual ${col.header} in row ${cell.index + 1}`,
+          detail: `${section.name}: ${formatNumber(cell.value)}${unit} is far ${score > 0 ? 'above' : 'below'} the usual ${formatNumber(middle)}${unit} in this column.`
+        });
+      }
+    }
+
+    const seen = new Map<string, number>();
+    const inputs = data.columns.filter(c => getColumnType(c) !== ColumnType.FORMULA);
+    data.rows.forEach((row, index) => {
+      const key = JSON.stringify(inputs.map(c => (row.values[c.id] ?? '').trim().toLowerCase()));
+      if (inputs.every(c => !row.values[c.id]?.trim())) return;
+      const first = seen.get(key);
+      if (first === undefined) {
+        seen.set(key, index);
+        return;
+      }
+      duplicates.push({
+        severity: 'info', section: section.id, rowId: row.id,
+        title: `Row ${index + 1} repeats row ${first + 1}`,
+        detail: `${section.name}: every value is the same. It may have been entered twice.`
+      });
+    });
+  }
+  return { invalid, negative, outliers, duplicates };
+};
+
+const compareTotals = (log: StockLog, sections: SectionDefinition[], earlierLogs: EarlierLog[]) => {
+  const findings: FindingDraft[] = [];
+  const current = getColumnTotals(log);
+  for (const section of getLogSections(log, sections)) {
+    const data = getSectionData(log, section.id);
+    for (const col of data.columns.filter(isNumericColumn)) {
+      const total = current[section.id]?.[headerKey(col)];
+      const earlier = earlierLogs
+        .map(l => l.totals[section.id]?.[headerKey(col)])
+        .filter((v): v is number => v !== undefined);
+      if (total === undefined || !earlier.length) continue;
+      const average = earlier.reduce((a, b) => a + b, 0) / earlier.length;
+      if (average <= 0 || Math.abs(total - average) / average <= TOTAL_CHANGE) continue;
+      const change = Math.round((Math.abs(total - average) / average) * 100);
+      const unit = col.unit ? ` ${col.unit}` : '';
+      findings.push({
+        severity: 'info', section: section.id, columnId: col.id,
+        title: `${section.name} ${col.header} is ${change}% ${total > average ? 'higher' : 'lower'} than usual`,
+        detail: `Total ${formatNumber(total)}${unit} against an average of ${formatNumber(average)}${unit} over ${earlier.length} earlier ${earlier.length === 1 ? 'log' : 'logs'}.`
+      });
+    }
+  }
+  return findings;
+};
+
+/** Rule-based checks that run on the device; the same log always gives the same findings. */
+export const localAnalyzer: StockAnalyzer = {
+  name: 'Offline checks',
+  analyze: async (log, sections, context) => {
+    const { invalid, negative, outliers, duplicates } = checkCells(log, sections, context.items);
+    const trends = compareTotals(log, sections, context.earlierLogs);
+    const ledger: FindingDraft[] = context.ledgerWarnings.map(message => ({
+      severity: 'critical', title: 'Stock ledger problem', detail: message
+    }));
+    const findings = [ledger, invalid, negative, outliers, duplicates, trends].flatMap(list => list.slice(0, MAX_FINDINGS_PER_RULE));
+
+    const actions: string[] = [];
+    if (ledger.length) actions.push('Check the ledger warnings against the physical stock before submitting the log.');
+    if (invalid.length) actions.push(`Correct the ${invalid.length} invalid ${invalid.length === 1 ? 'cell' : 'cells'}.`);
+    if (negative.length || outliers.length) actions.push('Re-weigh or recount the unusual quantities, or confirm they are right.');
+    if (duplicates.length) actions.push('Delete rows entered twice, or note why the same entry appears again.');
+    if (trends.length) actions.push('Compare the totals that changed most with the delivery challans and production plan.');
+
+    const rows = Object.values(log.sections).reduce((sum, data) => sum + data.rows.length, 0);
+    const filled = getLogSections(log, sections).filter(s => getSectionData(log, s.id).rows.length).length;
+    const problems = findings.filter(f => f.severity !== 'info').length;
+    const summary = [
+      `${rows} ${rows === 1 ? 'row' : 'rows'} in ${filled} ${filled === 1 ? 'section' : 'sections'}.`,
+      problems ? `${problems} ${problems === 1 ? 'problem needs' : 'problems need'} attention.` : 'No problems found.',
+      context.earlierLogs.length
+        ? trends.length ? `${trends.length} ${trends.length === 1 ? 'total differs' : 'totals differ'} from earlier days.` : 'Totals are in line with earlier days.'
+        : ''
+    ].filter(Boolean).join(' ');
+    return { summary, findings, actions };
+  }
+};
+
+const getGeminiKey = () => {
+  const key = process.env.API_KEY;
+  return key && key !== 'PLACEHOLDER_API_KEY' ? key : null;
+};
+
+/** Gemini when an API key is configured, then the offline checks. */
+export const getAnalyzers = (): StockAnalyzer[] => {
+  const key = getGeminiKey();
+  return key ? [createGeminiAnalyzer(key), localAnalyzer] : [localAnalyzer];
+};
+
+// Drops references to sections, rows or columns the log does not have
+const resolveFinding = (log: StockLog, draft: FindingDraft, index: number): AnalysisFinding => {
+  const finding: AnalysisFinding = {
+    id: `finding-${index}`,
+    severity: SEVERITY_ORDER.includes(draft.severity) ? draft.severity : 'info',
+    title: draft.title,
+    detail: draft.detail
+  };
+  const data = draft.section ? log.sections[draft.section] : undefined;
+  if (!data) return finding;
+  finding.section = draft.section;
+  if (draft.rowId && data.rows.some(r => r.id === draft.rowId)) finding.rowId = draft.rowId;
+  const column = data.columns.find(c => c.id === draft.columnId || (draft.columnId && formatColumnHeader(c) === draft.columnId));
+  if (column) finding.columnId = column.id;
+  return finding;
+};
+
+/**
+ * Runs `analyzer` on the log. When it fails (e.g. offline) the offline checks stand in, with a
+ * notice saying so.
+ */
+export const analyzeStockLog = async (
+  log: StockLog,
+  sections: SectionDefinition[],
+  context: AnalysisContext,
+  analyzer: StockAnalyzer = getAnalyzers()[0]
+): Promise<LogAnalysis> => {
+  let draft: AnalysisDraft;
+  let source = analyzer.name;
+  try {
+    draft = await analyzer.analyze(log, sections, context);
+  } catch (err) {
+    if (analyzer === localAnalyzer) throw err;
+    draft = await localAnalyzer.analyze(log, sections, context);
+    draft.notice = `${analyzer.name} could not be reached (${(err as Error).message}). These are the offline checks instead.`;
+    source = localAnalyzer.name;
+  }
+  const findings = draft.findings
+    .map((f, i) => resolveFinding(log, f, i))
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  return { ...draft, findings, source, comparedLogs: context.earlierLogs.length };
+};
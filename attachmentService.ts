@@ -0,0 +1,145 @@
+
+import { Attachment, StockLog } from './types';
+
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+
+// Phone photos are several megabytes; this keeps a challan legible at a fraction of the size
+const MAX_IMAGE_SIZE = 1600;
+const IMAGE_QUALITY = 0.8;
+const THUMBNAIL_SIZE = 240;
+// Documents are stored as they are, so large scans are refused rather than bloating every sync
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+/** The row an attachment belongs to; without one it belongs to the whole log. */
+export interface AttachmentTarget {
+  section: string;
+  rowId: string;
+}
+
+const randomId = () => Math.random().toString(36).substring(2, 10);
+
+export const isImageAttachment = (attachment: Attachment) => attachment.type.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Base64 stores three bytes in every four characters
+const getDataUrlSize = (dataUrl: string) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+};
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error ?? new Error('The file could not be read'));
+  reader.readAsDataURL(file);
+});
+
+// Drawn on white so transparent PNGs do not turn black as JPEG
+const drawScaled = (image: ImageBitmap, maxSize: number, quality: number) => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('This browser cannot process images');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { data: canvas.toDataURL('image/jpeg', quality), width: canvas.width, height: canvas.height };
+};
+
+const openImage = (file: File) => createImageBitmap(file).catch(() => {
+  throw new Error(`${file.name} is not an image this browser can open`);
+});
+
+/** A JPEG data URL of the image, at most `maxSize` pixels on its longer side. */
+export const compressImage = async (file: File, maxSize = MAX_IMAGE_SIZE) => {
+  const bitmap = await openImage(file);
+  try {
+    return drawScaled(bitmap, maxSize, IMAGE_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** Turns a picked or captured file into an attachment, compressing images on the device. */
+export const createAttachment = async (file: File, addedBy: string, target?: AttachmentTarget): Promise<Attachment> => {
+  const base = { id: randomId(), addedBy, addedAt: Date.now(), section: target?.section, rowId: target?.rowId };
+
+  if (file.type.startsWith('image/')) {
+    const bitmap = await openImage(file);
+    try {
+      const image = drawScaled(bitmap, MAX_IMAGE_SIZE, IMAGE_QUALITY);
+      return {
+        ...base,
+        name: file.name.replace(/\.[^.]+$/, '') + '.jpg',
+        type: 'image/jpeg',
+        size: getDataUrlSize(image.data),
+        data: image.data,
+        thumbnail: drawScaled(bitmap, THUMBNAIL_SIZE, 0.7).data,
+        width: image.width,
+        height: image.height
+      };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  if (file.type === 'application/pdf') {
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      throw new Error(`${file.name} is ${formatFileSize(file.size)}; documents can be at most ${formatFileSize(MAX_DOCUMENT_BYTES)}`);
+    }
+    return { ...base, name: file.name, type: file.type, size: file.size, data: await readAsDataUrl(file) };
+  }
+
+  throw new Error(`${file.name} is not an image or a PDF`);
+};
+
+/** All of a log's attachments, or only those of one row. */
+export const getAttachments = (log: StockLog, target?: AttachmentTarget) =>
+  (log.attachments ?? []).filter(a => target ? a.section === target.section && a.rowId === target.rowId : true);
+
+/** How many attachments each row of a section has, by row id. */
+export const countRowAttachments = (log: StockLog, section: string) =>
+  (log.attachments ?? []).reduce<Record<string, number>>((counts, a) => {
+    if (a.section === section && a.rowId) counts[a.rowId] = (counts[a.rowId] ?? 0) + 1;
+    return counts;
+  }, {});
+
+export const addAttachments = (log: StockLog, added: Attachment[]): StockLog =>
+  ({ ...log, attachments: [...(log.attachments ?? []), ...added] });
+
+export const removeAttachment = (log: StockLog, id: string): StockLog =>
+  ({ ...log, attachments: (log.attachments ?? []).filter(a => a.id !== id) });
+
+export const dataUrlToBytes = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, type: string) => {
+  let binary = '';
+  // In chunks, since spreading a whole photo into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:${type};base64,${btoa(binary)}`;
+};
+
+const toBlob = (attachment: Attachment) => new Blob([dataUrlToBytes(attachment.data)], { type: attachment.type });
+
+/**
+ * Opens a stored file in a new tab; browsers refuse to navigate to data: URLs directly.
+ * Done synchronously so the tab is not taken for a popup.
+ */
+export const openAttachment = (attachment: Attachment) => {
+  const url = URL.createObjectURL(toBlob(attachment));
+  window.open(url, '_blank');
+  // The new tab has loaded the file by then; keeping the URL longer only holds memory
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
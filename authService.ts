@@ -0,0 +1,90 @@
+
+import { User, UserRole } from './types';
+
+// Runs on WebCrypto so the browser and the sync server verify PINs the same way
+
+const PBKDF2_ITERATIONS = 100000;
+export const MIN_PIN_LENGTH = 4;
+const SETUP_CODE_LENGTH = 8;
+const SETUP_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.OPERATOR]: 'Operator',
+  [UserRole.SUPERVISOR]: 'Supervisor',
+  [UserRole.ADMIN]: 'Admin'
+};
+
+export class AuthError extends Error {}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(h => parseInt(h, 16)));
+
+export const hashPin = async (pin: string, saltHex: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+};
+
+export const validatePin = (pin: string): string | null =>
+  /^\d+$/.test(pin) && pin.length >= MIN_PIN_LENGTH ? null : `PIN must be at least ${MIN_PIN_LENGTH} digits`;
+
+/** Returns a copy of the user with a freshly salted hash of `pin`. The PIN itself is never stored. */
+export const withPin = async (user: User, pin: string): Promise<User> => {
+  const error = validatePin(pin);
+  if (error) throw new AuthError(error);
+  const pinSalt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return {
+    ...user, pinSalt, pinHash: await hashPin(pin, pinSalt), updatedAt: Date.now(),
+    setupCodeHash: undefined, setupCodeSalt: undefined, setupCodeExpiresAt: undefined
+  };
+};
+
+/**
+ * Gives the user a one-time code for choosing their own PIN at the sign-in screen.
+ * Only its hash is kept; the code is returned so the admin can pass it on.
+ */
+export const withSetupCode = async (user: User, now = Date.now()): Promise<{ user: User; code: string }> => {
+  const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 10 ** SETUP_CODE_LENGTH).padStart(SETUP_CODE_LENGTH, '0');
+  const setupCodeSalt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return {
+    code,
+    user: {
+      ...user, setupCodeSalt, setupCodeHash: await hashPin(code, setupCodeSalt),
+      setupCodeExpiresAt: now + SETUP_CODE_TTL_MS, updatedAt: now
+    }
+  };
+};
+
+// Compare without bailing out early so timing does not leak how much of the hash matched
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const verifyPin = async (user: User, pin: string): Promise<boolean> => {
+  if (!user.pinHash || !user.pinSalt || user.disabled) return false;
+  return constantTimeEqual(await hashPin(pin, user.pinSalt), user.pinHash);
+};
+
+export const verifySetupCode = async (user: User, code: string, now = Date.now()): Promise<boolean> => {
+  if (!user.setupCodeHash || !user.setupCodeSalt || user.disabled || now > (user.setupCodeExpiresAt ?? 0)) return false;
+  return constantTimeEqual(await hashPin(code, user.setupCodeSalt), user.setupCodeHash);
+};
+
+export const needsPinSetup = (user: User) => !user.pinHash;
+
+/**
+ * Someone without a PIN needs an admin to set one or to give them a setup code. The one
+ * exception is the admin on a device where nobody has a PIN yet, as happens right after
+ * upgrading from the name-only picker: there is no one to ask, so it is claimed like a first run.
+ */
+export const canSetOwnPin = (user: User, users: User[]) =>
+  user.role === UserRole.ADMIN && !user.disabled && !users.some(u => u.pinHash);
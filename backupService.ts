@@ -0,0 +1,272 @@
+
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { Item, SectionTemplate, StockLog } from './types';
+import { StorageSnapshot } from './storageService';
+import { mergeHistories } from './historyService';
+import { upgradeLegacyLog } from './sectionService';
+import { today, upgradeLegacyDate } from './dateService';
+import { upgradeLegacyStatus } from './reviewService';
+import { SYNC_CURSOR_KEY } from './syncService';
+import { isTemplate } from './templateService';
+import { bytesToDataUrl, dataUrlToBytes } from './attachmentService';
+import { downloadBlob, hasLogFields, hasStringFields, isLog, isObject, isUser } from './fileUtils';
+
+export const BACKUP_SETTINGS_KEY = 'backupReminder';
+
+const FILE_FORMAT = 'stocklog-backup';
+const FILE_VERSION = 1;
+const REMINDER_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Inside a ZIP backup: the archive itself, and one file per attachment
+const ARCHIVE_FILE = 'backup.json';
+const ATTACHMENT_DIR = 'attachments/';
+// Where this device's sync has got to, and the sign-in remembered by versions before PINs
+const DEVICE_SETTINGS = [SYNC_CURSOR_KEY, 'currentUser'];
+
+export class BackupError extends Error {}
+
+export interface BackupSettings {
+  /** Remind admins once a day to download a backup */
+  reminder: boolean;
+  lastBackupAt?: number;
+}
+
+export interface BackupArchive {
+  format: typeof FILE_FORMAT;
+  version: number;
+  createdAt: number;
+  createdBy: string;
+  data: StorageSnapshot;
+}
+
+/** ZIP keeps photos and documents as files, so it is about a quarter smaller when a log has many. */
+export type BackupFormat = 'zip' | 'json';
+
+/** Merge keeps what is on the device and adds what it is missing; replace wipes the device first. */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  logsAdded: number;
+  logsUpdated: number;
+  /** Logs whose id was taken by a different log on this device, restored under a new id */
+  logsRenumbered: number;
+  logsKept: number;
+  usersAdded: number;
+  usersUpdated: number;
+}
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = { reminder: false };
+
+const withoutDeviceSettings = (settings: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(settings).filter(([key]) => !DEVICE_SETTINGS.includes(key)));
+
+export const createBackup = (data: StorageSnapshot, user: string, at = Date.now()): BackupArchive => ({
+  format: FILE_FORMAT,
+  version: FILE_VERSION,
+  createdAt: at,
+  createdBy: user,
+  data: { ...data, settings: withoutDeviceSettings(data.settings) }
+});
+
+// Attachments are already compressed, so they are stored as they are; as files they
+// also lose the third that base64 adds to them
+const toZip = (archive: BackupArchive) => {
+  const files: Zippable = {};
+  const logs = archive.data.logs.map(log => log.attachments?.length ? {
+    ...log,
+    attachments: log.attachments.map(attachment => {
+      const path = `${ATTACHMENT_DIR}${log.id}/${attachment.id}`;
+      files[path] = [dataUrlToBytes(attachment.data), { level: 0 }];
+      return { ...attachment, data: path };
+    })
+  } : log);
+  files[ARCHIVE_FILE] = strToU8(JSON.stringify({ ...archive, data: { ...archive.data, logs } }));
+  return zipSync(files);
+};
+
+export const downloadBackup = (archive: BackupArchive, format: BackupFormat) => {
+  const name = `StockLog_backup_${today()}`;
+  if (format === 'zip') {
+    downloadBlob(new Blob([toZip(archive)], { type: 'application/zip' }), `${name}.zip`);
+  } else {
+    downloadBlob(new Blob([JSON.stringify(archive)], { type: 'application/json' }), `${name}.json`);
+  }
+};
+
+export const isBackupDue = (settings: BackupSettings, now = Date.now()) =>
+  settings.reminder && now - (settings.lastBackupAt ?? 0) >= REMINDER_INTERVAL_MS;
+
+const isItem = (value: unknown): value is Item => hasStringFields(value, 'id', 'name');
+
+const isStoredTemplate = (value: unknown): value is SectionTemplate => hasStringFields(value, 'id') && isTemplate(value);
+
+// Names the first record that fails `check`, counting from 1 as people do
+const checkAll = <T>(records: T[], label: string, check: (record: T) => boolean) => {
+  const invalid = records.findIndex(r => !check(r));
+  if (invalid >= 0) throw new BackupError(`${label} ${invalid + 1} in the backup is incomplete`);
+};
+
+const getList = (data: Record<string, unknown>, key: string): unknown[] => {
+  const list = data[key];
+  if (!Array.isArray(list)) throw new BackupError(`The backup has no ${key} list`);
+  return list;
+};
+
+// Puts back the attachments a ZIP backup keeps as separate files
+const readAttachments = (log: StockLog, readFile: (path: string) => Uint8Array | undefined): StockLog => {
+  if (!log.attachments?.length) return log;
+  return {
+    ...log,
+    attachments: log.attachments.map(attachment => {
+      if (!attachment.data.startsWith(ATTACHMENT_DIR)) return attachment;
+      const bytes = readFile(attachment.data);
+      if (!bytes) throw new BackupError(`${attachment.name} is missing from the backup`);
+      return { ...attachment, data: bytesToDataUrl(bytes, attachment.type) };
+    })
+  };
+};
+
+/**
+ * Reads and checks the archive written by `downloadBackup`. Logs from older versions are
+ * upgraded. `readFile` gives the attachments stored next to it in a ZIP backup.
+ */
+export const parseBackupFile = (text: string, readFile?: (path: string) => Uint8Array | undefined): BackupArchive => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON');
+  }
+  if (!isObject(parsed) || parsed.format !== FILE_FORMAT || !isObject(parsed.data)) {
+    throw new BackupError('This is not a StockLog backup');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > FILE_VERSION) {
+    throw new BackupError('This backup was made by a newer version of StockLog');
+  }
+  const data = parsed.data;
+  const [rawLogs, users, templates, items] = ['logs', 'users', 'templates', 'items'].map(key => getList(data, key));
+  if (!isObject(data.settings)) throw new BackupError('The backup has no settings');
+
+  checkAll(rawLogs, 'Log', hasLogFields);
+  const logs = rawLogs.map(l => {
+    const log = upgradeLegacyStatus(upgradeLegacyDate(upgradeLegacyLog(l as StockLog)));
+    return readFile ? readAttachments(log, readFile) : log;
+  });
+  checkAll(logs, 'Log', isLog);
+  checkAll(users, 'User', isUser);
+  checkAll(items, 'Item', isItem);
+  checkAll(templates, 'Template', isStoredTemplate);
+
+  return {
+    format: FILE_FORMAT,
+    version: parsed.version,
+    createdAt: Number(parsed.createdAt) || 0,
+    createdBy: String(parsed.createdBy ?? ''),
+    data: {
+      logs,
+      users: users.filter(isUser),
+      templates: templates.filter(isStoredTemplate),
+      items: items.filter(isItem),
+      // Backups made before these were left out may still hold them
+      settings: withoutDeviceSettings(data.settings)
+    }
+  };
+};
+
+const parseBackupZip = (bytes: Uint8Array): BackupArchive => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch {
+    throw new BackupError('The ZIP file is damaged');
+  }
+  const archive = files[ARCHIVE_FILE];
+  if (!archive) throw new BackupError('This is not a StockLog backup');
+  return parseBackupFile(strFromU8(archive), path => files[path]);
+};
+
+const isZip = (bytes: Uint8Array) => bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+/** Reads a backup in either format, telling them apart by content rather than by name. */
+export const readBackupFile = async (file: Blob): Promise<BackupArchive> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return isZip(bytes) ? parseBackupZip(bytes) : parseBackupFile(strFromU8(bytes));
+};
+
+// Log ids are creation timestamps, so two devices can give different logs the same id
+const isSameLog = (a: StockLog, b: StockLog) =>
+  a.author === b.author && (a.createdAt && b.createdAt ? a.createdAt === b.createdAt : a.date === b.date);
+
+// Restored logs can be at older revisions than the server has already sent this device,
+// so the next sync pulls everything again rather than only what is new since the last one
+const withSyncReset = (settings: Record<string, unknown>) => ({ ...settings, [SYNC_CURSOR_KEY]: 0 });
+
+/**
+ * Works out what a restore writes. Replacing writes the backup as it is. Merging adds the
+ * logs, users, items, templates and settings the device does not have; where both have
+ * the same log or user the newer copy wins, and a log keeps its full change history from
+ * both. A different log that shares an id with one on the device is restored under a new id.
+ */
+export const planRestore = (
+  local: StorageSnapshot, backup: StorageSnapshot, mode: RestoreMode
+): { data: StorageSnapshot; summary: RestoreSummary } => {
+  const summary: RestoreSummary = { logsAdded: 0, logsUpdated: 0, logsRenumbered: 0, logsKept: 0, usersAdded: 0, usersUpdated: 0 };
+  if (mode === 'replace') {
+    return {
+      data: { ...backup, settings: withSyncReset(backup.settings) },
+      summary: { ...summary, logsAdded: backup.logs.length, usersAdded: backup.users.length }
+    };
+  }
+
+  const localLogs = new Map(local.logs.map(l => [l.id, l]));
+  const usedIds = [...local.logs, ...backup.logs].map(l => Number(l.id)).filter(Number.isFinite);
+  let nextId = Math.max(Date.now(), ...usedIds) + 1;
+  const logs: StockLog[] = [];
+  for (const log of backup.logs) {
+    const current = localLogs.get(log.id);
+    if (!current) {
+      logs.push(log);
+      summary.logsAdded++;
+    } else if (!isSameLog(current, log)) {
+      // The server has never seen it under the new id, so it syncs as a new log
+      logs.push({ ...log, id: String(nextId++), revision: undefined });
+      summary.logsRenumbered++;
+    } else if ((log.updatedAt ?? 0) > (current.updatedAt ?? 0)) {
+      logs.push({ ...log, revision: current.revision, history: mergeHistories(current.history, log.history) });
+      summary.logsUpdated++;
+    } else {
+      summary.logsKept++;
+    }
+  }
+
+  const localUsers = new Map(local.users.map(u => [u.name, u]));
+  const users = backup.users.filter(u => {
+    const current = localUsers.get(u.name);
+    if (!current) summary.usersAdded++;
+    else if ((u.updatedAt ?? 0) > (current.updatedAt ?? 0)) summary.usersUpdated++;
+    else return false;
+    return true;
+  });
+
+  return {
+    data: {
+      logs,
+      users,
+      templates: backup.templates.filter(t => !local.templates.some(l => l.id === t.id)),
+      items: backup.items.filter(i => !local.items.some(l => l.id === i.id)),
+      settings: withSyncReset(Object.fromEntries(Object.entries(backup.settings).filter(([key]) => !(key in local.settings))))
+    },
+    summary
+  };
+};
+
+export const describeRestore = ({ logsAdded, logsUpdated, logsRenumbered, logsKept, usersAdded, usersUpdated }: RestoreSummary) => {
+  const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+  return [
+    logsAdded && `${plural(logsAdded, 'log')} added`,
+    logsUpdated && `${plural(logsUpdated, 'log')} updated from newer copies`,
+    logsRenumbered && `${plural(logsRenumbered, 'log')} added under a new id`,
+    logsKept && `${plural(logsKept, 'log')} already up to date`,
+    usersAdded && `${plural(usersAdded, 'user')} added`,
+    usersUpdated && `${plural(usersUpdated, 'user')} updated`
+  ].filter(Boolean).join(', ') || 'Nothing to restore';
+};
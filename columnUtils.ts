@@ -0,0 +1,154 @@
+
+import { ColumnType, Item, TableColumn, TableRow } from './types';
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  [ColumnType.TEXT]: 'Text',
+  [ColumnType.NUMBER]: 'Number',
+  [ColumnType.DATE]: 'Date',
+  [ColumnType.CHOICE]: 'Choice',
+  [ColumnType.FORMULA]: 'Formula',
+  [ColumnType.ITEM]: 'Item'
+};
+
+export const COMMON_UNITS = ['kg', 'g', 'm', 'bundles', 'cones', 'bales', 'pcs'];
+
+// Spellings people actually type on the floor, mapped to the canonical unit
+const UNIT_ALIASES: Record<string, string> = {
+  kg: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  g: 'g', gm: 'g', gms: 'g', gram: 'g', grams: 'g',
+  m: 'm', mtr: 'm', mtrs: 'm', meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  bundle: 'bundles', bundles: 'bundles', bdl: 'bundles', bdls: 'bundles',
+  cone: 'cones', cones: 'cones',
+  bale: 'bales', bales: 'bales',
+  pc: 'pcs', pcs: 'pcs', piece: 'pcs', pieces: 'pcs'
+};
+
+const NUMBER_PATTERN = /^([-+]?\d*\.?\d+)\s*([a-z]+)?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export const getColumnType = (col: TableColumn): ColumnType => col.type ?? ColumnType.TEXT;
+
+export const normalizeUnit = (unit: string): string => {
+  const key = unit.trim().toLowerCase();
+  return UNIT_ALIASES[key] ?? key;
+};
+
+export const formatColumnHeader = (col: TableColumn): string => {
+  const type = getColumnType(col);
+  const hasUnit = (type === ColumnType.NUMBER || type === ColumnType.FORMULA) && col.unit;
+  return hasUnit ? `${col.header} (${col.unit})` : col.header;
+};
+
+/**
+ * Reads a number out of a cell such as "12", "1,200" or "12 KG".
+ * A trailing unit is accepted only when it matches the column's unit.
+ */
+export const parseNumber = (raw: string, unit?: string): number | null => {
+  const match = raw.trim().toLowerCase().replace(/,/g, '').match(NUMBER_PATTERN);
+  if (!match) return null;
+  if (match[2] && normalizeUnit(match[2]) !== normalizeUnit(unit ?? '')) return null;
+  const value = parseFloat(match[1]);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const parseIsoDate = (raw: string): Date | null => {
+  const match = raw.trim().match(ISO_DATE_PATTERN);
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  const date = new Date(y, m - 1, d);
+  return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d ? date : null;
+};
+
+const findChoice = (col: TableColumn, raw: string) =>
+  (col.options ?? []).find(o => o.toLowerCase() === raw.trim().toLowerCase());
+
+/** Converts what was typed into the canonical stored form, leaving unparseable input untouched. */
+export const normalizeCellValue = (col: TableColumn, raw: string): string => {
+  if (!raw.trim()) return '';
+  switch (getColumnType(col)) {
+    case ColumnType.NUMBER: {
+      const value = parseNumber(raw, col.unit);
+      return value === null ? raw : String(value);
+    }
+    case ColumnType.CHOICE:
+      return findChoice(col, raw) ?? raw;
+    default:
+      return raw;
+  }
+};
+
+/** Returns a short error message for an invalid cell, or null when the value is acceptable. */
+export const validateCellValue = (col: TableColumn, raw: string | undefined, items?: Item[]): string | null => {
+  const value = raw ?? '';
+  if (!value.trim()) return col.required ? 'Required' : null;
+  switch (getColumnType(col)) {
+    case ColumnType.NUMBER:
+      return parseNumber(value, col.unit) === null
+        ? `Enter a number${col.unit ? ` in ${col.unit}` : ''}`
+        : null;
+    case ColumnType.DATE:
+      return parseIsoDate(value) ? null : 'Enter a valid date';
+    case ColumnType.CHOICE:
+      return findChoice(col, value) ? null : 'Pick one of the listed options';
+    case ColumnType.ITEM:
+      return !items || items.some(i => i.id === value) ? null : 'Not in the item catalogue';
+    default:
+      return null;
+  }
+};
+
+// Edits replace only the rows they touch, so an untouched row keeps its count
+const invalidCellCounts = new WeakMap<TableRow, { columns: TableColumn[]; items?: Item[]; count: number }>();
+
+export const countInvalidCells = (row: TableRow, columns: TableColumn[], items?: Item[]) => {
+  const cached = invalidCellCounts.get(row);
+  if (cached && cached.columns === columns && cached.items === items) return cached.count;
+  const count = columns.filter(col => validateCellValue(col, row.values[col.id], items)).length;
+  invalidCellCounts.set(row, { columns, items, count });
+  return count;
+};
+
+/** Orders cells by their typed value. Empty and invalid cells always sort after valid ones. */
+export const compareCellValues = (
+  col: TableColumn,
+  a: string | undefined,
+  b: string | undefined,
+  direction: 'asc' | 'desc' = 'asc'
+): number => {
+  const valA = a ?? '';
+  const valB = b ?? '';
+  let keyA: number | string | null;
+  let keyB: number | string | null;
+
+  switch (getColumnType(col)) {
+    case ColumnType.NUMBER:
+    case ColumnType.FORMULA:
+      keyA = parseNumber(valA, col.unit);
+      keyB = parseNumber(valB, col.unit);
+      break;
+    case ColumnType.DATE:
+      keyA = parseIsoDate(valA)?.getTime() ?? null;
+      keyB = parseIsoDate(valB)?.getTime() ?? null;
+      break;
+    default:
+      keyA = valA.trim() ? valA.toLowerCase() : null;
+      keyB = valB.trim() ? valB.toLowerCase() : null;
+  }
+
+  if (keyA === null || keyB === null) {
+    if (keyA === keyB) return 0;
+    return keyA === null ? 1 : -1;
+  }
+  const sign = direction === 'asc' ? 1 : -1;
+  if (typeof keyA === 'number' && typeof keyB === 'number') return (keyA - keyB) * sign;
+  return String(keyA).localeCompare(String(keyB)) * sign;
+};
+
+/** Re-normalises existing values after a column's type, unit or options change. */
+export const normalizeColumnValues = (rows: TableRow[], col: TableColumn): TableRow[] =>
+  rows.map(row => {
+    const current = row.values[col.id];
+    if (current === undefined) return row;
+    const normalized = normalizeCellValue(col, current);
+    return normalized === current ? row : { ...row, values: { ...row.values, [col.id]: normalized } };
+  });
@@ -0,0 +1,185 @@
+
+import { Item, SectionDefinition, StockLog } from './types';
+import { parseIsoDate, parseNumber } from './columnUtils';
+import { isNumericColumn } from './formulaUtils';
+import { buildLedger } from './ledgerService';
+import { getSectionName } from './sectionService';
+import { toIsoDay } from './dateService';
+
+export type Period = 'day' | 'week' | 'month';
+
+export const PERIOD_LABELS: Record<Period, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly'
+};
+
+export interface MovementTotals {
+  received: number;
+  consumed: number;
+  dispatched: number;
+}
+
+export interface PeriodMovement extends MovementTotals {
+  period: string;
+}
+
+export interface ItemTotals extends MovementTotals {
+  key: string;
+  label: string;
+  unit?: string;
+  closing: number;
+}
+
+/** One numeric column, added up over every log that has it in that section. */
+export interface ColumnTotals {
+  section: string;
+  sectionName: string;
+  header: string;
+  unit?: string;
+  total: number;
+  byPeriod: Record<string, number>;
+}
+
+export interface AuthorActivity {
+  author: string;
+  logs: number;
+  rows: number;
+}
+
+export interface DashboardOptions {
+  period: Period;
+  /** ISO dates, both inclusive */
+  from?: string;
+  to?: string;
+  /** Limits the movement trend to one ledger item */
+  itemKey?: string;
+}
+
+export interface Dashboard {
+  periods: string[];
+  movements: PeriodMovement[];
+  items: ItemTotals[];
+  columns: ColumnTotals[];
+  authors: AuthorActivity[];
+  logCount: number;
+  warningCount: number;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/** Days are keyed by their ISO date, weeks by the ISO date of their Monday, months as yyyy-mm. */
+export const getPeriodKey = (isoDate: string, period: Period) => {
+  if (period === 'day') return isoDate;
+  if (period === 'month') return isoDate.slice(0, 7);
+  const day = parseIsoDate(isoDate);
+  if (!day) return isoDate;
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return toIsoDay(day);
+};
+
+export const formatPeriod = (key: string, period: Period) => {
+  if (period === 'month') {
+    const [year, month] = key.split('-').map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  }
+  const day = parseIsoDate(key);
+  if (!day) return key;
+  const label = day.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+  return period === 'week' ? `Week of ${label}` : label;
+};
+
+/** First and last day of a yyyy-mm month. */
+export const getMonthRange = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return { from: toIsoDay(new Date(year, monthIndex - 1, 1)), to: toIsoDay(new Date(year, monthIndex, 0)) };
+};
+
+const isInRange = (log: StockLog, { from, to }: DashboardOptions) =>
+  (!from || log.date >= from) && (!to || log.date <= to);
+
+/**
+ * Aggregates the logs between `from` and `to`. Stock movements and closing balances
+ * come from the ledger, which is built from every log up to `to` so balances carried
+ * in from before the range are right; everything else only looks at logs in the range.
+ */
+export const buildDashboard = (
+  logs: StockLog[],
+  sections: SectionDefinition[],
+  catalogue: Item[],
+  options: DashboardOptions
+): Dashboard => {
+  const inRange = logs.filter(l => isInRange(l, options));
+  const inRangeIds = new Set(inRange.map(l => l.id));
+  const dateOf = new Map(logs.map(l => [l.id, l.date]));
+  const ledger = buildLedger(logs.filter(l => !options.to || l.date <= options.to), sections, catalogue);
+
+  const periods = Array.from(new Set(inRange.map(l => getPeriodKey(l.date, options.period)))).sort();
+  const movements = new Map(periods.map(p => [p, { period: p, received: 0, consumed: 0, dispatched: 0 }]));
+  const items: ItemTotals[] = [];
+
+  for (const item of ledger.items) {
+    const totals: ItemTotals = { key: item.key, label: item.label, unit: item.unit, received: 0, consumed: 0, dispatched: 0, closing: 0 };
+    for (const entry of item.entries) {
+      totals.closing = entry.closing;
+      if (!inRangeIds.has(entry.logId)) continue;
+      totals.received += entry.received;
+      totals.consumed += entry.consumed;
+      totals.dispatched += entry.dispatched;
+      if (options.itemKey && options.itemKey !== item.key) continue;
+      const bucket = movements.get(getPeriodKey(dateOf.get(entry.logId)!, options.period))!;
+      bucket.received = round(bucket.received + entry.received);
+      bucket.consumed = round(bucket.consumed + entry.consumed);
+      bucket.dispatched = round(bucket.dispatched + entry.dispatched);
+    }
+    if (totals.received || totals.consumed || totals.dispatched) {
+      items.push({
+        ...totals,
+        received: round(totals.received),
+        consumed: round(totals.consumed),
+        dispatched: round(totals.dispatched)
+      });
+    }
+  }
+
+  const columns = new Map<string, ColumnTotals>();
+  const authors = new Map<string, AuthorActivity>();
+  for (const log of inRange) {
+    const period = getPeriodKey(log.date, options.period);
+    const activity = authors.get(log.author) ?? { author: log.author, logs: 0, rows: 0 };
+    activity.logs++;
+
+    for (const [section, data] of Object.entries(log.sections)) {
+      activity.rows += data.rows.length;
+      for (const col of data.columns.filter(isNumericColumn)) {
+        const key = `${section}\n${col.header.trim().toLowerCase()}`;
+        const totals = columns.get(key) ??
+          { section, sectionName: getSectionName(sections, section), header: col.header, unit: col.unit, total: 0, byPeriod: {} };
+        for (const row of data.rows) {
+          const value = parseNumber(row.values[col.id] ?? '', col.unit);
+          if (value === null) continue;
+          totals.total = round(totals.total + value);
+          totals.byPeriod[period] = round((totals.byPeriod[period] ?? 0) + value);
+        }
+        columns.set(key, totals);
+      }
+    }
+    authors.set(log.author, activity);
+  }
+
+  const sectionOrder = (id: string) => {
+    const index = sections.findIndex(s => s.id === id);
+    return index < 0 ? sections.length : index;
+  };
+
+  return {
+    periods,
+    movements: periods.map(p => movements.get(p)!),
+    items: items.sort((a, b) =>
+      (b.received + b.consumed + b.dispatched) - (a.received + a.consumed + a.dispatched) || a.label.localeCompare(b.label)),
+    columns: Array.from(columns.values()).sort((a, b) => sectionOrder(a.section) - sectionOrder(b.section)),
+    authors: Array.from(authors.values()).sort((a, b) => b.rows - a.rows || a.author.localeCompare(b.author)),
+    logCount: inRange.length,
+    warningCount: ledger.warnings.filter(w => inRangeIds.has(w.logId)).length
+  };
+};
@@ -0,0 +1,48 @@
+
+import { Shift, StockLog } from './types';
+import { parseIsoDate } from './columnUtils';
+
+export const SHIFT_LABELS: Record<Shift, string> = {
+  morning: 'Morning',
+  evening: 'Evening',
+  night: 'Night'
+};
+
+export const SHIFTS = Object.keys(SHIFT_LABELS) as Shift[];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toIsoDay = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const today = () => toIsoDay(new Date());
+
+/** Only null for a log whose old locale date string could not be converted. */
+export const getLogDay = (log: StockLog): Date | null => parseIsoDate(log.date);
+
+export const formatLogDate = (log: StockLog, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }) => {
+  const day = getLogDay(log);
+  const date = day ? day.toLocaleDateString(undefined, options) : log.date;
+  return log.shift ? `${date} · ${SHIFT_LABELS[log.shift]}` : date;
+};
+
+// Logs without a shift come first on their day, then the shifts in working order
+const shiftRank = (log: StockLog) => log.shift ? SHIFTS.indexOf(log.shift) + 1 : 0;
+
+export const compareLogs = (a: StockLog, b: StockLog) =>
+  a.date.localeCompare(b.date) ||
+  shiftRank(a) - shiftRank(b) ||
+  (a.createdAt ?? 0) - (b.createdAt ?? 0) ||
+  a.id.localeCompare(b.id);
+
+/**
+ * Logs used to store `toLocaleDateString()`, which only parses on devices with the same
+ * locale. They were always dated the day they were created, and their id is that moment.
+ */
+export const upgradeLegacyDate = (log: StockLog): StockLog => {
+  if (parseIsoDate(log.date) && log.createdAt) return log;
+  const created = Number(log.id);
+  const createdAt = log.createdAt ?? (Number.isFinite(created) && created > 0 ? created : undefined);
+  if (parseIsoDate(log.date)) return { ...log, createdAt };
+  const day = new Date(createdAt ?? log.date);
+  return { ...log, date: Number.isNaN(day.getTime()) ? log.date : toIsoDay(day), createdAt };
+};
@@ -0,0 +1,38 @@
+
+import { SectionData, StockLog, User, UserRole } from './types';
+
+/** Saves `blob` to the user's downloads as `name`. */
+export const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Checks for what is read back from files or the sync server, which may have been edited or come from anywhere
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+export const hasStringFields = (value: unknown, ...keys: string[]): value is Record<string, unknown> =>
+  isObject(value) && keys.every(key => typeof value[key] === 'string');
+
+/** Columns with an id and header, and rows with an id and their values. */
+export const isSectionData = (value: unknown): value is SectionData =>
+  isObject(value) &&
+  Array.isArray(value.columns) && value.columns.every(c => hasStringFields(c, 'id', 'header')) &&
+  Array.isArray(value.rows) && value.rows.every(r => hasStringFields(r, 'id') && isObject(r.values));
+
+/** Enough of a log for the legacy upgrades to run on; `isLog` checks the rest after them. */
+export const hasLogFields = (value: unknown): boolean =>
+  hasStringFields(value, 'id', 'author', 'date');
+
+export const isLog = (log: StockLog) =>
+  isObject(log.sections) && Object.values(log.sections).every(isSectionData) &&
+  (log.attachments === undefined ||
+    (Array.isArray(log.attachments) && log.attachments.every(a => hasStringFields(a, 'id', 'name', 'type', 'data'))));
+
+export const isUser = (value: unknown): value is User =>
+  hasStringFields(value, 'name') && Object.values(UserRole).includes(value.role as UserRole);
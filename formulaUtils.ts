@@ -0,0 +1,289 @@
+
+import { AggregateType, ColumnType, SectionData, TableColumn, TableRow } from './types';
+import { getColumnType, parseNumber } from './columnUtils';
+
+export const AGGREGATE_LABELS: Record<AggregateType, string> = {
+  [AggregateType.SUM]: 'Sum',
+  [AggregateType.AVERAGE]: 'Average',
+  [AggregateType.MIN]: 'Min',
+  [AggregateType.MAX]: 'Max',
+  [AggregateType.COUNT]: 'Count'
+};
+
+type Operator = '+' | '-' | '*' | '/' | '(' | ')';
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'ref'; name: string }
+  | { kind: 'op'; value: Operator };
+
+type Expr =
+  | { kind: 'number'; value: number }
+  | { kind: 'ref'; name: string }
+  | { kind: 'negate'; operand: Expr }
+  | { kind: 'binary'; op: '+' | '-' | '*' | '/'; left: Expr; right: Expr };
+
+export class FormulaError extends Error {}
+
+export const isNumericColumn = (col: TableColumn) => {
+  const type = getColumnType(col);
+  return type === ColumnType.NUMBER || type === ColumnType.FORMULA;
+};
+
+/**
+ * Splits a formula such as `Gross - Tare` or `[Gross Weight] * 0.95` into tokens.
+ * Column names containing spaces or symbols must be wrapped in square brackets.
+ */
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const ch = formula[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if ('+-*/()'.includes(ch)) {
+      tokens.push({ kind: 'op', value: ch as Operator });
+      i++;
+    } else if (ch === '[') {
+      const end = formula.indexOf(']', i);
+      if (end === -1) throw new FormulaError('Missing closing ]');
+      tokens.push({ kind: 'ref', name: formula.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (/[\d.]/.test(ch)) {
+      const match = formula.slice(i).match(/^\d*\.?\d+/);
+      if (!match) throw new FormulaError(`Unexpected "${ch}"`);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (/[\p{L}_]/u.test(ch)) {
+      const match = formula.slice(i).match(/^[\p{L}\p{N}_]+/u)!;
+      tokens.push({ kind: 'ref', name: match[0] });
+      i += match[0].length;
+    } else {
+      throw new FormulaError(`Unexpected "${ch}"`);
+    }
+  }
+  return tokens;
+};
+
+const parse = (formula: string): Expr => {
+  const tokens = tokenize(formula);
+  let pos = 0;
+
+  const peekOp = () => {
+    const token = tokens[pos];
+    return token?.kind === 'op' ? token.value : null;
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = tokens[pos++];
+    if (!token) throw new FormulaError('Formula ends unexpectedly');
+    if (token.kind === 'number' || token.kind === 'ref') return token;
+    if (token.value === '-') return { kind: 'negate', operand: parsePrimary() };
+    if (token.value === '(') {
+      const inner = parseSum();
+      if (peekOp() !== ')') throw new FormulaError('Missing closing )');
+      pos++;
+      return inner;
+    }
+    throw new FormulaError(`Unexpected "${token.value}"`);
+  };
+
+  const parseProduct = (): Expr => {
+    let left = parsePrimary();
+    for (let op = peekOp(); op === '*' || op === '/'; op = peekOp()) {
+      pos++;
+      left = { kind: 'binary', op, left, right: parsePrimary() };
+    }
+    return left;
+  };
+
+  const parseSum = (): Expr => {
+    let left = parseProduct();
+    for (let op = peekOp(); op === '+' || op === '-'; op = peekOp()) {
+      pos++;
+      left = { kind: 'binary', op, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  if (!tokens.length) throw new FormulaError('Formula is empty');
+  const expr = parseSum();
+  if (pos < tokens.length) throw new FormulaError('Unexpected text after formula');
+  return expr;
+};
+
+const collectRefs = (expr: Expr, refs: string[] = []): string[] => {
+  if (expr.kind === 'ref') refs.push(expr.name);
+  if (expr.kind === 'negate') collectRefs(expr.operand, refs);
+  if (expr.kind === 'binary') {
+    collectRefs(expr.left, refs);
+    collectRefs(expr.right, refs);
+  }
+  return refs;
+};
+
+const findColumnByName = (columns: TableColumn[], name: string) =>
+  columns.find(c => c.header.trim().toLowerCase() === name.toLowerCase());
+
+/** Checks a formula column's syntax, references and cycles. Returns an error message or null. */
+export const getFormulaError = (col: TableColumn, columns: TableColumn[]): string | null => {
+  const visit = (current: TableColumn, path: string[]): string | null => {
+    if (path.includes(current.id)) return 'Formula refers to itself';
+    let refs: string[];
+    try {
+      refs = collectRefs(parse(current.formula ?? ''));
+    } catch (e) {
+      return (e as Error).message;
+    }
+    for (const name of refs) {
+      const target = findColumnByName(columns, name);
+      if (!target) return `Unknown column "${name}"`;
+      if (!isNumericColumn(target)) return `"${target.header}" is not a number column`;
+      if (getColumnType(target) === ColumnType.FORMULA) {
+        const nested = visit(target, [...path, current.id]);
+        if (nested) return nested;
+      }
+    }
+    return null;
+  };
+  return visit(col, []);
+};
+
+const evaluate = (expr: Expr, resolve: (name: string) => number | null): number | null => {
+  switch (expr.kind) {
+    case 'number':
+      return expr.value;
+    case 'ref':
+      return resolve(expr.name);
+    case 'negate': {
+      const value = evaluate(expr.operand, resolve);
+      return value === null ? null : -value;
+    }
+    case 'binary': {
+      const left = evaluate(expr.left, resolve);
+      const right = evaluate(expr.right, resolve);
+      if (left === null || right === null) return null;
+      if (expr.op === '+') return left + right;
+      if (expr.op === '-') return left - right;
+      if (expr.op === '*') return left * right;
+      return right === 0 ? null : left / right;
+    }
+  }
+};
+
+export const formatNumber = (value: number) =>
+  String(Math.round(value * 10000) / 10000);
+
+// Formulas are parsed and column names looked up once per section, not once per row
+interface CompiledFormulas {
+  columns: TableColumn[];
+  expressions: Map<string, Expr>;
+  byName: Map<string, TableColumn>;
+}
+
+const compileFormulas = (columns: TableColumn[], formulaCols: TableColumn[], brokenIds: Set<string>): CompiledFormulas => {
+  const byName = new Map<string, TableColumn>();
+  columns.forEach(c => {
+    const name = c.header.trim().toLowerCase();
+    if (!byName.has(name)) byName.set(name, c);
+  });
+  const expressions = new Map(
+    formulaCols.filter(c => !brokenIds.has(c.id)).map(c => [c.id, parse(c.formula ?? '')] as const)
+  );
+  return { columns: formulaCols, expressions, byName };
+};
+
+const computeRow = (row: TableRow, { columns: formulaCols, expressions, byName }: CompiledFormulas): TableRow => {
+  const computed: Record<string, number | null> = {};
+
+  const valueOf = (col: TableColumn): number | null => {
+    if (getColumnType(col) !== ColumnType.FORMULA) return parseNumber(row.values[col.id] ?? '', col.unit);
+    if (!(col.id in computed)) {
+      computed[col.id] = null; // guards against cycles that slipped past validation
+      const expr = expressions.get(col.id);
+      computed[col.id] = expr ? evaluate(expr, name => {
+        const target = byName.get(name.toLowerCase());
+        return target ? valueOf(target) : null;
+      }) : null;
+    }
+    return computed[col.id];
+  };
+
+  let values = row.values;
+  for (const col of formulaCols) {
+    const value = expressions.has(col.id) ? valueOf(col) : null;
+    const stored = value === null ? '' : formatNumber(value);
+    if ((values[col.id] ?? '') !== stored) values = { ...values, [col.id]: stored };
+  }
+  return values === row.values ? row : { ...row, values };
+};
+
+export const computeAggregate = (type: AggregateType, col: TableColumn, rows: TableRow[]): number | null => {
+  const numbers = rows
+    .map(r => parseNumber(r.values[col.id] ?? '', col.unit))
+    .filter((n): n is number => n !== null);
+  if (type === AggregateType.COUNT) return numbers.length;
+  if (!numbers.length) return null;
+  switch (type) {
+    case AggregateType.SUM:
+      return numbers.reduce((a, b) => a + b, 0);
+    case AggregateType.AVERAGE:
+      return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    case AggregateType.MIN:
+      return Math.min(...numbers);
+    case AggregateType.MAX:
+      return Math.max(...numbers);
+  }
+};
+
+// Edits replace rows and columns rather than changing them, so a row already computed with
+// the same columns array is still up to date and typing in one row recomputes only that row
+const computedRows = new WeakMap<TableColumn[], WeakSet<TableRow>>();
+
+/**
+ * Fills every formula cell and recalculates the footer totals so the stored
+ * section always carries the same numbers the table shows.
+ */
+export const computeSection = (data: SectionData): SectionData => {
+  const formulaCols = data.columns.filter(c => getColumnType(c) === ColumnType.FORMULA);
+  const brokenIds = new Set(formulaCols.filter(c => getFormulaError(c, data.columns)).map(c => c.id));
+  const compiled = compileFormulas(data.columns, formulaCols, brokenIds);
+  const computed = computedRows.get(data.columns) ?? new WeakSet<TableRow>();
+  computedRows.set(data.columns, computed);
+  const rows = formulaCols.length
+    ? data.rows.map(row => {
+      if (computed.has(row)) return row;
+      const result = computeRow(row, compiled);
+      computed.add(result);
+      return result;
+    })
+    : data.rows;
+
+  const totals: Record<string, number | null> = {};
+  for (const col of data.columns) {
+    if (col.aggregate && isNumericColumn(col)) {
+      totals[col.id] = computeAggregate(col.aggregate, col, rows);
+    }
+  }
+
+  return { ...data, rows, totals };
+};
+
+// References as `tokenize` reads them: a bracketed name as a whole, or a bare word
+const REFERENCE_PATTERN = /\[[^\]]*\]|[\p{L}_][\p{L}\p{N}_]*/gu;
+
+/** Rewrites references to a renamed column in every formula of the section. */
+export const renameFormulaReferences = (columns: TableColumn[], oldName: string, newName: string): TableColumn[] => {
+  if (oldName.trim().toLowerCase() === newName.trim().toLowerCase()) return columns;
+  const ref = /^[\p{L}_][\p{L}\p{N}_]*$/u.test(newName) ? newName : `[${newName}]`;
+  const target = oldName.trim().toLowerCase();
+  const rename = (formula: string) => formula.replace(REFERENCE_PATTERN, token => {
+    const name = token.startsWith('[') ? token.slice(1, -1).trim() : token;
+    return name.toLowerCase() === target ? ref : token;
+  });
+  return columns.map(c =>
+    getColumnType(c) === ColumnType.FORMULA && c.formula
+      ? { ...c, formula: rename(c.formula) }
+      : c
+  );
+};
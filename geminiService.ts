@@ -0,0 +1,85 @@
+
+import { GoogleGenAI, Type } from '@google/genai';
+import { SectionDefinition, StockLog } from './types';
+import { computeSection } from './formulaUtils';
+import { getLogSections, getSectionData } from './sectionService';
+import { formatLogDate } from './dateService';
+import type { AnalysisContext, AnalysisDraft, StockAnalyzer } from './analysisService';
+
+const MODEL = 'gemini-2.5-flash';
+
+export class GeminiError extends Error {}
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: 'Two or three sentences on the state of the log' },
+    findings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          severity: { type: Type.STRING, enum: ['critical', 'warning', 'info'] },
+          title: { type: Type.STRING },
+          detail: { type: Type.STRING },
+          section: { type: Type.STRING, description: 'Section id the finding is about' },
+          rowId: { type: Type.STRING, description: 'Row id the finding is about' },
+          columnId: { type: Type.STRING, description: 'Column id the finding is about' }
+        },
+        required: ['severity', 'title', 'detail']
+      }
+    },
+    actions: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['summary', 'findings', 'actions']
+};
+
+// Ids are kept so findings can point back at the cells they are about
+const describeLog = (log: StockLog, sections: SectionDefinition[], context: AnalysisContext) => ({
+  date: formatLogDate(log),
+  sections: getLogSections(log, sections).map(section => {
+    const data = computeSection(getSectionData(log, section.id));
+    return {
+      id: section.id,
+      name: section.name,
+      columns: data.columns.map(c => ({ id: c.id, header: c.header, unit: c.unit, type: c.type })),
+      rows: data.rows.map(r => ({ id: r.id, values: r.values }))
+    };
+  }),
+  catalogue: context.items.map(i => ({ code: i.code, name: i.name, unit: i.unit })),
+  earlierTotals: context.earlierLogs,
+  ledgerWarnings: context.ledgerWarnings
+});
+
+const buildPrompt = (log: StockLog, sections: SectionDefinition[], context: AnalysisContext) => `
+You review the daily stock log of a textile mill. Find data-entry mistakes, quantities that look wrong,
+stock that does not add up and notable changes against the earlier days' column totals.
+Point each finding at the section, row and column ids it is about where there is one.
+Suggest short, practical actions for the supervisor. Do not report anything the data does not support.
+
+${JSON.stringify(describeLog(log, sections, context))}
+`;
+
+/** Sends the log to Gemini; the key is the one configured in GEMINI_API_KEY. */
+export const createGeminiAnalyzer = (apiKey: string): StockAnalyzer => ({
+  name: 'Gemini',
+  analyze: async (log, sections, context): Promise<AnalysisDraft> => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: buildPrompt(log, sections, context),
+      config: { responseMimeType: 'application/json', responseSchema: RESPONSE_SCHEMA }
+    });
+    let parsed: AnalysisDraft;
+    try {
+      parsed = JSON.parse(response.text ?? '');
+    } catch {
+      throw new GeminiError('Gemini returned an answer that could not be read');
+    }
+    return {
+      summary: parsed.summary ?? '',
+      findings: Array.isArray(parsed.findings) ? parsed.findings.filter(f => f?.title) : [],
+      actions: Array.isArray(parsed.actions) ? parsed.actions.filter(a => typeof a === 'string') : []
+    };
+  }
+});
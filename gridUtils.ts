@@ -0,0 +1,180 @@
+
+import { ColumnType, Item, SectionData, TableColumn, TableRow } from './types';
+import { getColumnType, normalizeCellValue } from './columnUtils';
+import { matchItem } from './itemService';
+import { getCellText } from './searchService';
+
+/** A cell by its place on screen: the row index in display order and the column index. */
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+/** Inclusive block of cells between two corners. */
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export const createRowId = () => Math.random().toString(36).substring(7);
+
+export const getCellRange = (a: CellPosition, b: CellPosition): CellRange => ({
+  top: Math.min(a.row, b.row),
+  left: Math.min(a.col, b.col),
+  bottom: Math.max(a.row, b.row),
+  right: Math.max(a.col, b.col)
+});
+
+export const isSingleCell = (range: CellRange) => range.top === range.bottom && range.left === range.right;
+
+/**
+ * Splits clipboard text from Excel or Google Sheets into rows of cells. Cells holding
+ * tabs, line breaks or quotes arrive wrapped in double quotes.
+ */
+export const parseClipboardTable = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell) {
+      quoted = true;
+    } else if (ch === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  // The line break spreadsheets put after the last row does not start another one
+  if (cell || row.length) rows.push([...row, cell]);
+  return rows;
+};
+
+export const formatClipboardTable = (cells: string[][]) =>
+  cells.map(row => row.map(cell => /[\t\r\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join('\t')).join('\n');
+
+/** The text of each cell in `range`, as shown in the table. */
+export const copyRange = (rows: TableRow[], columns: TableColumn[], range: CellRange, items: Item[]) =>
+  rows.slice(range.top, range.bottom + 1).map(row =>
+    columns.slice(range.left, range.right + 1).map(col => getCellText(col, row.values[col.id], items))
+  );
+
+// Pasted text is stored the way typing it would store it: item labels become catalogue ids
+const toCellValue = (col: TableColumn, text: string, items: Item[]) =>
+  getColumnType(col) === ColumnType.ITEM ? matchItem(items, text)?.id ?? text.trim() : normalizeCellValue(col, text);
+
+// Formula cells are computed, so they are skipped; `valueAt` returns null to leave a cell alone
+const updateRange = (
+  data: SectionData, rows: TableRow[], columns: TableColumn[], range: CellRange,
+  valueAt: (row: number, col: number) => string | null
+): SectionData => {
+  const updated = new Map<string, TableRow>();
+  for (let r = range.top; r <= range.bottom; r++) {
+    for (let c = range.left; c <= range.right; c++) {
+      const row = rows[r];
+      const col = columns[c];
+      if (!row || !col || getColumnType(col) === ColumnType.FORMULA) continue;
+      const value = valueAt(r, c);
+      if (value === null) continue;
+      const current = updated.get(row.id) ?? row;
+      updated.set(row.id, { ...current, values: { ...current.values, [col.id]: value } });
+    }
+  }
+  return { ...data, rows: data.rows.map(r => updated.get(r.id) ?? r) };
+};
+
+/**
+ * Pastes a block of cells over `range`. A block that fits the selection a whole number of
+ * times is repeated to fill it, as spreadsheets do; otherwise it is pasted from the top left
+ * corner, adding rows when it runs past the last one. Columns past the last are dropped.
+ */
+export const pasteCells = (
+  data: SectionData, rows: TableRow[], columns: TableColumn[], range: CellRange, cells: string[][], items: Item[]
+): SectionData => {
+  const height = cells.length;
+  const width = Math.max(0, ...cells.map(r => r.length));
+  if (!height || !width) return data;
+
+  const rangeHeight = range.bottom - range.top + 1;
+  const rangeWidth = range.right - range.left + 1;
+  const repeats = rangeHeight % height === 0 && rangeWidth % width === 0;
+  const target = repeats ? range : {
+    ...range,
+    bottom: range.top + height - 1,
+    right: Math.min(range.left + width - 1, columns.length - 1)
+  };
+
+  const added: TableRow[] = Array.from(
+    { length: Math.max(0, target.bottom + 1 - rows.length) },
+    () => ({ id: createRowId(), values: {} })
+  );
+  return updateRange({ ...data, rows: [...data.rows, ...added] }, [...rows, ...added], columns, target, (r, c) => {
+    const text = cells[(r - target.top) % height][(c - target.left) % width];
+    return text === undefined ? null : toCellValue(columns[c], text, items);
+  });
+};
+
+/** Replaces only the edited row, so the others stay the same objects. */
+export const setCellValue = (data: SectionData, rowId: string, colId: string, value: string): SectionData => {
+  const index = data.rows.findIndex(r => r.id === rowId);
+  if (index < 0) return data;
+  const rows = [...data.rows];
+  rows[index] = { ...rows[index], values: { ...rows[index].values, [colId]: value } };
+  return { ...data, rows };
+};
+
+export const clearRange = (data: SectionData, rows: TableRow[], columns: TableColumn[], range: CellRange) =>
+  updateRange(data, rows, columns, range, () => '');
+
+/** Copies the top row of `range` into the rows below it, or the row above into a single row. */
+export const fillDown = (data: SectionData, rows: TableRow[], columns: TableColumn[], range: CellRange): SectionData => {
+  const single = range.top === range.bottom;
+  const source = rows[single ? range.top - 1 : range.top];
+  if (!source) return data;
+  return updateRange(data, rows, columns, { ...range, top: single ? range.top : range.top + 1 }, (_, c) =>
+    source.values[columns[c].id] ?? ''
+  );
+};
+
+export const moveRow = (data: SectionData, rowId: string, toIndex: number): SectionData => {
+  const row = data.rows.find(r => r.id === rowId);
+  if (!row) return data;
+  const rows = data.rows.filter(r => r.id !== rowId);
+  return { ...data, rows: [...rows.slice(0, toIndex), row, ...rows.slice(toIndex)] };
+};
+
+/** Inserts a copy of the row right below it. */
+export const duplicateRow = (data: SectionData, rowId: string): SectionData => {
+  const index = data.rows.findIndex(r => r.id === rowId);
+  if (index < 0) return data;
+  const copy: TableRow = { id: createRowId(), values: { ...data.rows[index].values } };
+  return { ...data, rows: [...data.rows.slice(0, index + 1), copy, ...data.rows.slice(index + 1)] };
+};
+
+/**
+ * Rows to render for a long table: those within the viewport plus `overscan` on each side.
+ * `offset` is how far the top of the viewport is below the first row, in pixels.
+ */
+export const getRowWindow = (offset: number, viewportHeight: number, rowHeight: number, rowCount: number, overscan = 10) => {
+  const start = Math.min(rowCount, Math.max(0, Math.floor(offset / rowHeight) - overscan));
+  const end = Math.min(rowCount, Math.max(0, Math.ceil((offset + viewportHeight) / rowHeight) + overscan));
+  return { start, end: Math.max(start, end) };
+};
@@ -0,0 +1,80 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ColumnType, LogStatus, StockLog, User, UserRole } from './types';
+import { appendChanges, diffLogs } from './historyService';
+import { getLogWriteError } from './permissions';
+import { keepLocalCopy } from './syncService';
+
+const USER: User = { name: 'Asha', role: UserRole.OPERATOR };
+
+const buildLog = (): StockLog => ({
+  id: '1',
+  date: '2026-10-01',
+  author: USER.name,
+  status: LogStatus.DRAFT,
+  sections: {
+    dori: {
+      columns: [{ id: 'weight', header: 'Weight', type: ColumnType.NUMBER }],
+      rows: [{ id: 'row-1', values: { weight: '' } }]
+    }
+  }
+});
+
+const typeWeight = (log: StockLog, value: string, at: number, coalesce = true) => {
+  const next = {
+    ...log,
+    sections: { dori: { ...log.sections.dori, rows: [{ id: 'row-1', values: { weight: value } }] } }
+  };
+  return appendChanges(next, diffLogs(log, next), USER.name, at, coalesce);
+};
+
+// What the server keeps after accepting a push: the log as sent, at a new revision
+const sync = (server: StockLog | undefined, log: StockLog, revision: number) => {
+  assert.equal(getLogWriteError(USER, server, log), null);
+  return { ...log, revision };
+};
+
+test('typing in a cell again after a sync adds to the history the server has', () => {
+  const start = Date.now();
+  let log = typeWeight(buildLog(), '4', start);
+  log = typeWeight(log, '42', start + 1000);
+  assert.equal(log.history?.length, 1);
+
+  const server = sync(undefined, log, 1);
+  log = typeWeight(server, '420', start + 2000);
+  assert.equal(log.history?.length, 2);
+  assert.deepEqual(log.history?.[0], server.history?.[0]);
+  log = typeWeight(log, '4200', start + 3000);
+  assert.equal(log.history?.length, 2);
+
+  // Going back to the value before a synced change adds a change rather than dropping that one
+  const second = sync(server, log, 2);
+  const third = sync(second, typeWeight(second, '420', start + 4000), 3);
+  log = typeWeight(third, '4200', start + 5000);
+  assert.equal(log.history?.length, 4);
+  sync(third, log, 4);
+});
+
+test('typing while a sync runs is not merged into what is being sent', () => {
+  const start = Date.now();
+  const sent = typeWeight(buildLog(), '4', start);
+  const during = typeWeight(sent, '42', start + 1000, false);
+  assert.equal(during.history?.length, 2);
+  assert.deepEqual(during.history?.[0], sent.history?.[0]);
+  sync(sync(undefined, sent, 1), { ...during, revision: 1 }, 2);
+});
+
+test('keeping the local copy restores changes the server has and records the later typing', () => {
+  const start = Date.now();
+  const server = sync(undefined, typeWeight(buildLog(), '4', start), 1);
+  // A copy from before revisions were recorded on changes rewrote the synced one
+  const local = { ...server, history: [{ ...server.history![0], newValue: '42', revision: 1 }] };
+  assert.notEqual(getLogWriteError(USER, server, local), null);
+
+  const kept = keepLocalCopy({ logId: '1', local, remote: server })!;
+  assert.deepEqual(kept.history?.[0], server.history?.[0]);
+  assert.equal(kept.history?.[1].oldValue, '4');
+  assert.equal(kept.history?.[1].newValue, '42');
+  sync(server, kept, 2);
+});
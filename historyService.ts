@@ -0,0 +1,349 @@
+
+import {
+  ChangeKind, ColumnType, Item, LogChange, SectionData, Shift, StockLog, TableColumn, TableRow
+} from './types';
+import { getColumnType } from './columnUtils';
+import { computeSection } from './formulaUtils';
+import { findItemById, getItemLabel } from './itemService';
+import { getSectionData } from './sectionService';
+
+// Keystrokes in the same cell by the same person within this window are recorded as one change,
+// as long as the change has not been synced yet
+const COALESCE_WINDOW_MS = 60000;
+
+const COLUMN_FIELDS: (keyof TableColumn)[] = ['header', 'unit', 'options', 'required', 'formula', 'aggregate'];
+
+export type ChangeDraft = Omit<LogChange, 'id' | 'user' | 'at'>;
+
+const createChangeId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+const columnChanged = (a: TableColumn, b: TableColumn) =>
+  getColumnType(a) !== getColumnType(b) ||
+  COLUMN_FIELDS.some(f => JSON.stringify(a[f] ?? null) !== JSON.stringify(b[f] ?? null));
+
+const columnValues = (rows: TableRow[], colId: string) =>
+  Object.fromEntries(rows.filter(r => r.values[colId]).map(r => [r.id, r.values[colId]]));
+
+const insertAt = <T>(list: T[], index: number, item: T) =>
+  [...list.slice(0, index), item, ...list.slice(index)];
+
+const diffCells = (section: string, previous: TableRow, row: TableRow, columns: TableColumn[]): ChangeDraft[] =>
+  columns.flatMap(col => {
+    const oldValue = previous.values[col.id] ?? '';
+    const newValue = row.values[col.id] ?? '';
+    return oldValue === newValue
+      ? []
+      : [{ kind: ChangeKind.CELL, section, rowId: row.id, columnId: col.id, columnHeader: col.header, oldValue, newValue }];
+  });
+
+// Formula cells are derived, so only the inputs they are computed from are recorded
+const inputColumns = (columns: TableColumn[]) => columns.filter(col => getColumnType(col) !== ColumnType.FORMULA);
+
+const diffSection = (section: string, before: SectionData, after: SectionData): ChangeDraft[] => {
+  // Typing and pasting replace rows in place, so the rows can be compared pair by pair
+  if (
+    before.columns === after.columns && before.rows.length === after.rows.length &&
+    before.rows.every((row, i) => row.id === after.rows[i].id)
+  ) {
+    const columns = inputColumns(after.columns);
+    return after.rows.flatMap((row, i) => row === before.rows[i] ? [] : diffCells(section, before.rows[i], row, columns));
+  }
+
+  const changes: ChangeDraft[] = [];
+  const beforeCols = new Map(before.columns.map(c => [c.id, c]));
+  const afterCols = new Map(after.columns.map(c => [c.id, c]));
+  const beforeRows = new Map(before.rows.map(r => [r.id, r]));
+  const afterRows = new Map(after.rows.map(r => [r.id, r]));
+
+  before.columns.forEach((col, index) => {
+    const next = afterCols.get(col.id);
+    if (!next) {
+      changes.push({
+        kind: ChangeKind.COLUMN_DELETED, section, columnId: col.id, columnHeader: col.header,
+        index, column: col, columnValues: columnValues(before.rows, col.id)
+      });
+    } else if (columnChanged(col, next)) {
+      changes.push({
+        kind: ChangeKind.COLUMN_CHANGED, section, columnId: col.id, columnHeader: next.header,
+        column: next, previousColumn: col
+      });
+    }
+  });
+  after.columns.forEach((col, index) => {
+    if (beforeCols.has(col.id)) return;
+    changes.push({
+      kind: ChangeKind.COLUMN_ADDED, section, columnId: col.id, columnHeader: col.header,
+      index, column: col, columnValues: columnValues(after.rows, col.id)
+    });
+  });
+
+  before.rows.forEach((row, index) => {
+    if (!afterRows.has(row.id)) changes.push({ kind: ChangeKind.ROW_DELETED, section, rowId: row.id, index, row });
+  });
+  const sharedColumns = inputColumns(after.columns.filter(col => beforeCols.has(col.id)));
+  after.rows.forEach((row, index) => {
+    const previous = beforeRows.get(row.id);
+    if (!previous) {
+      changes.push({ kind: ChangeKind.ROW_ADDED, section, rowId: row.id, index, row });
+      return;
+    }
+    // Edits replace only the rows they touch, so an untouched row is still the same object
+    if (previous !== row) changes.push(...diffCells(section, previous, row, sharedColumns));
+  });
+  // Adding or deleting rows shifts the others without reordering them
+  const kept = (rows: TableRow[], other: Map<string, TableRow>) => rows.filter(r => other.has(r.id)).map(r => r.id).join();
+  if (kept(before.rows, afterRows) !== kept(after.rows, beforeRows)) {
+    changes.push({
+      kind: ChangeKind.ROWS_MOVED, section, rowOrder: after.rows.map(r => r.id), previousRowOrder: before.rows.map(r => r.id)
+    });
+  }
+  return changes;
+};
+
+export const diffLogs = (before: StockLog, after: StockLog): ChangeDraft[] => {
+  const changes: ChangeDraft[] = [];
+  if (before.date !== after.date) {
+    changes.push({ kind: ChangeKind.FIELD, field: 'date', oldValue: before.date, newValue: after.date });
+  }
+  if ((before.shift ?? '') !== (after.shift ?? '')) {
+    changes.push({ kind: ChangeKind.FIELD, field: 'shift', oldValue: before.shift ?? '', newValue: after.shift ?? '' });
+  }
+  const openingKeys = new Set([...Object.keys(before.openingStock ?? {}), ...Object.keys(after.openingStock ?? {})]);
+  openingKeys.forEach(key => {
+    const oldValue = String(before.openingStock?.[key] ?? '');
+    const newValue = String(after.openingStock?.[key] ?? '');
+    if (oldValue !== newValue) changes.push({ kind: ChangeKind.OPENING_STOCK, field: key, oldValue, newValue });
+  });
+  const sectionIds = new Set([...Object.keys(before.sections), ...Object.keys(after.sections)]);
+  sectionIds.forEach(section => {
+    if (before.sections[section] === after.sections[section]) return;
+    changes.push(...diffSection(section, getSectionData(before, section), getSectionData(after, section)));
+  });
+  const beforeAttachments = before.attachments ?? [];
+  const afterAttachments = after.attachments ?? [];
+  beforeAttachments.filter(a => !afterAttachments.some(b => b.id === a.id)).forEach(a => {
+    changes.push({ kind: ChangeKind.ATTACHMENT, field: 'removed', section: a.section, rowId: a.rowId, oldValue: a.name });
+  });
+  afterAttachments.filter(a => !beforeAttachments.some(b => b.id === a.id)).forEach(a => {
+    changes.push({ kind: ChangeKind.ATTACHMENT, field: 'added', section: a.section, rowId: a.rowId, newValue: a.name });
+  });
+  return changes;
+};
+
+const canCoalesce = (log: StockLog, last: LogChange, draft: ChangeDraft, user: string, at: number) =>
+  last.revision === log.revision && last.user === user &&
+  last.kind === ChangeKind.CELL && draft.kind === ChangeKind.CELL &&
+  last.section === draft.section && last.rowId === draft.rowId && last.columnId === draft.columnId &&
+  at - last.at < COALESCE_WINDOW_MS;
+
+/**
+ * Appends changes already worked out with `diffLogs` to the history of `log`. Pass `coalesce`
+ * false while the log may be on its way to the server, so nothing it is sent with gets rewritten.
+ */
+export const appendChanges = (
+  log: StockLog, drafts: ChangeDraft[], user: string, at = Date.now(), coalesce = true
+): StockLog => {
+  if (!drafts.length) return log;
+
+  const history = [...(log.history ?? [])];
+  for (const draft of drafts) {
+    const last = history[history.length - 1];
+    if (coalesce && last && canCoalesce(log, last, draft, user, at)) {
+      if (last.oldValue === draft.newValue) {
+        history.pop();
+      } else {
+        history[history.length - 1] = { ...last, newValue: draft.newValue, at };
+      }
+      continue;
+    }
+    history.push({ ...draft, id: createChangeId(), user, at, revision: log.revision });
+  }
+  return { ...log, history };
+};
+
+/**
+ * Puts `current` on top of `sent`, changes the server already has and will not let be rewritten.
+ * Those are kept as the server has them; where later typing was merged into one of them here,
+ * the difference is recorded as a new change made on `revision`.
+ */
+export const rebaseHistory = (sent: LogChange[] = [], current: LogChange[] = [], revision?: number): LogChange[] => {
+  const currentById = new Map(current.map(c => [c.id, c]));
+  const corrections = sent.flatMap(change => {
+    const now = currentById.get(change.id);
+    if (!now || now.kind !== ChangeKind.CELL || now.newValue === change.newValue) return [];
+    return [{ ...now, id: createChangeId(), oldValue: change.newValue, revision }];
+  });
+  return mergeHistories(current, [...sent, ...corrections]);
+};
+
+const applySectionChange = (data: SectionData, change: ChangeDraft, undo: boolean): SectionData => {
+  switch (change.kind) {
+    case ChangeKind.CELL: {
+      const value = (undo ? change.oldValue : change.newValue) ?? '';
+      return {
+        ...data,
+        rows: data.rows.map(r => r.id === change.rowId ? { ...r, values: { ...r.values, [change.columnId!]: value } } : r)
+      };
+    }
+    case ChangeKind.ROW_ADDED:
+    case ChangeKind.ROW_DELETED: {
+      const removing = (change.kind === ChangeKind.ROW_ADDED) === undo;
+      if (removing) return { ...data, rows: data.rows.filter(r => r.id !== change.rowId) };
+      if (data.rows.some(r => r.id === change.rowId)) return data;
+      return { ...data, rows: insertAt(data.rows, change.index ?? data.rows.length, change.row!) };
+    }
+    case ChangeKind.ROWS_MOVED: {
+      // Rows added since keep their place at the end
+      const order = (undo ? change.previousRowOrder : change.rowOrder) ?? [];
+      const position = (row: TableRow) => {
+        const index = order.indexOf(row.id);
+        return index < 0 ? order.length : index;
+      };
+      return { ...data, rows: [...data.rows].sort((a, b) => position(a) - position(b)) };
+    }
+    case ChangeKind.COLUMN_ADDED:
+    case ChangeKind.COLUMN_DELETED: {
+      const colId = change.columnId!;
+      const removing = (change.kind === ChangeKind.COLUMN_ADDED) === undo;
+      if (removing) {
+        return {
+          ...data,
+          columns: data.columns.filter(c => c.id !== colId),
+          rows: data.rows.map(r => {
+            const values = { ...r.values };
+            delete values[colId];
+            return { ...r, values };
+          })
+        };
+      }
+      if (data.columns.some(c => c.id === colId)) return data;
+      const restored = change.columnValues ?? {};
+      return {
+        ...data,
+        columns: insertAt(data.columns, change.index ?? data.columns.length, change.column!),
+        rows: data.rows.map(r => r.id in restored ? { ...r, values: { ...r.values, [colId]: restored[r.id] } } : r)
+      };
+    }
+    case ChangeKind.COLUMN_CHANGED: {
+      const column = undo ? change.previousColumn! : change.column!;
+      return { ...data, columns: data.columns.map(c => c.id === change.columnId ? column : c) };
+    }
+    default:
+      return data;
+  }
+};
+
+/** Applies a recorded change to `log`, or takes it back when `direction` is 'undo'. */
+export const applyChange = (log: StockLog, change: ChangeDraft, direction: 'undo' | 'redo'): StockLog => {
+  const undo = direction === 'undo';
+  const value = undo ? change.oldValue : change.newValue;
+  switch (change.kind) {
+    // Only the file name is recorded, so attachments always show as they are now. Review
+    // steps are kept in the status history instead and are not undone by going back in time
+    case ChangeKind.ATTACHMENT:
+    case ChangeKind.LOCK:
+      return log;
+    case ChangeKind.FIELD:
+      if (change.field === 'shift') return { ...log, shift: (value || undefined) as Shift | undefined };
+      return change.field === 'date' ? { ...log, date: value ?? log.date } : log;
+    case ChangeKind.OPENING_STOCK: {
+      const openingStock = { ...log.openingStock };
+      if (value) {
+        openingStock[change.field!] = Number(value);
+      } else {
+        delete openingStock[change.field!];
+      }
+      return { ...log, openingStock };
+    }
+    default: {
+      const section = change.section!;
+      return {
+        ...log,
+        sections: { ...log.sections, [section]: computeSection(applySectionChange(getSectionData(log, section), change, undo)) }
+      };
+    }
+  }
+};
+
+/** Rebuilds the log as it was right after `changeId`, by undoing everything recorded since. */
+export const getLogAsOf = (log: StockLog, changeId: string): StockLog => {
+  const history = log.history ?? [];
+  const index = history.findIndex(c => c.id === changeId);
+  if (index < 0) return log;
+  return history
+    .slice(index + 1)
+    .reverse()
+    .reduce((asOf, change) => applyChange(asOf, change, 'undo'), { ...log, history: history.slice(0, index + 1) });
+};
+
+/** Whether undoing `change` on its own still makes sense given later edits. */
+export const canRevertChange = (log: StockLog, change: LogChange): boolean => {
+  const data = change.section && log.sections[change.section];
+  const hasRow = !!data && data.rows.some(r => r.id === change.rowId);
+  const hasColumn = !!data && data.columns.some(c => c.id === change.columnId);
+  switch (change.kind) {
+    case ChangeKind.CELL: return hasRow && hasColumn;
+    case ChangeKind.ROW_ADDED: return hasRow;
+    case ChangeKind.ROW_DELETED: return !hasRow;
+    case ChangeKind.COLUMN_ADDED:
+    case ChangeKind.COLUMN_CHANGED: return hasColumn;
+    case ChangeKind.COLUMN_DELETED: return !hasColumn;
+    case ChangeKind.ATTACHMENT:
+    case ChangeKind.LOCK: return false;
+    default: return true;
+  }
+};
+
+export const revertChange = (log: StockLog, changeId: string): StockLog => {
+  const change = log.history?.find(c => c.id === changeId);
+  return change && canRevertChange(log, change) ? applyChange(log, change, 'undo') : log;
+};
+
+/** Combines two copies of a history, e.g. when keeping a local log over the server's. */
+export const mergeHistories = (a: LogChange[] = [], b: LogChange[] = []): LogChange[] => {
+  const byId = new Map([...a, ...b].map(c => [c.id, c]));
+  return Array.from(byId.values()).sort((x, y) => x.at - y.at);
+};
+
+const formatValue = (value: string | undefined, column: TableColumn | undefined, items: Item[]) => {
+  if (!value) return 'empty';
+  return column && getColumnType(column) === ColumnType.ITEM ? getItemLabel(items, value) : value;
+};
+
+export const describeChange = (change: LogChange, log: StockLog, items: Item[] = []): string => {
+  const data = change.section && log.sections[change.section];
+  const column = data ? data.columns.find(c => c.id === change.columnId) : undefined;
+  const rowIndex = data ? data.rows.findIndex(r => r.id === change.rowId) : -1;
+  const rowLabel = rowIndex >= 0 ? `row ${rowIndex + 1}` : 'a deleted row';
+
+  switch (change.kind) {
+    case ChangeKind.CELL:
+      return `${change.columnHeader} in ${rowLabel}: ${formatValue(change.oldValue, column, items)} → ${formatValue(change.newValue, column, items)}`;
+    case ChangeKind.ROW_ADDED:
+      return rowIndex >= 0 ? `Added ${rowLabel}` : 'Added a row (since deleted)';
+    case ChangeKind.ROW_DELETED:
+      return `Deleted row ${(change.index ?? 0) + 1}`;
+    case ChangeKind.ROWS_MOVED:
+      return 'Reordered rows';
+    case ChangeKind.COLUMN_ADDED:
+      return `Added column "${change.columnHeader}"`;
+    case ChangeKind.COLUMN_DELETED:
+      return `Deleted column "${change.columnHeader}"`;
+    case ChangeKind.COLUMN_CHANGED:
+      return change.previousColumn?.header !== change.column?.header
+        ? `Renamed column "${change.previousColumn?.header}" to "${change.column?.header}"`
+        : `Changed settings of column "${change.columnHeader}"`;
+    case ChangeKind.LOCK:
+      return change.newValue === 'locked' ? 'Locked the log' : 'Unlocked the log';
+    case ChangeKind.OPENING_STOCK: {
+      const item = findItemById(items, change.field!)?.name ?? change.field;
+      return `Counted opening stock of ${item}: ${change.oldValue || 'empty'} → ${change.newValue || 'empty'}`;
+    }
+    case ChangeKind.FIELD:
+      return `Changed ${change.field}: ${change.oldValue || 'empty'} → ${change.newValue || 'empty'}`;
+    case ChangeKind.ATTACHMENT: {
+      const where = change.rowId ? ` ${change.field === 'added' ? 'to' : 'from'} ${rowLabel}` : '';
+      return change.field === 'added' ? `Attached "${change.newValue}"${where}` : `Removed "${change.oldValue}"${where}`;
+    }
+  }
+};
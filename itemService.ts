@@ -0,0 +1,33 @@
+
+import { Item } from './types';
+
+export const formatItemLabel = (item: Item) => item.code ? `${item.code} — ${item.name}` : item.name;
+
+export const findItemById = (items: Item[], id: string | undefined) =>
+  id ? items.find(i => i.id === id) : undefined;
+
+/** Display text for an item cell; values that are not catalogue ids are shown as typed. */
+export const getItemLabel = (items: Item[], value: string | undefined) => {
+  const item = findItemById(items, value);
+  return item ? formatItemLabel(item) : value ?? '';
+};
+
+/** Resolves typed text to a catalogue item by its label, code or name (case-insensitive). */
+export const matchItem = (items: Item[], text: string): Item | undefined => {
+  const query = text.trim().toLowerCase();
+  if (!query) return undefined;
+  return items.find(i =>
+    i.id === text ||
+    formatItemLabel(i).toLowerCase() === query ||
+    i.code.trim().toLowerCase() === query ||
+    i.name.trim().toLowerCase() === query
+  );
+};
+
+export const createItem = (fields: Omit<Item, 'id'>): Item => ({
+  id: Math.random().toString(36).substring(2, 10),
+  ...fields
+});
+
+export const getItemCategories = (items: Item[]) =>
+  Array.from(new Set(items.map(i => i.category?.trim()).filter((c): c is string => !!c))).sort();
@@ -0,0 +1,176 @@
+
+import { ColumnType, Item, SectionData, SectionDefinition, StockLog, TableColumn } from './types';
+import { getColumnType, normalizeUnit, parseNumber } from './columnUtils';
+import { isNumericColumn } from './formulaUtils';
+import { findItemById, matchItem } from './itemService';
+import { compareLogs } from './dateService';
+
+export interface LedgerEntry {
+  logId: string;
+  date: string;
+  opening: number;
+  received: number;
+  consumed: number;
+  dispatched: number;
+  closing: number;
+  counted?: number;
+}
+
+export interface LedgerItem {
+  key: string;
+  label: string;
+  unit?: string;
+  entries: LedgerEntry[];
+}
+
+export type LedgerWarningKind =
+  | 'negative-closing'
+  | 'opening-mismatch'
+  | 'unit-mismatch'
+  | 'unreadable-quantity'
+  | 'below-reorder';
+
+export interface LedgerWarning {
+  logId: string;
+  date: string;
+  itemKey: string;
+  kind: LedgerWarningKind;
+  message: string;
+}
+
+export interface Ledger {
+  items: LedgerItem[];
+  warnings: LedgerWarning[];
+}
+
+const EMPTY_MOVEMENTS = { received: 0, consumed: 0, dispatched: 0 };
+
+export const toItemKey = (label: string) => label.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export const sortLogsChronologically = (logs: StockLog[]) => [...logs].sort(compareLogs);
+
+/**
+ * The ledger reads each section's item column (or, failing that, its first
+ * text/choice column) as the item and its first number or formula column as the quantity.
+ */
+export const getLedgerColumns = (section: SectionData): { item?: TableColumn; quantity?: TableColumn } => ({
+  item: section.columns.find(c => getColumnType(c) === ColumnType.ITEM) ??
+    section.columns.find(c => [ColumnType.TEXT, ColumnType.CHOICE].includes(getColumnType(c))),
+  quantity: section.columns.find(isNumericColumn)
+});
+
+// Catalogue items are tracked by id; free text that matches no item falls back to a normalised name
+export const resolveItem = (items: Item[], col: TableColumn, value: string) => {
+  const item = getColumnType(col) === ColumnType.ITEM ? findItemById(items, value) : matchItem(items, value);
+  return item
+    ? { key: item.id, label: item.name, unit: item.unit }
+    : { key: toItemKey(value), label: value, unit: undefined };
+};
+
+/**
+ * Archived sections still count: their rows in older logs moved real stock. A counted
+ * opening stock replaces the balance carried from the day before.
+ */
+export const buildLedger = (logs: StockLog[], sections: SectionDefinition[], catalogue: Item[] = []): Ledger => {
+  const movingSections = sections.filter(s => s.movement);
+  const items = new Map<string, LedgerItem>();
+  const balances = new Map<string, number>();
+  const warnings: LedgerWarning[] = [];
+
+  for (const log of sortLogsChronologically(logs)) {
+    const movements = new Map<string, typeof EMPTY_MOVEMENTS>();
+
+    for (const { id, name, movement } of movingSections) {
+      const section = log.sections[id];
+      if (!section) continue;
+      const { item: itemCol, quantity: quantityCol } = getLedgerColumns(section);
+      if (!itemCol || !quantityCol) continue;
+
+      for (const row of section.rows) {
+        const itemValue = (row.values[itemCol.id] || '').trim();
+        const raw = row.values[quantityCol.id] || '';
+        if (!itemValue || !raw.trim()) continue;
+        const resolved = resolveItem(catalogue, itemCol, itemValue);
+        const key = resolved.key;
+
+        let item = items.get(key);
+        if (!item) {
+          item = { key, label: resolved.label, unit: resolved.unit ?? quantityCol.unit, entries: [] };
+          items.set(key, item);
+        } else if (quantityCol.unit && !item.unit) {
+          item.unit = quantityCol.unit;
+        } else if (quantityCol.unit && item.unit && normalizeUnit(quantityCol.unit) !== normalizeUnit(item.unit)) {
+          warnings.push({
+            logId: log.id, date: log.date, itemKey: key, kind: 'unit-mismatch',
+            message: `${name} records ${item.label} in ${quantityCol.unit}, elsewhere it is in ${item.unit}`
+          });
+        }
+
+        const quantity = parseNumber(raw, quantityCol.unit);
+        if (quantity === null) {
+          warnings.push({
+            logId: log.id, date: log.date, itemKey: key, kind: 'unreadable-quantity',
+            message: `${name}: "${raw}" is not a quantity for ${item.label}`
+          });
+          continue;
+        }
+
+        const current = movements.get(key) ?? { ...EMPTY_MOVEMENTS };
+        current[movement!] += quantity;
+        movements.set(key, current);
+      }
+    }
+
+    // Items carried from earlier days, items moved today and items counted today all get an entry
+    const keys = new Set([...balances.keys(), ...movements.keys(), ...Object.keys(log.openingStock ?? {})]);
+    for (const key of keys) {
+      let item = items.get(key);
+      if (!item) {
+        const known = findItemById(catalogue, key);
+        item = { key, label: known?.name ?? key, unit: known?.unit, entries: [] };
+        items.set(key, item);
+      }
+      const carried = balances.get(key);
+      const counted = log.openingStock?.[key];
+      if (!carried && counted === undefined && !movements.has(key)) continue;
+      // A count is what was actually on hand, so the day starts from it rather than from the books
+      const opening = counted ?? carried ?? 0;
+      const moved = movements.get(key) ?? EMPTY_MOVEMENTS;
+      const closing = round(opening + moved.received - moved.consumed - moved.dispatched);
+
+      if (counted !== undefined && carried !== undefined && round(counted) !== round(carried)) {
+        warnings.push({
+          logId: log.id, date: log.date, itemKey: key, kind: 'opening-mismatch',
+          message: `${item.label}: counted ${counted} at opening, but the previous day closed at ${carried}`
+        });
+      }
+      if (closing < 0) {
+        warnings.push({
+          logId: log.id, date: log.date, itemKey: key, kind: 'negative-closing',
+          message: `${item.label}: more consumed or dispatched than was in stock (closing ${closing})`
+        });
+      }
+
+      item.entries.push({ logId: log.id, date: log.date, opening, ...moved, closing, counted });
+      balances.set(key, closing);
+    }
+  }
+
+  for (const item of catalogue) {
+    const closing = balances.get(item.id);
+    if (item.reorderLevel !== undefined && closing !== undefined && closing < item.reorderLevel) {
+      const last = items.get(item.id)!.entries.slice(-1)[0];
+      warnings.push({
+        logId: last.logId, date: last.date, itemKey: item.id, kind: 'below-reorder',
+        message: `${item.name}: stock ${closing} is below the reorder level of ${item.reorderLevel}`
+      });
+    }
+  }
+
+  return {
+    items: Array.from(items.values()).sort((a, b) => a.label.localeCompare(b.label)),
+    warnings
+  };
+};
@@ -0,0 +1,422 @@
+
+import { AggregateType, Attachment, Item, LogStatus, SectionData, SectionDefinition, StockLog } from './types';
+import { formatColumnHeader, parseIsoDate } from './columnUtils';
+import { AGGREGATE_LABELS, computeSection, formatNumber, isNumericColumn } from './formulaUtils';
+import { SECTION_COLORS, getLogSections, getSectionData, getSectionName } from './sectionService';
+import { compareLogs, formatLogDate } from './dateService';
+import { formatFileSize, isImageAttachment } from './attachmentService';
+import { getCellText } from './searchService';
+import { STATUS_LABELS, getStatusChange } from './reviewService';
+
+export const PDF_SETTINGS_KEY = 'pdfSettings';
+
+export class PdfError extends Error {}
+
+export type PageSize = 'a4' | 'letter' | 'legal';
+export type PageOrientation = 'portrait' | 'landscape';
+
+export const PAGE_SIZE_LABELS: Record<PageSize, string> = {
+  a4: 'A4',
+  letter: 'Letter',
+  legal: 'Legal'
+};
+
+/** Report layout, kept per device like the section settings. */
+export interface PdfSettings {
+  companyName: string;
+  /** Address, phone or registration numbers, printed under the name */
+  companyDetails: string;
+  /** JPEG data URL */
+  logo?: string;
+  pageSize: PageSize;
+  orientation: PageOrientation;
+  /** Author and supervisor signature blocks under each log */
+  signatures: boolean;
+}
+
+export const DEFAULT_PDF_SETTINGS: PdfSettings = {
+  companyName: '',
+  companyDetails: '',
+  pageSize: 'a4',
+  orientation: 'portrait',
+  signatures: true
+};
+
+export interface PdfExportOptions {
+  settings?: PdfSettings;
+  /** Catalogue used to print item cells by name instead of by id */
+  items?: Item[];
+  /** Adds the log's photos, and a list of its documents, in an appendix */
+  includeAttachments?: boolean;
+}
+
+type Rgb = [number, number, number];
+
+// jsPDF and its table plugin are loaded from the CDN in index.html; only what is used here is typed
+interface AutoTableOptions {
+  head: string[][];
+  body: string[][];
+  foot?: string[][];
+  startY: number;
+  margin: { left: number; right: number; top: number; bottom: number };
+  theme: 'grid' | 'striped' | 'plain';
+  styles?: { fontSize?: number; cellPadding?: number; overflow?: 'linebreak' };
+  headStyles?: { fillColor?: Rgb; textColor?: Rgb; fontStyle?: string };
+  footStyles?: { fillColor?: Rgb; textColor?: Rgb; fontStyle?: string };
+  showFoot?: 'everyPage' | 'lastPage' | 'never';
+  rowPageBreak?: 'auto' | 'avoid';
+}
+
+interface PdfDocument {
+  internal: { pageSize: { getWidth: () => number; getHeight: () => number } };
+  lastAutoTable: { finalY: number };
+  autoTable: (options: AutoTableOptions) => void;
+  setFont: (font: string, style?: string) => void;
+  setFontSize: (size: number) => void;
+  setTextColor: (r: number, g: number, b: number) => void;
+  setDrawColor: (r: number, g: number, b: number) => void;
+  setFillColor: (r: number, g: number, b: number) => void;
+  setLineWidth: (width: number) => void;
+  text: (text: string | string[], x: number, y: number, options?: { align?: 'left' | 'center' | 'right'; angle?: number }) => void;
+  splitTextToSize: (text: string, maxWidth: number) => string[];
+  line: (x1: number, y1: number, x2: number, y2: number) => void;
+  rect: (x: number, y: number, width: number, height: number, style?: 'S' | 'F' | 'FD') => void;
+  addImage: (data: string, format: string, x: number, y: number, width: number, height: number) => void;
+  getImageProperties: (data: string) => { width: number; height: number };
+  addPage: () => void;
+  setPage: (page: number) => void;
+  getNumberOfPages: () => number;
+  save: (fileName: string) => void;
+}
+
+type PdfConstructor = new (options: { unit: 'mm'; format: PageSize; orientation: PageOrientation }) => PdfDocument;
+
+const MARGIN = 14;
+const FOOTER_SPACE = 12;
+const TEXT: Rgb = [30, 41, 59];
+const MUTED: Rgb = [100, 116, 139];
+const LINE: Rgb = [203, 213, 225];
+
+const createDocument = (settings: PdfSettings) => {
+  const jsPDF = (window as Window & { jspdf?: { jsPDF: PdfConstructor } }).jspdf?.jsPDF;
+  if (!jsPDF) throw new PdfError('The PDF library has not loaded. Check the connection and reload the app.');
+  return new jsPDF({ unit: 'mm', format: settings.pageSize, orientation: settings.orientation });
+};
+
+/** Keeps the writing position on the current page and starts a new page when one fills up. */
+class PageWriter {
+  readonly width: number;
+  readonly height: number;
+  y = MARGIN;
+
+  constructor(readonly doc: PdfDocument) {
+    this.width = doc.internal.pageSize.getWidth();
+    this.height = doc.internal.pageSize.getHeight();
+  }
+
+  get contentWidth() {
+    return this.width - MARGIN * 2;
+  }
+
+  get bottom() {
+    return this.height - MARGIN - FOOTER_SPACE;
+  }
+
+  /** Starts a new page unless `space` millimetres still fit on this one. */
+  ensureSpace(space: number) {
+    if (this.y + space <= this.bottom) return;
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  /** Writes wrapped text and moves below it. */
+  write(text: string, size: number, options: { bold?: boolean; color?: Rgb; gap?: number } = {}) {
+    const { doc } = this;
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(...(options.color ?? TEXT));
+    const lines = doc.splitTextToSize(text, this.contentWidth);
+    const lineHeight = size * 0.45;
+    this.ensureSpace(lines.length * lineHeight);
+    doc.text(lines, MARGIN, this.y + lineHeight * 0.8);
+    this.y += lines.length * lineHeight + (options.gap ?? 1);
+  }
+}
+
+const fitImage = (doc: PdfDocument, data: string, maxWidth: number, maxHeight: number) => {
+  const { width, height } = doc.getImageProperties(data);
+  const scale = Math.min(maxWidth / width, maxHeight / height);
+  return { width: width * scale, height: height * scale };
+};
+
+const drawCompanyHeader = (page: PageWriter, settings: PdfSettings) => {
+  const { doc } = page;
+  if (!settings.companyName && !settings.companyDetails && !settings.logo) return;
+  const top = page.y;
+  let textLeft = MARGIN;
+  let logoHeight = 0;
+  if (settings.logo) {
+    const size = fitImage(doc, settings.logo, 40, 18);
+    doc.addImage(settings.logo, 'JPEG', MARGIN, top, size.width, size.height);
+    textLeft += size.width + 4;
+    logoHeight = size.height;
+  }
+  let textY = top + 5;
+  if (settings.companyName) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(...TEXT);
+    doc.text(settings.companyName, textLeft, textY);
+    textY += 5;
+  }
+  if (settings.companyDetails) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    const lines = doc.splitTextToSize(settings.companyDetails, page.width - MARGIN - textLeft);
+    doc.text(lines, textLeft, textY);
+    textY += lines.length * 3.5;
+  }
+  page.y = Math.max(top + logoHeight, textY) + 3;
+  doc.setDrawColor(...LINE);
+  doc.setLineWidth(0.4);
+  doc.line(MARGIN, page.y, page.width - MARGIN, page.y);
+  page.y += 5;
+};
+
+const drawLogTitle = (page: PageWriter, log: StockLog) => {
+  page.write(`Stock Log — ${formatLogDate(log, { dateStyle: 'full' })}`, 15, { bold: true });
+  page.write(`Prepared by ${log.author} · ${STATUS_LABELS[log.status]} · Log #${log.id}`, 9, { color: MUTED, gap: 5 });
+};
+
+// Totals row under the table: "Sum 1,250 kg" for each column that has an aggregate
+const getTotalsRow = (data: SectionData) => {
+  if (!data.columns.some(c => isNumericColumn(c) && c.aggregate)) return undefined;
+  return [data.columns.map(col => {
+    const total = data.totals?.[col.id];
+    if (!isNumericColumn(col) || !col.aggregate || total == null) return '';
+    const unit = col.unit && col.aggregate !== AggregateType.COUNT ? ` ${col.unit}` : '';
+    return `${AGGREGATE_LABELS[col.aggregate]} ${formatNumber(total)}${unit}`;
+  })];
+};
+
+const drawSection = (page: PageWriter, log: StockLog, section: SectionDefinition, items: Item[]) => {
+  const { doc } = page;
+  const data = computeSection(getSectionData(log, section.id));
+  const color = SECTION_COLORS[section.color]?.rgb ?? SECTION_COLORS.slate.rgb;
+
+  page.ensureSpace(20);
+  doc.setFillColor(...color);
+  doc.rect(MARGIN, page.y, 1.5, 5, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.setTextColor(...TEXT);
+  doc.text(section.name, MARGIN + 4, page.y + 4);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(...MUTED);
+  doc.text(`${data.rows.length} ${data.rows.length === 1 ? 'row' : 'rows'}`, page.width - MARGIN, page.y + 4, { align: 'right' });
+  page.y += 7;
+
+  if (!data.columns.length || !data.rows.length) {
+    page.write('No entries', 9, { color: MUTED, gap: 6 });
+    return;
+  }
+
+  doc.autoTable({
+    head: [data.columns.map(formatColumnHeader)],
+    body: data.rows.map(row => data.columns.map(col => getCellText(col, row.values[col.id], items))),
+    foot: getTotalsRow(data),
+    startY: page.y,
+    margin: { left: MARGIN, right: MARGIN, top: MARGIN, bottom: MARGIN + FOOTER_SPACE },
+    theme: 'grid',
+    styles: { fontSize: 8, cellPadding: 1.5, overflow: 'linebreak' },
+    headStyles: { fillColor: color, textColor: [255, 255, 255], fontStyle: 'bold' },
+    footStyles: { fillColor: [241, 245, 249], textColor: TEXT, fontStyle: 'bold' },
+    showFoot: 'lastPage',
+    rowPageBreak: 'avoid'
+  });
+  page.y = doc.lastAutoTable.finalY + 8;
+};
+
+// Who approved the log, from its status history
+const getApproval = (log: StockLog) => log.status === LogStatus.APPROVED ? getStatusChange(log) : undefined;
+
+const drawSignatures = (page: PageWriter, log: StockLog) => {
+  const { doc } = page;
+  const boxHeight = 28;
+  const gap = 8;
+  const boxWidth = (page.contentWidth - gap) / 2;
+  page.ensureSpace(boxHeight + 4);
+  const top = page.y;
+  const created = log.createdAt ? new Date(log.createdAt).toLocaleDateString(undefined, { dateStyle: 'medium' }) : '';
+
+  const approval = getApproval(log);
+  const blocks = [
+    { title: 'Prepared by', name: log.author, note: created && `Created ${created}` },
+    { title: 'Checked by (Supervisor)', name: approval?.user ?? '', note: '' }
+  ];
+  blocks.forEach((block, index) => {
+    const left = MARGIN + index * (boxWidth + gap);
+    doc.setDrawColor(...LINE);
+    doc.setLineWidth(0.3);
+    doc.rect(left, top, boxWidth, boxHeight, 'S');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.setTextColor(...MUTED);
+    doc.text(block.title.toUpperCase(), left + 3, top + 5);
+    doc.line(left + 3, top + boxHeight - 9, left + boxWidth - 3, top + boxHeight - 9);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...TEXT);
+    if (block.name) doc.text(block.name, left + 3, top + boxHeight - 5);
+    if (block.note) doc.text(block.note, left + boxWidth - 3, top + boxHeight - 5, { align: 'right' });
+  });
+
+  // The supervisor box is stamped once the log is approved
+  if (approval) {
+    const stamp = `Approved ${new Date(approval.at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+    const left = MARGIN + boxWidth + gap;
+    doc.setDrawColor(5, 150, 105);
+    doc.setLineWidth(0.8);
+    doc.rect(left + 6, top + 8, boxWidth - 12, 9, 'S');
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.setTextColor(5, 150, 105);
+    doc.text(stamp.toUpperCase(), left + boxWidth / 2, top + 14, { align: 'center' });
+  }
+  page.y = top + boxHeight + 8;
+};
+
+const describeAttachment = (attachment: Attachment, log: StockLog, sections: SectionDefinition[]) => {
+  const parts = [`${attachment.addedBy}, ${new Date(attachment.addedAt).toLocaleDateString()}`];
+  if (attachment.section && attachment.rowId) {
+    const index = getSectionData(log, attachment.section).rows.findIndex(r => r.id === attachment.rowId);
+    parts.unshift(`${getSectionName(sections, attachment.section)} · ${index >= 0 ? `row ${index + 1}` : 'deleted row'}`);
+  }
+  return parts.join(' · ');
+};
+
+const drawAttachments = (page: PageWriter, log: StockLog, sections: SectionDefinition[]) => {
+  const attachments = log.attachments ?? [];
+  if (!attachments.length) return;
+  const { doc } = page;
+  page.newPage();
+  page.write(`Appendix — Attachments (${formatLogDate(log)})`, 13, { bold: true, gap: 4 });
+
+  // PDFs cannot be merged into the report, so they are listed for the reader to look up
+  const documents = attachments.filter(a => !isImageAttachment(a));
+  if (documents.length) {
+    doc.autoTable({
+      head: [['Document', 'Attached to', 'Size']],
+      body: documents.map(a => [a.name, describeAttachment(a, log, sections), formatFileSize(a.size)]),
+      startY: page.y,
+      margin: { left: MARGIN, right: MARGIN, top: MARGIN, bottom: MARGIN + FOOTER_SPACE },
+      theme: 'striped',
+      styles: { fontSize: 8, cellPadding: 1.5 },
+      headStyles: { fillColor: SECTION_COLORS.slate.rgb }
+    });
+    page.y = doc.lastAutoTable.finalY + 6;
+  }
+
+  // Two photos to a portrait page, each scaled to fit its half
+  const maxHeight = (page.bottom - MARGIN) / 2 - 14;
+  attachments.filter(isImageAttachment).forEach(attachment => {
+    const size = fitImage(doc, attachment.data, page.contentWidth, maxHeight);
+    page.ensureSpace(size.height + 12);
+    page.write(attachment.name, 9, { bold: true, gap: 0 });
+    page.write(describeAttachment(attachment, log, sections), 7, { color: MUTED });
+    doc.addImage(attachment.data, 'JPEG', MARGIN, page.y, size.width, size.height);
+    page.y += size.height + 6;
+  });
+};
+
+const drawLog = (page: PageWriter, log: StockLog, sections: SectionDefinition[], settings: PdfSettings, options: PdfExportOptions) => {
+  drawCompanyHeader(page, settings);
+  drawLogTitle(page, log);
+  getLogSections(log, sections).forEach(section => drawSection(page, log, section, options.items ?? []));
+  if (settings.signatures) drawSignatures(page, log);
+  if (options.includeAttachments) drawAttachments(page, log, sections);
+};
+
+// Page numbers are added last, once the page count is known
+const drawFooters = (doc: PdfDocument, page: PageWriter, settings: PdfSettings) => {
+  const pages = doc.getNumberOfPages();
+  const printed = `Printed ${new Date().toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`;
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(...MUTED);
+    const y = page.height - MARGIN + 2;
+    doc.text(settings.companyName ? `${settings.companyName} · ${printed}` : printed, MARGIN, y);
+    doc.text(`Page ${i} of ${pages}`, page.width - MARGIN, y, { align: 'right' });
+  }
+};
+
+const formatDay = (isoDay: string) => parseIsoDate(isoDay)?.toLocaleDateString(undefined, { dateStyle: 'medium' }) ?? isoDay;
+
+const getFileSuffix = (log: StockLog) => `${log.date}${log.shift ? `-${log.shift}` : ''}`;
+
+/** Saves one log as a PDF report, with every section's table and totals. */
+export const exportLogToPDF = (log: StockLog, sections: SectionDefinition[], options: PdfExportOptions = {}) => {
+  const settings = options.settings ?? DEFAULT_PDF_SETTINGS;
+  const doc = createDocument(settings);
+  const page = new PageWriter(doc);
+  drawLog(page, log, sections, settings, options);
+  drawFooters(doc, page, settings);
+  doc.save(`stock-log-${getFileSuffix(log)}.pdf`);
+};
+
+/** Logs whose day falls within `from`–`to` (ISO dates, both included), oldest first. */
+export const getLogsInRange = (logs: StockLog[], from: string, to: string) =>
+  logs.filter(l => l.date >= from && l.date <= to).sort(compareLogs);
+
+/**
+ * Saves every log in a date range to one PDF: an overview table first, then each log
+ * on its own pages.
+ */
+export const exportLogsToPDF = (
+  logs: StockLog[],
+  sections: SectionDefinition[],
+  from: string,
+  to: string,
+  options: PdfExportOptions = {}
+) => {
+  const selected = getLogsInRange(logs, from, to);
+  if (!selected.length) throw new PdfError('There are no logs in this date range.');
+  const settings = options.settings ?? DEFAULT_PDF_SETTINGS;
+  const doc = createDocument(settings);
+  const page = new PageWriter(doc);
+
+  drawCompanyHeader(page, settings);
+  page.write(`Stock Logs — ${formatDay(from)} to ${formatDay(to)}`, 15, { bold: true });
+  page.write(`${selected.length} ${selected.length === 1 ? 'log' : 'logs'}`, 9, { color: MUTED, gap: 5 });
+  doc.autoTable({
+    head: [['Date', 'Author', 'Status', 'Rows', 'Attachments']],
+    body: selected.map(log => [
+      formatLogDate(log),
+      log.author,
+      STATUS_LABELS[log.status],
+      String(Object.values(log.sections).reduce((sum, data) => sum + data.rows.length, 0)),
+      String(log.attachments?.length ?? 0)
+    ]),
+    startY: page.y,
+    margin: { left: MARGIN, right: MARGIN, top: MARGIN, bottom: MARGIN + FOOTER_SPACE },
+    theme: 'striped',
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fillColor: SECTION_COLORS.slate.rgb }
+  });
+
+  selected.forEach(log => {
+    page.newPage();
+    drawLog(page, log, sections, settings, options);
+  });
+  drawFooters(doc, page, settings);
+  doc.save(`stock-logs-${from}-to-${to}.pdf`);
+};
@@ -0,0 +1,67 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChangeKind, LogStatus, StockLog, User, UserRole } from './types';
+import { getLogDeleteError, getLogWriteError } from './permissions';
+
+const OPERATOR: User = { name: 'Asha', role: UserRole.OPERATOR };
+const SUPERVISOR: User = { name: 'Ravi', role: UserRole.SUPERVISOR };
+const ADMIN: User = { name: 'Meena', role: UserRole.ADMIN };
+
+const draft: StockLog = { id: '1', date: '2026-10-01', author: OPERATOR.name, status: LogStatus.DRAFT, sections: {} };
+const submitted: StockLog = {
+  ...draft,
+  status: LogStatus.SUBMITTED,
+  statusHistory: [{ status: LogStatus.SUBMITTED, user: OPERATOR.name, at: 1 }]
+};
+const approved: StockLog = {
+  ...submitted,
+  status: LogStatus.APPROVED,
+  statusHistory: [...submitted.statusHistory!, { status: LogStatus.APPROVED, user: SUPERVISOR.name, at: 2 }]
+};
+
+test('a new log can only be a draft or submitted by its author', () => {
+  assert.equal(getLogWriteError(OPERATOR, undefined, draft), null);
+  assert.equal(getLogWriteError(OPERATOR, undefined, submitted), null);
+  assert.notEqual(getLogWriteError(OPERATOR, undefined, approved), null);
+  assert.notEqual(getLogWriteError(OPERATOR, undefined, { ...submitted, statusHistory: [] }), null);
+  assert.notEqual(getLogWriteError(SUPERVISOR, undefined, draft), null);
+});
+
+test('a new log only has changes made by its author', () => {
+  const history = [{ id: 'c1', kind: ChangeKind.CELL, user: SUPERVISOR.name, at: 1 }];
+  assert.notEqual(getLogWriteError(OPERATOR, undefined, { ...draft, history }), null);
+});
+
+test('only admins delete submitted and approved logs', () => {
+  assert.equal(getLogDeleteError(OPERATOR, draft), null);
+  assert.notEqual(getLogDeleteError(OPERATOR, submitted), null);
+  assert.notEqual(getLogDeleteError(OPERATOR, approved), null);
+  assert.notEqual(getLogDeleteError(SUPERVISOR, draft), null);
+  assert.equal(getLogDeleteError(ADMIN, approved), null);
+});
+
+test('review steps cannot be rewritten or dropped', () => {
+  const reopened: StockLog = {
+    ...approved,
+    status: LogStatus.REOPENED,
+    statusHistory: [...approved.statusHistory!, { status: LogStatus.REOPENED, user: SUPERVISOR.name, at: 3, comment: 'Recount' }]
+  };
+  const resubmit = (statusHistory: StockLog['statusHistory']) => ({
+    ...reopened,
+    status: LogStatus.SUBMITTED,
+    statusHistory: [...statusHistory!, { status: LogStatus.SUBMITTED, user: OPERATOR.name, at: 4 }]
+  });
+  assert.equal(getLogWriteError(OPERATOR, reopened, resubmit(reopened.statusHistory)), null);
+  assert.notEqual(getLogWriteError(OPERATOR, reopened, resubmit(reopened.statusHistory!.slice(0, 1))), null);
+  const edited = reopened.statusHistory!.map(step => ({ ...step, comment: undefined }));
+  assert.notEqual(getLogWriteError(OPERATOR, reopened, resubmit(edited)), null);
+});
+
+test('each new review step must be one the writer may make', () => {
+  const withdrawn = [...submitted.statusHistory!, { status: LogStatus.DRAFT, user: OPERATOR.name, at: 2 }];
+  const again = { ...submitted, statusHistory: [...withdrawn, { status: LogStatus.SUBMITTED, user: OPERATOR.name, at: 3 }] };
+  assert.equal(getLogWriteError(OPERATOR, draft, again), null);
+  const selfApproved = { ...approved, statusHistory: [...submitted.statusHistory!, { status: LogStatus.APPROVED, user: OPERATOR.name, at: 2 }] };
+  assert.notEqual(getLogWriteError(OPERATOR, submitted, selfApproved), null);
+});
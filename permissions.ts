@@ -0,0 +1,174 @@
+
+import { LogStatus, StockLog, User, UserRole } from './types';
+
+// Shared by the app and the sync server so both enforce the same ownership and role rules
+
+type MaybeUser = User | null | undefined;
+
+const isReviewer = (user: MaybeUser) =>
+  user?.role === UserRole.SUPERVISOR || user?.role === UserRole.ADMIN;
+
+// Submitted logs wait for review and approved ones are final; the others are still being worked on
+const EDITABLE_STATUSES = [LogStatus.DRAFT, LogStatus.REJECTED, LogStatus.REOPENED];
+
+/** Statuses that need a comment saying why */
+export const COMMENTED_STATUSES = [LogStatus.REJECTED, LogStatus.REOPENED];
+
+export const isEditableStatus = (status: LogStatus) => EDITABLE_STATUSES.includes(status);
+
+export const canEditLog = (user: MaybeUser, log: StockLog) =>
+  !!user && isEditableStatus(log.status) && log.author === user.name;
+
+// A log is always reviewed by someone other than its author
+const canReviewLog = (user: MaybeUser, log: StockLog) => isReviewer(user) && user?.name !== log.author;
+
+/**
+ * Authors submit their logs and can withdraw them until they are reviewed. A supervisor or admin
+ * other than the author approves or rejects a submitted log, and can reopen an approved one.
+ */
+export const canChangeStatus = (user: MaybeUser, log: StockLog, status: LogStatus) => {
+  if (!user) return false;
+  const isAuthor = log.author === user.name;
+  switch (status) {
+    case LogStatus.SUBMITTED:
+      return isAuthor && isEditableStatus(log.status);
+    case LogStatus.DRAFT:
+      return isAuthor && log.status === LogStatus.SUBMITTED;
+    case LogStatus.APPROVED:
+    case LogStatus.REJECTED:
+      return canReviewLog(user, log) && log.status === LogStatus.SUBMITTED;
+    case LogStatus.REOPENED:
+      return canReviewLog(user, log) && log.status === LogStatus.APPROVED;
+  }
+};
+
+export const getAvailableStatuses = (user: MaybeUser, log: StockLog) =>
+  Object.values(LogStatus).filter(status => canChangeStatus(user, log, status));
+
+// Once a log is submitted it is part of the record, and only an admin can take it out again
+export const canDeleteLog = (user: MaybeUser, log: StockLog) =>
+  !!user && ((log.author === user.name && isEditableStatus(log.status)) || user.role === UserRole.ADMIN);
+
+export const canManageUsers = (user: MaybeUser) => user?.role === UserRole.ADMIN;
+
+export const canManageCatalogue = (user: MaybeUser) => isReviewer(user);
+
+export const canManageSections = (user: MaybeUser) => isReviewer(user);
+
+export const canManageAlertRules = (user: MaybeUser) => isReviewer(user);
+
+// A backup holds every user's PIN hash, and restoring one can overwrite everything on the device
+export const canManageBackups = (user: MaybeUser) => user?.role === UserRole.ADMIN;
+
+// Reviewing a log only changes its status, so it does not count as editing the log's content.
+// The status and change histories are checked on their own
+const SYNC_FIELDS = new Set(['status', 'statusHistory', 'updatedAt', 'revision', 'history']);
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as object)
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const contentOf = (log: StockLog) =>
+  stableStringify(Object.fromEntries(Object.entries(log).filter(([k]) => !SYNC_FIELDS.has(k))));
+
+// Review steps are kept as they were made. Each new one must be a change the writer may make,
+// in turn, since an author working offline can submit, withdraw and submit again
+const getStatusChangeError = (user: User, existing: StockLog, incoming: StockLog): string | null => {
+  const earlier = existing.statusHistory ?? [];
+  const steps = incoming.statusHistory ?? [];
+  if (stableStringify(steps.slice(0, earlier.length)) !== stableStringify(earlier)) {
+    return 'The status history of a log cannot be rewritten';
+  }
+  let log = existing;
+  for (const step of steps.slice(earlier.length)) {
+    if (step.user !== user.name) return 'The status change was not recorded';
+    if (!canChangeStatus(user, log, step.status)) {
+      return log.author === user.name && [LogStatus.APPROVED, LogStatus.REJECTED].includes(step.status)
+        ? 'A log must be reviewed by someone other than its author'
+        : `${user.name} cannot change this log from ${log.status} to ${step.status}`;
+    }
+    if (COMMENTED_STATUSES.includes(step.status) && !step.comment?.trim()) return `A log can only be ${step.status} with a comment`;
+    log = { ...log, status: step.status };
+  }
+  return log.status === incoming.status ? null : 'The status change was not recorded';
+};
+
+// The change history is the log's audit trail: a write may add the writer's own changes to it,
+// in any order since edits made offline are merged in by time, but may not alter or drop any
+const getHistoryError = (user: User, existing: StockLog, incoming: StockLog): string | null => {
+  const incomingChanges = new Map((incoming.history ?? []).map(c => [c.id, c]));
+  const existingIds = new Set((existing.history ?? []).map(c => c.id));
+  if ((existing.history ?? []).some(c => stableStringify(c) !== stableStringify(incomingChanges.get(c.id)))) {
+    return 'The change history of a log cannot be rewritten';
+  }
+  if ((incoming.history ?? []).some(c => !existingIds.has(c.id) && c.user !== user.name)) {
+    return 'Changes can only be recorded under the name of the person making them';
+  }
+  return null;
+};
+
+// A new log can only be as far along as its author can take it alone: a draft, or submitted
+const AUTHOR_STATUSES = [LogStatus.DRAFT, LogStatus.SUBMITTED];
+
+const getNewLogError = (user: User, incoming: StockLog): string | null => {
+  if (incoming.author !== user.name) return 'New logs must be created by their author';
+  const steps = incoming.statusHistory ?? [];
+  const last = steps[steps.length - 1];
+  if (
+    !AUTHOR_STATUSES.includes(incoming.status) || (last?.status ?? LogStatus.DRAFT) !== incoming.status ||
+    steps.some(step => step.user !== user.name || !AUTHOR_STATUSES.includes(step.status))
+  ) {
+    return 'A new log can only be a draft or submitted by its author';
+  }
+  if ((incoming.history ?? []).some(c => c.user !== user.name)) {
+    return 'Changes can only be recorded under the name of the person making them';
+  }
+  return null;
+};
+
+/**
+ * Decides whether `user` may replace `existing` with `incoming`.
+ * Returns the reason for refusing, or null when the write is allowed.
+ */
+export const getLogWriteError = (user: User, existing: StockLog | undefined, incoming: StockLog): string | null => {
+  if (!existing) return getNewLogError(user, incoming);
+  if (incoming.author !== existing.author) return 'The author of a log cannot be changed';
+  const historyRefusal = getStatusChangeError(user, existing, incoming) ?? getHistoryError(user, existing, incoming);
+  if (historyRefusal) return historyRefusal;
+  // Nothing is dropped from the history, so a longer one has changes added to it
+  const changesContent = contentOf(existing) !== contentOf(incoming) ||
+    (incoming.history?.length ?? 0) > (existing.history?.length ?? 0);
+
+  if (incoming.status !== existing.status) {
+    // Edits made offline are saved together with the submission that followed them
+    return changesContent && !canEditLog(user, existing) ? `This log is ${existing.status} and cannot be edited` : null;
+  }
+  if (!isEditableStatus(existing.status)) return `This log is ${existing.status} and cannot be edited`;
+  if (!canEditLog(user, existing)) return `This log belongs to ${existing.author}`;
+  return null;
+};
+
+export const getLogDeleteError = (user: User, existing: StockLog): string | null => {
+  if (canDeleteLog(user, existing)) return null;
+  return existing.author === user.name
+    ? `This log is ${existing.status}; only an admin can delete it`
+    : `This log belongs to ${existing.author}`;
+};
+
+/** Admins may change anyone; everyone else may only change their own PIN. */
+export const getUserWriteError = (user: User, existing: User | undefined, incoming: User): string | null => {
+  if (canManageUsers(user)) return null;
+  if (!existing || existing.name !== user.name) return 'Only admins can add or change users';
+  if (incoming.role !== existing.role || !!incoming.disabled !== !!existing.disabled) {
+    return 'Only admins can change roles';
+  }
+  return null;
+};
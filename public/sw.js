@@ -0,0 +1,65 @@
+
+// Service worker for StockLog. Caches the app shell and the CDN scripts, styles and
+// fonts it loads so the app opens without a connection. Log data lives in IndexedDB and
+// reaches the sync server through the app's own outbox, so data requests are never cached.
+
+// Bump when the caching rules change; caches with another name are dropped on activate
+const CACHE = 'stocklog-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+const CACHED_DESTINATIONS = ['script', 'style', 'font', 'image', 'manifest'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks a waiting worker to take over once the user agrees to reload
+self.addEventListener('message', (event) => {
+  if (event.data === 'skip-waiting') self.skipWaiting();
+});
+
+const fetchAndCache = async (request) => {
+  const response = await fetch(request);
+  // CDN files loaded without CORS come back opaque; they are still worth keeping
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const isStaticAsset = (request, url) =>
+  url.origin === self.location.origin
+    ? url.pathname.startsWith('/assets/') || SHELL.includes(url.pathname)
+    : CACHED_DESTINATIONS.includes(request.destination);
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: network first so a new deploy shows up straight away, the cached shell offline
+  if (request.mode === 'navigate') {
+    event.respondWith(fetchAndCache(request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  if (!isStaticAsset(request, url)) return;
+
+  // Assets: the cached copy at once, refreshed in the background for next time
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      const refresh = fetchAndCache(request);
+      if (!cached) return refresh;
+      event.waitUntil(refresh.catch(() => undefined));
+      return cached;
+    })
+  );
+});
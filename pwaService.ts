@@ -0,0 +1,33 @@
+
+/** Chrome's install prompt event, which TypeScript's DOM types do not include yet. */
+export interface InstallPromptEvent extends Event {
+  prompt(): Promise<void>;
+  userChoice: Promise<{ outcome: 'accepted' | 'dismissed' }>;
+}
+
+/**
+ * Registers the service worker in production builds; the dev server's modules change on
+ * every save and must not be cached. `onUpdateReady` is called when a new version has been
+ * downloaded while an older one still controls the page.
+ */
+export const registerServiceWorker = async (onUpdateReady: (worker: ServiceWorker) => void) => {
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  const registration = await navigator.serviceWorker.register('/sw.js');
+  if (registration.waiting && navigator.serviceWorker.controller) onUpdateReady(registration.waiting);
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) onUpdateReady(worker);
+    });
+  });
+};
+
+/** Lets the waiting worker take over and reloads once it does. */
+export const applyUpdate = (worker: ServiceWorker) => {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  worker.postMessage('skip-waiting');
+};
+
+export const isInstalledApp = () =>
+  window.matchMedia('(display-mode: standalone)').matches ||
+  (navigator as Navigator & { standalone?: boolean }).standalone === true;
@@ -0,0 +1,55 @@
+
+import { ChangeKind, LogStatus, StatusChange, StockLog } from './types';
+
+export const STATUS_LABELS: Record<LogStatus, string> = {
+  [LogStatus.DRAFT]: 'Draft',
+  [LogStatus.SUBMITTED]: 'Submitted',
+  [LogStatus.APPROVED]: 'Approved',
+  [LogStatus.REJECTED]: 'Rejected',
+  [LogStatus.REOPENED]: 'Reopened'
+};
+
+// Full class names so Tailwind picks them up
+export const STATUS_BADGES: Record<LogStatus, string> = {
+  [LogStatus.DRAFT]: 'bg-slate-100 text-slate-500',
+  [LogStatus.SUBMITTED]: 'bg-blue-50 text-blue-600',
+  [LogStatus.APPROVED]: 'bg-emerald-50 text-emerald-600',
+  [LogStatus.REJECTED]: 'bg-red-50 text-red-600',
+  [LogStatus.REOPENED]: 'bg-amber-50 text-amber-600'
+};
+
+/** What the button making each change says */
+export const STATUS_ACTIONS: Record<LogStatus, string> = {
+  [LogStatus.DRAFT]: 'Withdraw',
+  [LogStatus.SUBMITTED]: 'Submit for Review',
+  [LogStatus.APPROVED]: 'Approve',
+  [LogStatus.REJECTED]: 'Reject',
+  [LogStatus.REOPENED]: 'Reopen'
+};
+
+/** Moves the log to `status`, recording who did it and why. */
+export const changeStatus = (log: StockLog, status: LogStatus, user: string, comment?: string, at = Date.now()): StockLog => {
+  const step: StatusChange = { status, user, at };
+  if (comment?.trim()) step.comment = comment.trim();
+  return { ...log, status, statusHistory: [...(log.statusHistory ?? []), step] };
+};
+
+/** The step that last moved the log to `status`, or to its current status. */
+export const getStatusChange = (log: StockLog, status = log.status): StatusChange | undefined =>
+  [...(log.statusHistory ?? [])].reverse().find(c => c.status === status);
+
+/**
+ * Logs used to be locked by their author, which did not mean anyone had checked them, so a
+ * locked log becomes submitted and waits for review. The last lock in its history becomes the submission.
+ */
+export const upgradeLegacyStatus = (log: StockLog): StockLog => {
+  if (log.status) return log;
+  const { isLocked, ...rest } = log as StockLog & { isLocked?: boolean };
+  if (!isLocked) return { ...rest, status: LogStatus.DRAFT };
+  const lock = [...(log.history ?? [])].reverse().find(c => c.kind === ChangeKind.LOCK && c.newValue === 'locked');
+  return {
+    ...rest,
+    status: LogStatus.SUBMITTED,
+    statusHistory: lock ? [{ status: LogStatus.SUBMITTED, user: lock.user, at: lock.at }] : []
+  };
+};
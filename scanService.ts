@@ -0,0 +1,180 @@
+
+import jsQR from 'jsqr';
+import { ColumnType, Item, SectionData, TableColumn, TableRow } from './types';
+import { getColumnType } from './columnUtils';
+import { computeSection } from './formulaUtils';
+import { matchItem } from './itemService';
+
+/** Anything a frame can be read from: the live camera, a photo or a drawn canvas. */
+export type ScanSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export interface CodeDecoder {
+  /** The first code found in the frame, or null when there is none. */
+  decode: (source: ScanSource) => Promise<string | null>;
+  /** True when only QR codes can be read, i.e. the browser has no barcode detector. */
+  qrOnly: boolean;
+}
+
+/** The cell a scan fills; without one the scan adds a row. */
+export interface ScanTarget {
+  rowId: string;
+  columnId: string;
+}
+
+export interface ScanResult {
+  data: SectionData;
+  rowId: string;
+  item?: Item;
+}
+
+// Chrome and Android ship BarcodeDetector; TypeScript's DOM types do not include it yet
+interface BarcodeDetectorLike {
+  detect: (source: ScanSource) => Promise<{ rawValue: string }[]>;
+}
+
+interface BarcodeDetectorClass {
+  new (options: { formats: string[] }): BarcodeDetectorLike;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+// Bale and cone labels are printed as QR codes or as one of these linear barcodes
+const BARCODE_FORMATS = ['qr_code', 'code_128', 'code_39', 'code_93', 'ean_13', 'ean_8', 'upc_a', 'upc_e', 'itf', 'codabar', 'data_matrix'];
+
+// Large photos are scaled down first; QR modules stay readable and decoding stays quick
+const MAX_DECODE_SIZE = 1280;
+
+const getSize = (source: ScanSource) => {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  if (source instanceof HTMLImageElement) return { width: source.naturalWidth, height: source.naturalHeight };
+  return { width: source.width, height: source.height };
+};
+
+const createQrDecoder = (): CodeDecoder => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  return {
+    qrOnly: true,
+    decode: async (source) => {
+      const { width, height } = getSize(source);
+      if (!context || !width || !height) return null;
+      const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(width, height));
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      context.drawImage(source, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      return jsQR(image.data, image.width, image.height)?.data ?? null;
+    }
+  };
+};
+
+/** The browser's barcode detector where there is one, otherwise a QR-only decoder. */
+export const createDecoder = async (): Promise<CodeDecoder> => {
+  const Detector = (window as Window & { BarcodeDetector?: BarcodeDetectorClass }).BarcodeDetector;
+  if (Detector) {
+    try {
+      const supported = await Detector.getSupportedFormats();
+      const formats = BARCODE_FORMATS.filter(f => supported.includes(f));
+      if (formats.length) {
+        const detector = new Detector({ formats });
+        return {
+          qrOnly: !formats.some(f => f !== 'qr_code'),
+          decode: async (source) => (await detector.detect(source))[0]?.rawValue ?? null
+        };
+      }
+    } catch {
+      // Some builds expose the class without a working backend
+    }
+  }
+  return createQrDecoder();
+};
+
+/** Reads a code from a photo, the same way a camera frame is read. */
+export const decodeImageFile = async (decoder: CodeDecoder, file: Blob) => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await decoder.decode(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Columns that hold the scanned code itself when no cell is focused
+const CODE_HEADER = /\b(code|barcode|qr|lot|bale|cone|serial|sku|tag)\b/i;
+
+// Text columns that take an item's details once a scan matches the catalogue
+const ITEM_FIELDS: { header: RegExp; value: (item: Item) => string | undefined }[] = [
+  { header: /^(item )?(code|sku)$/i, value: item => item.code },
+  { header: /^(item|item name|name|description|quality)$/i, value: item => item.name },
+  { header: /^categor(y|ies)$/i, value: item => item.category },
+  { header: /^units?$/i, value: item => item.unit }
+];
+
+/** Fills the empty item cells of a row and the text columns named after item details. */
+export const fillItemFields = (row: TableRow, columns: TableColumn[], item: Item): TableRow => {
+  const values = { ...row.values };
+  for (const col of columns) {
+    if (values[col.id]?.trim()) continue;
+    const type = getColumnType(col);
+    if (type === ColumnType.ITEM) {
+      values[col.id] = item.id;
+    } else if (type === ColumnType.TEXT) {
+      const value = ITEM_FIELDS.find(f => f.header.test(col.header.trim()))?.value(item);
+      if (value) values[col.id] = value;
+    }
+  }
+  return { ...row, values };
+};
+
+const getCodeColumn = (columns: TableColumn[], item: Item | undefined) => {
+  const text = columns.filter(c => getColumnType(c) === ColumnType.TEXT);
+  const itemColumn = columns.find(c => getColumnType(c) === ColumnType.ITEM);
+  // A known item goes into the item column; an unknown code is kept as text where possible
+  if (item && itemColumn) return itemColumn;
+  return text.find(c => CODE_HEADER.test(c.header)) ?? itemColumn ?? text[0];
+};
+
+/**
+ * Puts a scanned code into the section: into the target cell when there is one, otherwise
+ * into a new row. A code that matches the catalogue also fills the row's item fields.
+ */
+export const applyScannedCode = (
+  data: SectionData,
+  code: string,
+  items: Item[],
+  target?: ScanTarget | null
+): ScanResult => {
+  const value = code.trim();
+  const item = matchItem(items, value);
+  const targetRow = target && data.rows.find(r => r.id === target.rowId);
+  const targetColumn = target && data.columns.find(c => c.id === target.columnId);
+
+  let row: TableRow;
+  if (targetRow && targetColumn) {
+    const isItemCell = getColumnType(targetColumn) === ColumnType.ITEM;
+    row = { ...targetRow, values: { ...targetRow.values, [targetColumn.id]: isItemCell && item ? item.id : value } };
+  } else {
+    const column = getCodeColumn(data.columns, item);
+    row = {
+      id: Math.random().toString(36).substring(7),
+      values: column ? { [column.id]: getColumnType(column) === ColumnType.ITEM && item ? item.id : value } : {}
+    };
+  }
+  if (item) row = fillItemFields(row, data.columns, item);
+
+  const rows = targetRow && targetColumn
+    ? data.rows.map(r => r.id === row.id ? row : r)
+    : [...data.rows, row];
+  return { data: computeSection({ ...data, rows }), rowId: row.id, item };
+};
+
+const LOG_LINK_KEY = 'log';
+
+/** A link that opens the log straight away; printed as the log's QR label. */
+export const getLogLink = (logId: string) =>
+  `${window.location.origin}${window.location.pathname}#${LOG_LINK_KEY}=${encodeURIComponent(logId)}`;
+
+/** The log id in a link from getLogLink, or in just its hash part. */
+export const parseLogLink = (text: string) => {
+  const hash = text.includes('#') ? text.slice(text.indexOf('#') + 1) : '';
+  return new URLSearchParams(hash).get(LOG_LINK_KEY);
+};
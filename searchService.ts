@@ -0,0 +1,138 @@
+
+import { ColumnType, FilterCondition, FilterOperator, Item, LogFilter, StockLog, TableColumn, TableRow } from './types';
+import { getColumnType, parseIsoDate, parseNumber } from './columnUtils';
+import { getItemLabel } from './itemService';
+import { formatLogDate } from './dateService';
+
+export const SAVED_VIEWS_KEY = 'savedViews';
+
+export const EMPTY_FILTER: LogFilter = { text: '', conditions: [] };
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: 'contains',
+  equals: '=',
+  'not-equals': '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤'
+};
+
+export interface RowMatch {
+  section: string;
+  row: TableRow;
+  columns: TableColumn[];
+}
+
+export interface LogMatch {
+  log: StockLog;
+  rows: RowMatch[];
+}
+
+export const getSearchTerms = (text: string) =>
+  text.toLowerCase().split(/\s+/).filter(Boolean);
+
+const activeConditions = (filter: LogFilter) =>
+  filter.conditions.filter(c => c.column.trim() && c.value.trim());
+
+/** Terms worth marking in results: the search words plus the values rows were matched on. */
+export const getHighlightTerms = (filter: LogFilter) => [
+  ...getSearchTerms(filter.text),
+  ...activeConditions(filter).filter(c => c.operator === 'contains' || c.operator === 'equals').map(c => c.value.trim())
+];
+
+export const countActiveFilters = (filter: LogFilter) =>
+  [filter.author, filter.from, filter.to, filter.section, filter.status].filter(Boolean).length +
+  activeConditions(filter).length;
+
+export const getCellText = (col: TableColumn, value: string | undefined, items: Item[]) =>
+  getColumnType(col) === ColumnType.ITEM ? getItemLabel(items, value) : value ?? '';
+
+// Numbers compare as numbers (units included), ISO dates as dates, anything else as text
+const compare = (col: TableColumn, cell: string, wanted: string): number | null => {
+  const a = parseNumber(cell, col.unit);
+  const b = parseNumber(wanted, col.unit);
+  if (a !== null && b !== null) return a - b;
+  const dateA = parseIsoDate(cell);
+  const dateB = parseIsoDate(wanted);
+  if (dateA && dateB) return dateA.getTime() - dateB.getTime();
+  return null;
+};
+
+const matchesCondition = (col: TableColumn, cell: string, condition: FilterCondition) => {
+  const wanted = condition.value.trim();
+  const text = cell.trim().toLowerCase();
+  if (condition.operator === 'contains') return text.includes(wanted.toLowerCase());
+  const diff = compare(col, cell, wanted);
+  switch (condition.operator) {
+    case 'equals': return diff !== null ? diff === 0 : text === wanted.toLowerCase();
+    case 'not-equals': return diff !== null ? diff !== 0 : text !== wanted.toLowerCase();
+    case 'gt': return diff !== null && diff > 0;
+    case 'gte': return diff !== null && diff >= 0;
+    case 'lt': return diff !== null && diff < 0;
+    case 'lte': return diff !== null && diff <= 0;
+  }
+};
+
+const sameHeader = (col: TableColumn, header: string) =>
+  col.header.trim().toLowerCase() === header.trim().toLowerCase();
+
+/**
+ * Applies `filter` to the logs. Date, author and status filters pick logs; search words
+ * and column conditions pick rows, and a log is kept when at least one row matches.
+ * Search words found in a log's date or author count for every row of that log.
+ */
+export const searchLogs = (logs: StockLog[], filter: LogFilter, items: Item[] = []): LogMatch[] => {
+  const terms = getSearchTerms(filter.text);
+  const conditions = activeConditions(filter);
+  const results: LogMatch[] = [];
+
+  for (const log of logs) {
+    if (filter.author && log.author.toLowerCase() !== filter.author.toLowerCase()) continue;
+    if (filter.status && log.status !== filter.status) continue;
+    if (filter.from && log.date < filter.from) continue;
+    if (filter.to && log.date > filter.to) continue;
+
+    const meta = `${log.date} ${formatLogDate(log)} ${log.author}`.toLowerCase();
+    const rowTerms = terms.filter(t => !meta.includes(t));
+    const sectionIds = filter.section ? [filter.section] : Object.keys(log.sections);
+
+    if (!rowTerms.length && !conditions.length) {
+      if (!filter.section || (log.sections[filter.section]?.rows.length ?? 0) > 0) results.push({ log, rows: [] });
+      continue;
+    }
+
+    const rows: RowMatch[] = [];
+    for (const section of sectionIds) {
+      const data = log.sections[section];
+      if (!data) continue;
+      const conditionColumns = conditions.map(c => data.columns.find(col => sameHeader(col, c.column)));
+      if (conditionColumns.some(col => !col)) continue;
+
+      for (const row of data.rows) {
+        // Headers count too, so "lot 4417" finds 4417 in the Lot column
+        const cells = data.columns.map(col => `${col.header} ${getCellText(col, row.values[col.id], items)}`.toLowerCase());
+        const hasTerms = rowTerms.every(t => cells.some(cell => cell.includes(t)));
+        const meetsConditions = conditions.every((c, i) => {
+          const col = conditionColumns[i]!;
+          return matchesCondition(col, getCellText(col, row.values[col.id], items), c);
+        });
+        if (hasTerms && meetsConditions) rows.push({ section, row, columns: data.columns });
+      }
+    }
+    if (rows.length) results.push({ log, rows });
+  }
+  return results;
+};
+
+/** Every column header used in the logs, for suggesting condition columns. */
+export const getColumnHeaders = (logs: StockLog[]) => {
+  const headers = new Map<string, string>();
+  logs.forEach(log => Object.values(log.sections).forEach(data =>
+    data.columns.forEach(col => {
+      const key = col.header.trim().toLowerCase();
+      if (key && !headers.has(key)) headers.set(key, col.header.trim());
+    })
+  ));
+  return Array.from(headers.values()).sort((a, b) => a.localeCompare(b));
+};
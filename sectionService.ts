@@ -0,0 +1,89 @@
+
+import { LedgerMovement, SectionData, SectionDefinition, StockLog } from './types';
+
+export const SECTIONS_KEY = 'sections';
+
+export const EMPTY_SECTION: SectionData = { columns: [{ id: '1', header: 'Details' }], rows: [] };
+
+// Full class names so Tailwind picks them up; `rgb` is the accent for PDF reports
+export const SECTION_COLORS: Record<string, { label: string; chip: string; accent: string; rgb: [number, number, number] }> = {
+  blue: { label: 'Blue', chip: 'bg-blue-50 text-blue-600', accent: 'border-blue-600 text-blue-600', rgb: [37, 99, 235] },
+  emerald: { label: 'Green', chip: 'bg-emerald-50 text-emerald-600', accent: 'border-emerald-600 text-emerald-600', rgb: [5, 150, 105] },
+  amber: { label: 'Amber', chip: 'bg-amber-50 text-amber-600', accent: 'border-amber-600 text-amber-600', rgb: [217, 119, 6] },
+  orange: { label: 'Orange', chip: 'bg-orange-50 text-orange-600', accent: 'border-orange-600 text-orange-600', rgb: [234, 88, 12] },
+  rose: { label: 'Red', chip: 'bg-rose-50 text-rose-600', accent: 'border-rose-600 text-rose-600', rgb: [225, 29, 72] },
+  violet: { label: 'Violet', chip: 'bg-violet-50 text-violet-600', accent: 'border-violet-600 text-violet-600', rgb: [124, 58, 237] },
+  cyan: { label: 'Cyan', chip: 'bg-cyan-50 text-cyan-600', accent: 'border-cyan-600 text-cyan-600', rgb: [8, 145, 178] },
+  slate: { label: 'Grey', chip: 'bg-slate-100 text-slate-500', accent: 'border-slate-600 text-slate-600', rgb: [71, 85, 105] }
+};
+
+export const MOVEMENT_LABELS: Record<LedgerMovement, string> = {
+  received: 'Stock received',
+  consumed: 'Stock consumed',
+  dispatched: 'Stock dispatched'
+};
+
+/**
+ * The four sections every log had before sections were configurable. Their ids are the
+ * old key names, so existing logs, templates and history entries keep pointing at them.
+ */
+export const DEFAULT_SECTIONS: SectionDefinition[] = [
+  { id: 'Dori Detail', name: 'Dori Detail', icon: 'spool', color: 'blue', movement: 'received' },
+  { id: 'Warpin Detail', name: 'Warpin Detail', icon: 'layers', color: 'emerald', movement: 'received' },
+  { id: 'Bheem Detail', name: 'Bheem Detail', icon: 'cylinder', color: 'orange', movement: 'consumed' },
+  { id: 'Delivery Detail', name: 'Delivery Detail', icon: 'truck', color: 'violet', movement: 'dispatched' }
+];
+
+/** Moves the top-level section keys of a log saved before sections were configurable into `sections`. */
+export const upgradeLegacyLog = (log: StockLog): StockLog => {
+  if (log.sections) return log;
+  const legacy = { ...log } as StockLog & Record<string, unknown>;
+  const sections: Record<string, SectionData> = {};
+  DEFAULT_SECTIONS.forEach(({ id }) => {
+    if (legacy[id]) sections[id] = legacy[id] as SectionData;
+    delete legacy[id];
+  });
+  return { ...legacy, sections };
+};
+
+export const getActiveSections = (definitions: SectionDefinition[]) => definitions.filter(d => !d.archived);
+
+/**
+ * The tabs a log shows: every active section, plus archived or unknown sections
+ * (e.g. created on another device) that hold rows in this log.
+ */
+export const getLogSections = (log: StockLog, definitions: SectionDefinition[]): SectionDefinition[] => {
+  const hasRows = (id: string) => (log.sections[id]?.rows.length ?? 0) > 0;
+  const known = definitions.filter(d => !d.archived || hasRows(d.id));
+  const unknown = Object.keys(log.sections)
+    .filter(id => hasRows(id) && !definitions.some(d => d.id === id))
+    .map(id => ({ id, name: id, icon: 'layers', color: 'slate' }));
+  return [...known, ...unknown];
+};
+
+/** Sections added after a log was created simply have no table yet. */
+export const getSectionData = (log: StockLog, sectionId: string): SectionData =>
+  log.sections[sectionId] ?? EMPTY_SECTION;
+
+export const getSectionName = (definitions: SectionDefinition[], sectionId: string) =>
+  definitions.find(d => d.id === sectionId)?.name ?? sectionId;
+
+export const getShortSectionName = (section: SectionDefinition) =>
+  section.name.replace(/\s+detail$/i, '');
+
+// Ids come from the name so the same section set up on two devices lines up when syncing
+export const createSection = (name: string, definitions: SectionDefinition[]): SectionDefinition => {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'section';
+  let id = base;
+  for (let n = 2; definitions.some(d => d.id === id); n++) id = `${base}-${n}`;
+  return { id, name: name.trim(), icon: 'layers', color: 'slate' };
+};
+
+export const moveSection = (definitions: SectionDefinition[], id: string, offset: -1 | 1) => {
+  const index = definitions.findIndex(d => d.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= definitions.length) return definitions;
+  const next = [...definitions];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
@@ -0,0 +1,254 @@
+
+import { createHmac, randomBytes } from 'node:crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { StockLog, User, UserRole } from '../types';
+import { getLogDeleteError, getLogWriteError, getUserWriteError } from '../permissions';
+import { verifyPin } from '../authService';
+import { upgradeLegacyLog } from '../sectionService';
+import { upgradeLegacyDate } from '../dateService';
+import { upgradeLegacyStatus } from '../reviewService';
+import { hasLogFields, isLog, isObject, isUser } from '../fileUtils';
+
+/**
+ * Reference sync server for StockLog. Logs are kept in a single JSON file and every
+ * write bumps a global sequence number that doubles as the log's revision and as
+ * the cursor clients pull from. Requests are signed with the user's name and PIN
+ * (HTTP Basic) and checked against the accounts synced from the app. Run with `npm run sync-server`.
+ */
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = path.resolve(process.env.STOCKLOG_DATA ?? 'server/data/stocklog.json');
+// A log carries its photos and documents, so this leaves room for several of them
+const MAX_BODY_BYTES = Number(process.env.STOCKLOG_MAX_BODY_BYTES ?? 50 * 1024 * 1024);
+
+interface ServerState {
+  seq: number;
+  logs: Record<string, StockLog>;
+  deleted: Record<string, number>;
+  users: Record<string, User>;
+}
+
+const loadState = (): ServerState => {
+  if (!existsSync(DATA_FILE)) return { seq: 0, logs: {}, deleted: {}, users: {} };
+  const saved = { users: {}, ...JSON.parse(readFileSync(DATA_FILE, 'utf8')) } as ServerState;
+  Object.keys(saved.logs).forEach(id => { saved.logs[id] = upgradeLegacyStatus(upgradeLegacyDate(upgradeLegacyLog(saved.logs[id]))); });
+  return saved;
+};
+
+const state = loadState();
+
+// Write to a temp file first so a crash mid-write never leaves a truncated data file
+const saveState = () => {
+  mkdirSync(path.dirname(DATA_FILE), { recursive: true });
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(state));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+class RequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<unknown>((resolve, reject) => {
+    const tooLarge = new RequestError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    if (Number(req.headers['content-length'] ?? 0) > MAX_BODY_BYTES) return reject(tooLarge);
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop keeping the rest, but let it arrive so the refusal can still be sent
+        req.removeAllListeners('data').resume();
+        reject(tooLarge);
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch {
+        reject(new RequestError(400, 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const getField = (body: unknown, key: string) => isObject(body) ? body[key] : undefined;
+
+// PBKDF2 is deliberately slow, so remember which credentials matched which PIN hash.
+// Credentials are only kept as a keyed hash, and the oldest are dropped past the limit
+const MAX_VERIFIED_CREDENTIALS = 1000;
+const CREDENTIALS_KEY = randomBytes(32);
+const verifiedCredentials = new Map<string, { name: string; pinHash: string }>();
+
+const credentialsDigest = (name: string, pin: string) =>
+  createHmac('sha256', CREDENTIALS_KEY).update(`${name}:${pin}`).digest('hex');
+
+const rememberCredentials = (digest: string, user: User) => {
+  verifiedCredentials.delete(digest);
+  verifiedCredentials.set(digest, { name: user.name, pinHash: user.pinHash! });
+  if (verifiedCredentials.size > MAX_VERIFIED_CREDENTIALS) {
+    verifiedCredentials.delete(verifiedCredentials.keys().next().value!);
+  }
+};
+
+const forgetCredentials = (name: string) => {
+  verifiedCredentials.forEach((entry, digest) => {
+    if (entry.name === name) verifiedCredentials.delete(digest);
+  });
+};
+
+const parseCredentials = (req: IncomingMessage) => {
+  const match = String(req.headers.authorization ?? '').match(/^Basic\s+(.+)$/);
+  if (!match) return null;
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+  if (separator < 0) return null;
+  return { name: decodeURIComponent(decoded.slice(0, separator)), pin: decoded.slice(separator + 1) };
+};
+
+const authenticate = async (req: IncomingMessage): Promise<User | null> => {
+  const credentials = parseCredentials(req);
+  const user = credentials && state.users[credentials.name];
+  if (!credentials || !user || user.disabled) return null;
+  const digest = credentialsDigest(credentials.name, credentials.pin);
+  if (verifiedCredentials.get(digest)?.pinHash === user.pinHash) return user;
+  if (!(await verifyPin(user, credentials.pin))) return null;
+  rememberCredentials(digest, user);
+  return user;
+};
+
+const handlePull = (url: URL, res: ServerResponse) => {
+  const since = Number(url.searchParams.get('since') ?? 0);
+  send(res, 200, {
+    logs: Object.values(state.logs).filter(l => (l.revision ?? 0) > since),
+    deleted: Object.entries(state.deleted).filter(([, rev]) => rev > since).map(([id]) => id),
+    cursor: state.seq
+  });
+};
+
+// PIN and setup code hashes could be guessed offline, so only admins get everyone's.
+// Everyone else gets their own, and devices keep the ones they already have for the rest
+const withoutCredentials = ({ pinHash, pinSalt, setupCodeHash, setupCodeSalt, setupCodeExpiresAt, ...user }: User): User => user;
+
+const handlePullUsers = (res: ServerResponse, user?: User) => {
+  const users = Object.values(state.users).map(u =>
+    user?.role === UserRole.ADMIN || u.name === user?.name ? u : withoutCredentials(u)
+  );
+  send(res, 200, { users });
+};
+
+const handlePutUser = async (name: string, user: User, req: IncomingMessage, res: ServerResponse) => {
+  const incoming = getField(await readBody(req), 'user');
+  if (!isUser(incoming) || incoming.name !== name) return send(res, 400, { error: 'Body must contain the user being saved' });
+
+  const existing = state.users[name];
+  if (existing && (existing.updatedAt ?? 0) >= (incoming.updatedAt ?? 0)) return send(res, 200, { user: existing });
+  const refusal = getUserWriteError(user, existing, incoming);
+  if (refusal) return send(res, 403, { error: refusal });
+
+  if (existing?.pinHash !== incoming.pinHash) forgetCredentials(name);
+  state.users[name] = incoming;
+  saveState();
+  send(res, 200, { user: incoming });
+};
+
+// A server without accounts accepts its first admin, signed with that admin's own PIN
+const bootstrapAdmin = async (req: IncomingMessage, url: URL) => {
+  const credentials = parseCredentials(req);
+  const match = url.pathname.match(/^\/users\/([^/]+)$/);
+  if (!credentials || !match || req.method !== 'PUT') return null;
+  const user = getField(await readBody(req), 'user');
+  if (!isUser(user) || user.name !== credentials.name || user.role !== UserRole.ADMIN) return null;
+  if (!(await verifyPin(user, credentials.pin))) return null;
+  state.users[user.name] = user;
+  saveState();
+  return user;
+};
+
+const handlePut = async (id: string, user: User, req: IncomingMessage, res: ServerResponse) => {
+  const incoming = getField(await readBody(req), 'log');
+  if (!hasLogFields(incoming) || getField(incoming, 'id') !== id) {
+    return send(res, 400, { error: 'Body must contain the log being saved' });
+  }
+  // Compared against the stored copy field by field, so both must be in the current shape
+  const log = upgradeLegacyStatus(upgradeLegacyDate(upgradeLegacyLog(incoming as StockLog)));
+  if (!isLog(log)) return send(res, 400, { error: 'The log is incomplete' });
+
+  const existing = state.logs[id];
+  if (existing?.revision !== log.revision) {
+    return send(res, 409, { error: 'Log was changed on another device', log: existing ?? null });
+  }
+  const refusal = getLogWriteError(user, existing, log);
+  if (refusal) return send(res, 403, { error: refusal, log: existing ?? null });
+
+  const saved: StockLog = { ...log, revision: ++state.seq };
+  state.logs[id] = saved;
+  delete state.deleted[id];
+  saveState();
+  send(res, 200, { log: saved });
+};
+
+const handleDelete = (id: string, user: User, url: URL, res: ServerResponse) => {
+  const existing = state.logs[id];
+  if (!existing) return send(res, 200, {});
+  if (existing.revision !== Number(url.searchParams.get('baseRevision'))) {
+    return send(res, 409, { error: 'Log was changed on another device', log: existing });
+  }
+  const refusal = getLogDeleteError(user, existing);
+  if (refusal) return send(res, 403, { error: refusal, log: existing });
+
+  delete state.logs[id];
+  state.deleted[id] = ++state.seq;
+  saveState();
+  send(res, 200, {});
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+  try {
+    if (!Object.keys(state.users).length) {
+      if (req.method === 'GET' && url.pathname === '/users') return handlePullUsers(res);
+      const admin = await bootstrapAdmin(req, url);
+      return admin
+        ? send(res, 200, { user: admin })
+        : send(res, 401, { error: 'This server has no users yet; sync from an admin account first' });
+    }
+
+    const user = await authenticate(req);
+    if (!user) return send(res, 401, { error: 'Unknown user or wrong PIN' });
+
+    if (req.method === 'GET' && url.pathname === '/logs') return handlePull(url, res);
+    if (req.method === 'GET' && url.pathname === '/users') return handlePullUsers(res, user);
+    const userMatch = url.pathname.match(/^\/users\/([^/]+)$/);
+    if (userMatch && req.method === 'PUT') return await handlePutUser(decodeURIComponent(userMatch[1]), user, req, res);
+    const match = url.pathname.match(/^\/logs\/([^/]+)$/);
+    const id = match && decodeURIComponent(match[1]);
+    if (id && req.method === 'PUT') return await handlePut(id, user, req, res);
+    if (id && req.method === 'DELETE') return handleDelete(id, user, url, res);
+    send(res, 404, { error: 'Not found' });
+  } catch (err) {
+    send(res, err instanceof RequestError ? err.status : 400, { error: (err as Error).message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`StockLog sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,222 @@
+
+import * as XLSX from 'xlsx';
+import { ColumnType, Item, SectionData, SectionDefinition, StockLog, TableColumn, TableRow } from './types';
+import {
+  formatColumnHeader, getColumnType, normalizeCellValue, parseIsoDate, parseNumber, validateCellValue
+} from './columnUtils';
+import { computeSection } from './formulaUtils';
+import { getItemLabel, matchItem } from './itemService';
+import { getSectionData } from './sectionService';
+import { downloadBlob } from './fileUtils';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export interface ParsedSheet {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/** For each file column: the id of the table column it fills, NEW_COLUMN, or null to skip it. */
+export type ColumnMapping = (string | null)[];
+
+export const NEW_COLUMN = '__new__';
+
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ImportResult {
+  data: SectionData;
+  importedRows: TableRow[];
+  errors: ImportRowError[];
+  skippedRows: number;
+}
+
+export interface ImportOptions {
+  replaceRows: boolean;
+  skipInvalidRows: boolean;
+}
+
+const randomId = () => Math.random().toString(36).substring(7);
+
+const fileName = (log: StockLog, suffix: string, format: SpreadsheetFormat) =>
+  `StockLog_${log.date}${log.shift ? `_${log.shift}` : ''}${suffix ? `_${suffix.replace(/\s+/g, '_')}` : ''}.${format}`;
+
+// Numbers go out as numbers so spreadsheets can total them; everything else as displayed
+const exportValue = (col: TableColumn, value: string | undefined, items: Item[]): string | number => {
+  const type = getColumnType(col);
+  if (!value) return '';
+  if (type === ColumnType.ITEM) return getItemLabel(items, value);
+  if (type === ColumnType.NUMBER || type === ColumnType.FORMULA) return parseNumber(value, col.unit) ?? value;
+  return value;
+};
+
+const sectionToSheet = (data: SectionData, items: Item[]) =>
+  XLSX.utils.aoa_to_sheet([
+    data.columns.map(formatColumnHeader),
+    ...data.rows.map(row => data.columns.map(col => exportValue(col, row.values[col.id], items)))
+  ]);
+
+// Excel rejects sheet names over 31 characters, with []:*?/\ in them, or used twice
+const sheetName = (name: string, taken: string[]) => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let candidate = base;
+  for (let n = 2; taken.includes(candidate.toLowerCase()); n++) candidate = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+  taken.push(candidate.toLowerCase());
+  return candidate;
+};
+
+// The byte-order mark makes Excel open the CSV as UTF-8
+const downloadText = (text: string, name: string) =>
+  downloadBlob(new Blob([`\uFEFF${text}`], { type: 'text/csv;charset=utf-8' }), name);
+
+export const exportSection = (log: StockLog, section: SectionDefinition, format: SpreadsheetFormat, items: Item[] = []) => {
+  const sheet = sectionToSheet(getSectionData(log, section.id), items);
+  if (format === 'csv') {
+    downloadText(XLSX.utils.sheet_to_csv(sheet), fileName(log, section.name, format));
+    return;
+  }
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName(section.name, []));
+  XLSX.writeFile(workbook, fileName(log, section.name, format));
+};
+
+/** XLSX gets one sheet per section; CSV has no sheets, so sections follow each other under a title line. */
+export const exportLog = (log: StockLog, sections: SectionDefinition[], format: SpreadsheetFormat, items: Item[] = []) => {
+  if (format === 'csv') {
+    const blocks = sections.map(section =>
+      `${section.name}\n${XLSX.utils.sheet_to_csv(sectionToSheet(getSectionData(log, section.id), items))}`
+    );
+    downloadText(blocks.join('\n\n'), fileName(log, '', format));
+    return;
+  }
+  const workbook = XLSX.utils.book_new();
+  const taken: string[] = [];
+  sections.forEach(section =>
+    XLSX.utils.book_append_sheet(workbook, sectionToSheet(getSectionData(log, section.id), items), sheetName(section.name, taken))
+  );
+  XLSX.writeFile(workbook, fileName(log, '', format));
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toCellText = (value: unknown): string => {
+  if (value instanceof Date) return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  return value === null || value === undefined ? '' : String(value).trim();
+};
+
+/**
+ * Reads every sheet of a CSV or Excel file. CSV is read as plain text so codes
+ * like "007" keep their leading zeros; Excel dates come back as ISO dates.
+ */
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet[]> => {
+  const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+  return workbook.SheetNames.map(name => {
+    const table = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '' });
+    const [headerRow = [], ...rows] = table;
+    return {
+      name,
+      headers: headerRow.map(toCellText),
+      rows: rows.map(r => r.map(toCellText))
+    };
+  }).filter(sheet => sheet.headers.length > 0);
+};
+
+const sameHeader = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Matches file headers to existing columns by name (with or without the unit); the rest become new columns. */
+export const suggestMapping = (headers: string[], columns: TableColumn[]): ColumnMapping => {
+  const used = new Set<string>();
+  return headers.map(header => {
+    if (!header) return null;
+    const match = columns.find(c =>
+      getColumnType(c) !== ColumnType.FORMULA && !used.has(c.id) &&
+      (sameHeader(c.header, header) || sameHeader(formatColumnHeader(c), header))
+    );
+    if (!match) return NEW_COLUMN;
+    used.add(match.id);
+    return match.id;
+  });
+};
+
+// New columns get the narrowest type every value in the file fits
+const inferColumnType = (values: string[]): ColumnType => {
+  const filled = values.filter(Boolean);
+  if (!filled.length) return ColumnType.TEXT;
+  if (filled.every(v => parseNumber(v) !== null)) return ColumnType.NUMBER;
+  if (filled.every(v => parseIsoDate(v))) return ColumnType.DATE;
+  return ColumnType.TEXT;
+};
+
+const importValue = (col: TableColumn, raw: string, items: Item[]) =>
+  getColumnType(col) === ColumnType.ITEM ? matchItem(items, raw)?.id ?? raw : normalizeCellValue(col, raw);
+
+/**
+ * Works out what importing `sheet` into `data` would do without changing anything,
+ * so the result can be previewed. Row numbers in errors are spreadsheet rows (header = 1).
+ */
+export const buildImport = (
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  data: SectionData,
+  items: Item[],
+  options: ImportOptions
+): ImportResult => {
+  const targets = mapping.map((target, index): TableColumn | null => {
+    if (target === NEW_COLUMN) {
+      return {
+        id: randomId(),
+        header: sheet.headers[index] || `Column ${index + 1}`,
+        type: inferColumnType(sheet.rows.map(r => r[index] ?? ''))
+      };
+    }
+    return data.columns.find(c => c.id === target) ?? null;
+  });
+  const newColumns = targets.filter((col, index): col is TableColumn => !!col && mapping[index] === NEW_COLUMN);
+  const columns = [...data.columns, ...newColumns];
+
+  const errors: ImportRowError[] = [];
+  const importedRows: TableRow[] = [];
+  let skippedRows = 0;
+
+  sheet.rows.forEach((cells, index) => {
+    if (!cells.some(Boolean)) return;
+    const values: Record<string, string> = {};
+    targets.forEach((col, i) => {
+      if (col && cells[i]) values[col.id] = importValue(col, cells[i], items);
+    });
+    const rowErrors = columns
+      .filter(col => getColumnType(col) !== ColumnType.FORMULA)
+      .map(col => {
+        const error = validateCellValue(col, values[col.id], items);
+        return error && `${col.header}: ${error}`;
+      })
+      .filter((e): e is string => !!e);
+
+    if (rowErrors.length) {
+      errors.push({ row: index + 2, message: rowErrors.join('; ') });
+      if (options.skipInvalidRows) {
+        skippedRows++;
+        return;
+      }
+    }
+    importedRows.push({ id: randomId(), values });
+  });
+
+  return {
+    data: computeSection({
+      ...data,
+      columns,
+      rows: options.replaceRows ? importedRows : [...data.rows, ...importedRows]
+    }),
+    importedRows,
+    errors,
+    skippedRows
+  };
+};
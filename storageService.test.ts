@@ -0,0 +1,51 @@
+
+import 'fake-indexeddb/auto';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChangeKind, LogStatus } from './types';
+import { storage } from './storageService';
+
+const CREATED_AT = Date.UTC(2023, 10, 14, 9);
+
+// A log as version 3 stored it: sections at the top level, a locale date and the locked flag
+const VERSION_3_LOG = {
+  id: String(CREATED_AT),
+  date: '14/11/2023',
+  author: 'Asha',
+  isLocked: true,
+  'Dori Detail': { columns: [{ id: 'weight', header: 'Weight', type: 'number' }], rows: [{ id: 'r1', values: { weight: '12' } }] },
+  history: [{ id: 'c1', kind: ChangeKind.LOCK, user: 'Asha', at: CREATED_AT + 1000, newValue: 'locked' }]
+};
+
+const createVersion3Database = () =>
+  new Promise<void>((resolve, reject) => {
+    const request = indexedDB.open('stocklog', 3);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore('logs', { keyPath: 'id' }).put(VERSION_3_LOG);
+      db.createObjectStore('users', { keyPath: 'name' });
+      db.createObjectStore('templates', { keyPath: 'id' });
+      db.createObjectStore('items', { keyPath: 'id' });
+      db.createObjectStore('settings');
+      db.createObjectStore('outbox', { keyPath: 'logId' });
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+test('upgrading from version 3 applies every log upgrade since', async () => {
+  await createVersion3Database();
+  const [log] = await storage.logs.getAll();
+  const legacy = log as typeof log & Record<string, unknown>;
+
+  assert.equal(legacy['Dori Detail'], undefined);
+  assert.equal(log.sections['Dori Detail'].rows[0].values.weight, '12');
+  assert.match(log.date, /^\d{4}-\d{2}-\d{2}$/);
+  assert.equal(log.createdAt, CREATED_AT);
+  assert.equal(legacy.isLocked, undefined);
+  assert.equal(log.status, LogStatus.SUBMITTED);
+  assert.deepEqual(log.statusHistory, [{ status: LogStatus.SUBMITTED, user: 'Asha', at: CREATED_AT + 1000 }]);
+});
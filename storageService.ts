@@ -0,0 +1,342 @@
+
+import { Item, OutboxEntry, SectionTemplate, StockLog, User, UserRole } from './types';
+import { upgradeLegacyLog } from './sectionService';
+import { upgradeLegacyDate } from './dateService';
+import { upgradeLegacyStatus } from './reviewService';
+
+const DB_NAME = 'stocklog';
+
+type StoreName = 'logs' | 'users' | 'templates' | 'items' | 'settings' | 'outbox';
+
+/**
+ * Profiles from the old name-only picker have no role. Whoever was signed in on this
+ * device (or else the first name alphabetically) becomes the admin, everyone else an operator.
+ */
+const assignInitialRoles = (users: User[], signedInName?: string): User[] => {
+  if (!users.length || users.some(u => u.role === UserRole.ADMIN)) {
+    return users.map(u => u.role ? u : { ...u, role: UserRole.OPERATOR });
+  }
+  const adminName = users.some(u => u.name === signedInName)
+    ? signedInName
+    : users.map(u => u.name).sort()[0];
+  return users.map(u => u.role ? u : { ...u, role: u.name === adminName ? UserRole.ADMIN : UserRole.OPERATOR });
+};
+
+/**
+ * Upgrades keyed by the schema version they produce. The database version is the
+ * highest key here or in `LOG_UPGRADES`, so a new migration is all it takes to bump the stored schema.
+ * Each step receives the versionchange transaction and may rewrite existing records.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore('logs', { keyPath: 'id' });
+    db.createObjectStore('users', { keyPath: 'name' });
+    db.createObjectStore('templates', { keyPath: 'id' });
+    db.createObjectStore('items', { keyPath: 'id' });
+    db.createObjectStore('settings');
+  },
+  2: (db) => {
+    db.createObjectStore('outbox', { keyPath: 'logId' });
+  },
+  3: (_db, tx) => {
+    // Sign-in now needs a PIN, so the remembered profile is dropped once roles are assigned
+    const settingsStore = tx.objectStore('settings');
+    const usersStore = tx.objectStore('users');
+    const signedIn = settingsStore.get('currentUser');
+    signedIn.onsuccess = () => {
+      const users = usersStore.getAll();
+      users.onsuccess = () => {
+        assignInitialRoles(users.result as User[], signedIn.result).forEach(u => usersStore.put(u));
+      };
+      settingsStore.delete('currentUser');
+    };
+  },
+};
+
+/**
+ * Rewrites of stored logs, keyed the same way. Requests in the upgrade transaction all run
+ * before any of their results come back, so separate passes would each read the logs as they
+ * were and undo each other; instead every step still needed is applied in one pass.
+ */
+const LOG_UPGRADES: Record<number, (log: StockLog) => StockLog> = {
+  // Section tables moved from fixed top-level keys into `sections`
+  4: upgradeLegacyLog,
+  // Locale date strings become ISO dates, with the creation time kept separately
+  5: upgradeLegacyDate,
+  // The locked flag became a review status
+  6: upgradeLegacyStatus
+};
+
+export const SCHEMA_VERSION = Math.max(...[...Object.keys(MIGRATIONS), ...Object.keys(LOG_UPGRADES)].map(Number));
+
+const upgradeStoredLogs = (tx: IDBTransaction, oldVersion: number) => {
+  const steps = Object.keys(LOG_UPGRADES).map(Number)
+    .filter(version => version > oldVersion)
+    .sort((a, b) => a - b)
+    .map(version => LOG_UPGRADES[version]);
+  if (!steps.length) return;
+  const logsStore = tx.objectStore('logs');
+  const logs = logsStore.getAll();
+  logs.onsuccess = () => {
+    (logs.result as StockLog[]).forEach(l => logsStore.put(steps.reduce((log, step) => step(log), l)));
+  };
+};
+
+// The keys App kept everything under before IndexedDB
+const LEGACY_KEYS = {
+  logs: 'stocklog_logs',
+  users: 'stocklog_users',
+  items: 'stocklog_items',
+  currentUser: 'stocklog_current_user'
+};
+
+const MIGRATED_FLAG = 'localStorageMigrated';
+
+export class StorageError extends Error {}
+
+export interface Repository<T> {
+  getAll(): Promise<T[]>;
+  get(key: string): Promise<T | undefined>;
+  put(record: T): Promise<void>;
+  putMany(records: T[]): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteIf(key: string, predicate: (record: T) => boolean): Promise<void>;
+}
+
+export interface SettingsStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError(request.error?.message ?? 'IndexedDB request failed'));
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new StorageError(tx.error?.message ?? 'IndexedDB transaction failed'));
+    tx.onabort = () => reject(new StorageError(tx.error?.message ?? 'IndexedDB transaction aborted'));
+  });
+
+let reportBlocked: (error: StorageError | null) => void = () => undefined;
+
+/**
+ * Tells `onBlocked` when a storage upgrade has to wait for StockLog to close in other tabs,
+ * and again with null once it has gone ahead.
+ */
+export const watchBlockedUpgrade = (onBlocked: (error: StorageError | null) => void) => {
+  reportBlocked = onBlocked;
+};
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    let blocked = false;
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction!;
+      for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+        MIGRATIONS[version]?.(request.result, tx);
+      }
+      upgradeStoredLogs(tx, event.oldVersion);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      if (blocked) reportBlocked(null);
+      // Let a newer version open in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(new StorageError(request.error?.message ?? 'Could not open the database'));
+    request.onblocked = () => {
+      blocked = true;
+      reportBlocked(new StorageError('StockLog is open in another tab. Close it there so storage can be updated.'));
+    };
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().catch(err => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await getDatabase();
+  const tx = db.transaction(store, mode);
+  const request = run(tx.objectStore(store));
+  const [result] = await Promise.all([request ? requestToPromise(request) : undefined, transactionDone(tx)]);
+  return result;
+};
+
+const createRepository = <T>(store: StoreName): Repository<T> => ({
+  getAll: async () => (await withStore<T[]>(store, 'readonly', s => s.getAll())) ?? [],
+  get: (key) => withStore<T>(store, 'readonly', s => s.get(key)),
+  put: async (record) => {
+    await withStore(store, 'readwrite', s => s.put(record));
+  },
+  putMany: async (records) => {
+    await withStore(store, 'readwrite', s => {
+      records.forEach(r => s.put(r));
+    });
+  },
+  delete: async (key) => {
+    await withStore(store, 'readwrite', s => s.delete(key));
+  },
+  // Checks and deletes in one transaction so a write landing in between is never lost
+  deleteIf: async (key, predicate) => {
+    await withStore(store, 'readwrite', s => {
+      const request = s.get(key);
+      request.onsuccess = () => {
+        if (request.result !== undefined && predicate(request.result)) s.delete(key);
+      };
+    });
+  }
+});
+
+const settings: SettingsStore = {
+  get: <T>(key: string) => withStore<T>('settings', 'readonly', s => s.get(key)),
+  set: async (key, value) => {
+    await withStore('settings', 'readwrite', s => s.put(value, key));
+  },
+  remove: async (key) => {
+    await withStore('settings', 'readwrite', s => s.delete(key));
+  }
+};
+
+export const storage = {
+  logs: createRepository<StockLog>('logs'),
+  users: createRepository<User>('users'),
+  templates: createRepository<SectionTemplate>('templates'),
+  items: createRepository<Item>('items'),
+  outbox: createRepository<OutboxEntry>('outbox'),
+  settings
+};
+
+/** Everything the app keeps on this device apart from the sync outbox. */
+export interface StorageSnapshot {
+  logs: StockLog[];
+  users: User[];
+  templates: SectionTemplate[];
+  items: Item[];
+  settings: Record<string, unknown>;
+}
+
+const SNAPSHOT_STORES: StoreName[] = ['logs', 'users', 'templates', 'items', 'settings', 'outbox'];
+
+export const readSnapshot = async (): Promise<StorageSnapshot> => {
+  const [logs, users, templates, items, keys, values] = await Promise.all([
+    storage.logs.getAll(),
+    storage.users.getAll(),
+    storage.templates.getAll(),
+    storage.items.getAll(),
+    withStore<IDBValidKey[]>('settings', 'readonly', s => s.getAllKeys()),
+    withStore<unknown[]>('settings', 'readonly', s => s.getAll())
+  ]);
+  const settingsEntries = (keys ?? []).map((key, i) => [String(key), values?.[i]] as const);
+  return { logs, users, templates, items, settings: Object.fromEntries(settingsEntries.filter(([key]) => key !== MIGRATED_FLAG)) };
+};
+
+/**
+ * Writes `snapshot` in a single transaction, so a restore that fails part way leaves
+ * nothing behind. With `replace` the stores are emptied first. Every log written is
+ * queued to sync on top of the revision it was restored at.
+ */
+export const writeSnapshot = async (snapshot: StorageSnapshot, replace: boolean): Promise<void> => {
+  const db = await getDatabase();
+  const tx = db.transaction(SNAPSHOT_STORES, 'readwrite');
+  if (replace) {
+    SNAPSHOT_STORES.forEach(name => tx.objectStore(name).clear());
+    tx.objectStore('settings').put(true, MIGRATED_FLAG);
+  }
+  snapshot.logs.forEach(l => {
+    tx.objectStore('logs').put(l);
+    tx.objectStore('outbox').put({ logId: l.id, op: 'put', updatedAt: l.updatedAt, baseRevision: l.revision });
+  });
+  snapshot.users.forEach(u => tx.objectStore('users').put(u));
+  snapshot.templates.forEach(t => tx.objectStore('templates').put(t));
+  snapshot.items.forEach(i => tx.objectStore('items').put(i));
+  Object.entries(snapshot.settings).forEach(([key, value]) => tx.objectStore('settings').put(value, key));
+  await transactionDone(tx);
+};
+
+/**
+ * Holds writes back so that a burst of them, like typing in a table, becomes one write of
+ * the latest value per key once `delay` ms pass without another.
+ */
+export const createWriteBuffer = <T>(write: (value: T) => Promise<void>, delay: number, onError: (err: Error) => void) => {
+  const pending = new Map<string, { value: T; timer: ReturnType<typeof setTimeout> }>();
+  const run = (key: string) => {
+    const entry = pending.get(key);
+    if (!entry) return Promise.resolve();
+    clearTimeout(entry.timer);
+    pending.delete(key);
+    return write(entry.value);
+  };
+  return {
+    schedule: (key: string, value: T) => {
+      clearTimeout(pending.get(key)?.timer);
+      pending.set(key, { value, timer: setTimeout(() => run(key).catch(onError), delay) });
+    },
+    cancel: (key: string) => {
+      clearTimeout(pending.get(key)?.timer);
+      pending.delete(key);
+    },
+    /** Writes everything still waiting, e.g. before syncing or when the page is hidden */
+    flush: async () => {
+      await Promise.all(Array.from(pending.keys()).map(run));
+    }
+  };
+};
+
+const readLegacy = <T>(key: string): T | undefined => {
+  const raw = localStorage.getItem(key);
+  return raw ? JSON.parse(raw) as T : undefined;
+};
+
+/**
+ * Copies the old `stocklog_*` localStorage keys into IndexedDB in a single transaction.
+ * The keys are only cleared once that transaction has committed, so a failed or
+ * interrupted migration is simply retried on the next load.
+ */
+export const migrateFromLocalStorage = async (): Promise<void> => {
+  const db = await getDatabase();
+  const alreadyMigrated = await settings.get<boolean>(MIGRATED_FLAG);
+
+  if (!alreadyMigrated) {
+    const logs = readLegacy<StockLog[]>(LEGACY_KEYS.logs) ?? [];
+    const users = readLegacy<User[]>(LEGACY_KEYS.users) ?? [];
+    const items = readLegacy<Item[]>(LEGACY_KEYS.items) ?? [];
+    const currentUser = readLegacy<User>(LEGACY_KEYS.currentUser);
+    // Keep the signed-in profile even if its entry was missing from the users key
+    if (currentUser && !users.some(u => u.name === currentUser.name)) users.push(currentUser);
+
+    const tx = db.transaction(['logs', 'users', 'items', 'settings'], 'readwrite');
+    logs.forEach(l => tx.objectStore('logs').put(upgradeLegacyStatus(upgradeLegacyDate(upgradeLegacyLog(l)))));
+    assignInitialRoles(users, currentUser?.name).forEach(u => tx.objectStore('users').put(u));
+    items.forEach(i => tx.objectStore('items').put(i));
+    tx.objectStore('settings').put(true, MIGRATED_FLAG);
+    await transactionDone(tx);
+  }
+
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
@@ -0,0 +1,289 @@
+
+import { StockLog, User, UserRole } from './types';
+import { storage } from './storageService';
+import { rebaseHistory } from './historyService';
+import { upgradeLegacyLog } from './sectionService';
+import { upgradeLegacyDate } from './dateService';
+import { upgradeLegacyStatus } from './reviewService';
+import { hasLogFields, isObject, isUser } from './fileUtils';
+
+export const SYNC_CURSOR_KEY = 'syncCursor';
+export const SYNC_URL_KEY = 'syncServerUrl';
+
+export interface PullResult {
+  logs: StockLog[];
+  deleted: string[];
+  cursor: number;
+}
+
+export type PushResult =
+  | { status: 'ok'; log?: StockLog }
+  | { status: 'conflict'; log: StockLog | null }
+  | { status: 'rejected'; reason: string; log: StockLog | null };
+
+/** Anything that can store shared logs. `revision` on a log is the server revision it was based on. */
+export interface SyncBackend {
+  pull(since: number): Promise<PullResult>;
+  push(log: StockLog): Promise<PushResult>;
+  remove(logId: string, baseRevision: number): Promise<PushResult>;
+  pullUsers(): Promise<User[]>;
+  pushUser(user: User): Promise<boolean>;
+}
+
+export interface SyncConflict {
+  logId: string;
+  local: StockLog | null;
+  remote: StockLog | null;
+  reason?: string;
+}
+
+export interface SyncResult {
+  updated: StockLog[];
+  removed: string[];
+  conflicts: SyncConflict[];
+  users: User[];
+}
+
+export class SyncError extends Error {}
+
+const upgradeRemoteLog = (log: StockLog) => upgradeLegacyStatus(upgradeLegacyDate(upgradeLegacyLog(log)));
+
+const getField = (body: unknown, key: string) => isObject(body) ? body[key] : undefined;
+
+const getErrorMessage = (body: unknown, status: number) => {
+  const error = getField(body, 'error');
+  return typeof error === 'string' ? error : `Sync server responded with ${status}`;
+};
+
+const readRemoteLog = (value: unknown) => hasLogFields(value) ? upgradeRemoteLog(value as StockLog) : null;
+
+const getList = (body: unknown, key: string) => {
+  const list = getField(body, key);
+  if (!Array.isArray(list)) throw new SyncError(`Sync server sent no ${key} list`);
+  return list as unknown[];
+};
+
+export class HttpSyncBackend implements SyncBackend {
+  constructor(private baseUrl: string, private user: User, private pin: string) {}
+
+  private async request(path: string, init: RequestInit = {}) {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          // btoa only takes Latin-1, so names are percent-encoded first
+          'Authorization': `Basic ${btoa(`${encodeURIComponent(this.user.name)}:${this.pin}`)}`,
+          ...init.headers
+        }
+      });
+    } catch (err) {
+      throw new SyncError(`Sync server unreachable: ${(err as Error).message}`);
+    }
+    const body: unknown = await response.json().catch(() => ({}));
+    return { status: response.status, body };
+  }
+
+  // Devices that have not updated yet still push logs in the old shape
+  private toPushResult({ status, body }: { status: number; body: unknown }): PushResult {
+    const log = readRemoteLog(getField(body, 'log'));
+    if (status === 200) return { status: 'ok', log: log ?? undefined };
+    if (status === 409) return { status: 'conflict', log };
+    if (status === 403) return { status: 'rejected', reason: getErrorMessage(body, status), log };
+    throw new SyncError(getErrorMessage(body, status));
+  }
+
+  async pull(since: number): Promise<PullResult> {
+    const { status, body } = await this.request(`/logs?since=${since}`);
+    if (status !== 200) throw new SyncError(getErrorMessage(body, status));
+    const cursor = getField(body, 'cursor');
+    if (typeof cursor !== 'number') throw new SyncError('Sync server sent no cursor');
+    return {
+      logs: getList(body, 'logs').map(readRemoteLog).filter((l): l is StockLog => !!l),
+      deleted: getList(body, 'deleted').filter((id): id is string => typeof id === 'string'),
+      cursor
+    };
+  }
+
+  async push(log: StockLog): Promise<PushResult> {
+    return this.toPushResult(await this.request(`/logs/${encodeURIComponent(log.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ log })
+    }));
+  }
+
+  async remove(logId: string, baseRevision: number): Promise<PushResult> {
+    return this.toPushResult(await this.request(
+      `/logs/${encodeURIComponent(logId)}?baseRevision=${baseRevision}`,
+      { method: 'DELETE' }
+    ));
+  }
+
+  async pullUsers(): Promise<User[]> {
+    const { status, body } = await this.request('/users');
+    if (status !== 200) throw new SyncError(getErrorMessage(body, status));
+    return getList(body, 'users').filter(isUser);
+  }
+
+  async pushUser(user: User): Promise<boolean> {
+    const { status, body } = await this.request(`/users/${encodeURIComponent(user.name)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ user })
+    });
+    if (status === 403) return false;
+    if (status !== 200) throw new SyncError(getErrorMessage(body, status));
+    return true;
+  }
+}
+
+/** Records that a log needs pushing. Logs that were never synced are always pushed on the next run. */
+export const queueLogChange = (log: StockLog) =>
+  storage.outbox.put({ logId: log.id, op: 'put', updatedAt: log.updatedAt });
+
+export const countPendingChanges = async () => (await storage.outbox.getAll()).length;
+
+export const queueLogDelete = async (log: StockLog) => {
+  if (log.revision === undefined) {
+    await storage.outbox.delete(log.id);
+  } else {
+    await storage.outbox.put({ logId: log.id, op: 'delete', baseRevision: log.revision });
+  }
+};
+
+// Only admins are sent everyone's PIN hashes. Other devices keep the ones they have so
+// the people sharing them can still sign in offline; a PIN is never removed, only changed
+const withLocalCredentials = (remote: User, local: User | undefined): User =>
+  remote.pinHash || !local ? remote : {
+    ...remote, pinHash: local.pinHash, pinSalt: local.pinSalt,
+    setupCodeHash: local.setupCodeHash, setupCodeSalt: local.setupCodeSalt, setupCodeExpiresAt: local.setupCodeExpiresAt
+  };
+
+/**
+ * Brings user accounts in line with the server, newest `updatedAt` winning. Local changes
+ * the server refuses are left as they are and simply tried again next time.
+ */
+const syncUsers = async (backend: SyncBackend): Promise<User[]> => {
+  const remoteUsers = await backend.pullUsers();
+  const localUsers = await storage.users.getAll();
+  const updated: User[] = [];
+
+  // Admins go first so a fresh server has someone allowed to accept the other accounts
+  const byRole = [...localUsers].sort((a, b) => Number(b.role === UserRole.ADMIN) - Number(a.role === UserRole.ADMIN));
+  for (const local of byRole) {
+    const remote = remoteUsers.find(u => u.name === local.name);
+    if (!remote || (local.updatedAt ?? 0) > (remote.updatedAt ?? 0)) await backend.pushUser(local);
+  }
+  for (const remote of remoteUsers) {
+    const local = localUsers.find(u => u.name === remote.name);
+    if (!local || (remote.updatedAt ?? 0) > (local.updatedAt ?? 0)) {
+      const user = withLocalCredentials(remote, local);
+      await storage.users.put(user);
+      updated.push(user);
+    }
+  }
+  return updated;
+};
+
+/**
+ * Syncs user accounts first so the server knows about roles and PINs changed on this
+ * device, then pushes local log changes and pulls everything the server has seen since the last run.
+ * A pulled log never overwrites one with unpushed local edits; both copies are
+ * reported as a conflict instead.
+ */
+export const runSync = async (backend: SyncBackend): Promise<SyncResult> => {
+  const result: SyncResult = { updated: [], removed: [], conflicts: [], users: await syncUsers(backend) };
+  const outbox = await storage.outbox.getAll();
+  const localLogs = await storage.logs.getAll();
+  const pending = new Set(outbox.map(e => e.logId));
+
+  const toPush = [
+    ...outbox,
+    ...localLogs
+      .filter(l => l.revision === undefined && !pending.has(l.id))
+      .map(l => ({ logId: l.id, op: 'put' as const, updatedAt: l.updatedAt }))
+  ];
+
+  for (const entry of toPush) {
+    const local = localLogs.find(l => l.id === entry.logId) ?? null;
+    let response: PushResult;
+    if (entry.op === 'delete') {
+      response = await backend.remove(entry.logId, entry.baseRevision ?? 0);
+    } else if (local) {
+      response = await backend.push(local);
+    } else {
+      await storage.outbox.delete(entry.logId);
+      continue;
+    }
+
+    if (response.status !== 'ok') {
+      result.conflicts.push({
+        logId: entry.logId,
+        local,
+        remote: response.log,
+        reason: response.status === 'rejected' ? response.reason : undefined
+      });
+      continue;
+    }
+
+    await storage.outbox.deleteIf(entry.logId, e => e.op === entry.op && e.updatedAt === entry.updatedAt);
+    if (entry.op === 'put' && response.log) {
+      // Keep edits made while the push was in flight; they are now based on the new revision
+      const current = await storage.logs.get(entry.logId);
+      const saved = current && current.updatedAt !== local?.updatedAt
+        ? { ...current, revision: response.log.revision }
+        : response.log;
+      await storage.logs.put(saved);
+      result.updated.push(saved);
+    }
+  }
+
+  const cursor = (await storage.settings.get<number>(SYNC_CURSOR_KEY)) ?? 0;
+  const pulled = await backend.pull(cursor);
+  const stillPending = new Set((await storage.outbox.getAll()).map(e => e.logId));
+
+  for (const remote of pulled.logs) {
+    const local = await storage.logs.get(remote.id);
+    if (local?.revision === remote.revision) continue;
+    if (local && stillPending.has(remote.id)) {
+      if (!result.conflicts.some(c => c.logId === remote.id)) {
+        result.conflicts.push({ logId: remote.id, local, remote });
+      }
+      continue;
+    }
+    await storage.logs.put(remote);
+    result.updated.push(remote);
+  }
+
+  for (const id of pulled.deleted) {
+    if (stillPending.has(id)) continue;
+    await storage.logs.delete(id);
+    result.removed.push(id);
+  }
+
+  await storage.settings.set(SYNC_CURSOR_KEY, pulled.cursor);
+  return result;
+};
+
+/**
+ * Resolves a conflict by pushing the local copy on top of the server's current revision.
+ * Changes recorded on the other device stay in the history, and changes the server already
+ * has stay as it has them even if they were merged with later typing here.
+ */
+export const keepLocalCopy = (conflict: SyncConflict): StockLog | null =>
+  conflict.local && {
+    ...conflict.local,
+    revision: conflict.remote?.revision,
+    updatedAt: Date.now(),
+    history: rebaseHistory(conflict.remote?.history, conflict.local.history, conflict.remote?.revision)
+  };
+
+/** Resolves a conflict by discarding local edits in favour of the server copy. */
+export const takeRemoteCopy = async (conflict: SyncConflict) => {
+  await storage.outbox.delete(conflict.logId);
+  if (conflict.remote) {
+    await storage.logs.put(conflict.remote);
+  } else {
+    await storage.logs.delete(conflict.logId);
+  }
+};
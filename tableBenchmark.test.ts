@@ -0,0 +1,82 @@
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ColumnType, LogStatus, SectionData, StockLog, TableColumn } from './types';
+import { countInvalidCells } from './columnUtils';
+import { computeSection } from './formulaUtils';
+import { setCellValue } from './gridUtils';
+import { appendChanges, diffLogs } from './historyService';
+import { EMPTY_UNDO_STACK, pushChanges } from './undoService';
+
+// Guards typing in long tables against slowing down again. A keystroke takes a few ms today;
+// recomputing every formula or revalidating every cell on each one goes over the budget.
+const ROW_COUNT = 5000;
+const KEYSTROKES = 200;
+const BUDGET_MS_PER_KEYSTROKE = 10;
+
+const COLUMNS: TableColumn[] = [
+  { id: 'lot', header: 'Lot', type: ColumnType.TEXT },
+  { id: 'count', header: 'Count', type: ColumnType.NUMBER },
+  { id: 'weight', header: 'Weight', type: ColumnType.NUMBER, unit: 'kg' },
+  { id: 'shade', header: 'Shade', type: ColumnType.CHOICE, options: ['Red', 'Blue', 'Grey'] },
+  { id: 'total', header: 'Total', type: ColumnType.FORMULA, formula: 'Count * Weight' }
+];
+
+const buildSection = (rows: number): SectionData => computeSection({
+  columns: COLUMNS,
+  rows: Array.from({ length: rows }, (_, i) => ({
+    id: `row-${i}`,
+    values: { lot: `L${i}`, count: String(i % 40), weight: String(10 + (i % 7)), shade: ['Red', 'Blue', 'Grey'][i % 3] }
+  }))
+});
+
+const buildLog = (): StockLog => ({
+  id: '1',
+  date: '2026-10-01',
+  author: 'Asha',
+  status: LogStatus.DRAFT,
+  sections: { dori: buildSection(ROW_COUNT), delivery: buildSection(ROW_COUNT / 5) }
+});
+
+// Everything the app does for one keystroke in a cell, apart from rendering
+const typeIntoCell = (log: StockLog, rowId: string, value: string, stack = EMPTY_UNDO_STACK) => {
+  const section = computeSection(setCellValue(log.sections.dori, rowId, 'weight', value));
+  const next = { ...log, sections: { ...log.sections, dori: section } };
+  const invalid = section.rows.reduce((count, row) => count + countInvalidCells(row, section.columns), 0);
+  const changes = diffLogs(log, next);
+  return { log: appendChanges(next, changes, 'Asha'), stack: pushChanges(stack, changes), invalid };
+};
+
+test('typing replaces only the edited row', () => {
+  const log = buildLog();
+  const { log: next } = typeIntoCell(log, 'row-2500', '42');
+  const before = log.sections.dori.rows;
+  const after = next.sections.dori.rows;
+  assert.equal(after[2500].values.weight, '42');
+  assert.equal(after[2500].values.total, String(42 * (2500 % 40)));
+  assert.ok(after.every((row, i) => i === 2500 || row === before[i]));
+  assert.equal(next.sections.delivery, log.sections.delivery);
+});
+
+test(`${KEYSTROKES} keystrokes in a ${ROW_COUNT}-row table stay within budget`, t => {
+  let state = { log: buildLog(), stack: EMPTY_UNDO_STACK, invalid: 0 };
+  // Warms the per-row caches the way opening the table does
+  state = typeIntoCell(state.log, 'row-10', '1', state.stack);
+
+  const started = performance.now();
+  for (let i = 0; i < KEYSTROKES; i++) {
+    state = typeIntoCell(state.log, 'row-10', String(i), state.stack);
+  }
+  const perKeystroke = (performance.now() - started) / KEYSTROKES;
+  t.diagnostic(`${perKeystroke.toFixed(2)} ms per keystroke`);
+
+  assert.equal(state.invalid, 0);
+  assert.equal(state.log.sections.dori.rows[10].values.weight, String(KEYSTROKES - 1));
+  // Typing in one cell is recorded and undone as a single change
+  assert.equal(state.log.history?.length, 1);
+  assert.equal(state.stack.past.length, 1);
+  assert.ok(
+    perKeystroke < BUDGET_MS_PER_KEYSTROKE,
+    `a keystroke took ${perKeystroke.toFixed(2)} ms on average, over the ${BUDGET_MS_PER_KEYSTROKE} ms budget`
+  );
+});
@@ -0,0 +1,94 @@
+
+import { LogStatus, SectionData, SectionDefinition, SectionTemplate, StockLog } from './types';
+import { computeSection } from './formulaUtils';
+import { EMPTY_SECTION, getActiveSections } from './sectionService';
+import { today } from './dateService';
+import { downloadBlob, hasStringFields, isObject, isSectionData } from './fileUtils';
+
+export const DEFAULT_TEMPLATES_KEY = 'defaultTemplates';
+
+const FILE_FORMAT = 'stocklog-templates';
+const FILE_VERSION = 1;
+
+/** Which template new logs start from, per section. */
+export type DefaultTemplates = Record<string, string>;
+
+export class TemplateError extends Error {}
+
+const randomId = () => Math.random().toString(36).substring(2, 10);
+
+export const createTemplate = (name: string, section: string, data: SectionData, includeRows: boolean): SectionTemplate => ({
+  id: randomId(),
+  name: name.trim(),
+  section,
+  columns: JSON.parse(JSON.stringify(data.columns)),
+  rows: includeRows ? data.rows.map(r => ({ id: r.id, values: { ...r.values } })) : []
+});
+
+/** A fresh copy of the template's layout; rows get new ids so two logs never share one. */
+export const instantiateTemplate = (template: SectionTemplate | undefined): SectionData => {
+  if (!template) return JSON.parse(JSON.stringify(EMPTY_SECTION));
+  return computeSection({
+    columns: JSON.parse(JSON.stringify(template.columns)),
+    rows: template.rows.map(r => ({ id: randomId(), values: { ...r.values } }))
+  });
+};
+
+/**
+ * Builds an empty log for `author` whose sections start from the given templates
+ * (usually the defaults); other sections get a single "Details" column.
+ */
+export const buildLogFromTemplates = (
+  author: string,
+  sections: SectionDefinition[],
+  templates: SectionTemplate[],
+  chosen: DefaultTemplates
+): StockLog => ({
+  id: Date.now().toString(),
+  date: today(),
+  createdAt: Date.now(),
+  author,
+  status: LogStatus.DRAFT,
+  updatedAt: Date.now(),
+  sections: Object.fromEntries(getActiveSections(sections).map(({ id }) => [
+    id,
+    instantiateTemplate(templates.find(t => t.id === chosen[id] && t.section === id))
+  ]))
+});
+
+export const exportTemplates = (templates: SectionTemplate[]) => {
+  const json = JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, templates }, null, 2);
+  downloadBlob(
+    new Blob([json], { type: 'application/json' }),
+    templates.length === 1 ? `${templates[0].name.replace(/[^\w-]+/g, '_')}.template.json` : 'StockLog_templates.json'
+  );
+};
+
+export const isTemplate = (value: unknown): value is SectionTemplate =>
+  hasStringFields(value, 'name', 'section') && isSectionData(value);
+
+/** Reads a file written by `exportTemplates`. Imported templates get new ids so they never replace local ones. */
+export const parseTemplateFile = (text: string): SectionTemplate[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new TemplateError('The file is not valid JSON');
+  }
+  if (!isObject(parsed) || parsed.format !== FILE_FORMAT || !Array.isArray(parsed.templates)) {
+    throw new TemplateError('This is not a StockLog template file');
+  }
+  if (Number(parsed.version) > FILE_VERSION) {
+    throw new TemplateError('This template file was made by a newer version of StockLog');
+  }
+  const templates: unknown[] = parsed.templates;
+  const invalid = templates.findIndex(t => !isTemplate(t));
+  if (invalid >= 0) throw new TemplateError(`Template ${invalid + 1} in the file is incomplete`);
+  return templates.filter(isTemplate).map(t => ({
+    id: randomId(),
+    name: t.name,
+    section: t.section,
+    columns: t.columns,
+    rows: t.rows
+  }));
+};
@@ -1,14 +1,42 @@
 
-export enum LogSectionType {
-  DORI = 'Dori Detail',
-  WARPIN = 'Warpin Detail',
-  BHEEM = 'Bheem Detail',
-  DELIVERY = 'Delivery Detail'
+export type LedgerMovement = 'received' | 'consumed' | 'dispatched';
+
+/** A configurable log section. Logs keep each section's table under its `id`. */
+export interface SectionDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  movement?: LedgerMovement;
+  archived?: boolean;
+}
+
+export enum ColumnType {
+  TEXT = 'text',
+  NUMBER = 'number',
+  DATE = 'date',
+  CHOICE = 'choice',
+  FORMULA = 'formula',
+  ITEM = 'item'
+}
+
+export enum AggregateType {
+  SUM = 'sum',
+  AVERAGE = 'avg',
+  MIN = 'min',
+  MAX = 'max',
+  COUNT = 'count'
 }
 
 export interface TableColumn {
   id: string;
   header: string;
+  type?: ColumnType;
+  unit?: string;
+  options?: string[];
+  required?: boolean;
+  formula?: string;
+  aggregate?: AggregateType;
 }
 
 export interface TableRow {
@@ -16,22 +44,243 @@ export interface TableRow {
   values: Record<string, string>;
 }
 
+export interface SortConfig {
+  key: string;
+  direction: 'asc' | 'desc' | null;
+}
+
 export interface SectionData {
   columns: TableColumn[];
   rows: TableRow[];
+  totals?: Record<string, number | null>;
+}
+
+export type Shift = 'morning' | 'evening' | 'night';
+
+/** A photo or document kept as proof, e.g. a delivery challan or damaged goods. */
+export interface Attachment {
+  id: string;
+  name: string;
+  /** image/jpeg once compressed, or application/pdf */
+  type: string;
+  /** Size of `data` in bytes */
+  size: number;
+  /** The file as a data: URL, so it is stored and synced with the log */
+  data: string;
+  /** Small JPEG preview for the gallery; documents have none */
+  thumbnail?: string;
+  width?: number;
+  height?: number;
+  /** Set when the attachment belongs to one row rather than the whole log */
+  section?: string;
+  rowId?: string;
+  addedBy: string;
+  addedAt: number;
+}
+
+export enum LogStatus {
+  DRAFT = 'draft',
+  SUBMITTED = 'submitted',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  REOPENED = 'reopened'
+}
+
+/** One step of a log's review, e.g. its author submitting it or a supervisor rejecting it. */
+export interface StatusChange {
+  status: LogStatus;
+  user: string;
+  at: number;
+  /** Why it was rejected or reopened */
+  comment?: string;
 }
 
 export interface StockLog {
   id: string;
+  /** The calendar day the log is for, as an ISO date (yyyy-mm-dd) */
   date: string;
+  shift?: Shift;
+  createdAt?: number;
   author: string;
-  isLocked: boolean;
-  [LogSectionType.DORI]: SectionData;
-  [LogSectionType.WARPIN]: SectionData;
-  [LogSectionType.BHEEM]: SectionData;
-  [LogSectionType.DELIVERY]: SectionData;
+  status: LogStatus;
+  statusHistory?: StatusChange[];
+  openingStock?: Record<string, number>;
+  updatedAt?: number;
+  revision?: number;
+  history?: LogChange[];
+  sections: Record<string, SectionData>;
+  attachments?: Attachment[];
+}
+
+export enum ChangeKind {
+  CELL = 'cell',
+  ROW_ADDED = 'row-added',
+  ROW_DELETED = 'row-deleted',
+  ROWS_MOVED = 'rows-moved',
+  COLUMN_ADDED = 'column-added',
+  COLUMN_CHANGED = 'column-changed',
+  COLUMN_DELETED = 'column-deleted',
+  /** Logs were locked and unlocked before they had a review status; kept so old history still reads */
+  LOCK = 'lock',
+  OPENING_STOCK = 'opening-stock',
+  FIELD = 'field',
+  ATTACHMENT = 'attachment'
+}
+
+/**
+ * One recorded edit. Structural changes keep whatever they removed (`row`, `column`,
+ * `columnValues`) so they can be undone when viewing or reverting history.
+ */
+export interface LogChange {
+  id: string;
+  kind: ChangeKind;
+  user: string;
+  at: number;
+  section?: string;
+  rowId?: string;
+  columnId?: string;
+  columnHeader?: string;
+  field?: string;
+  oldValue?: string;
+  newValue?: string;
+  index?: number;
+  row?: TableRow;
+  column?: TableColumn;
+  previousColumn?: TableColumn;
+  columnValues?: Record<string, string>;
+  /** Row ids in order after and before a reorder */
+  rowOrder?: string[];
+  previousRowOrder?: string[];
+  /** The log's server revision when the change was made; the server may already have changes from older ones */
+  revision?: number;
+}
+
+export interface SectionTemplate {
+  id: string;
+  name: string;
+  section: string;
+  columns: TableColumn[];
+  rows: TableRow[];
+}
+
+export type FilterOperator = 'contains' | 'equals' | 'not-equals' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/** Matches rows whose column with this header (in any section) compares to `value`. */
+export interface FilterCondition {
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface LogFilter {
+  text: string;
+  author?: string;
+  /** ISO dates (yyyy-mm-dd), both inclusive */
+  from?: string;
+  to?: string;
+  section?: string;
+  status?: LogStatus;
+  conditions: FilterCondition[];
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filter: LogFilter;
+}
+
+export type AlertRuleKind = 'threshold' | 'compare' | 'required';
+
+export type ComparisonOperator = Extract<FilterOperator, 'gt' | 'gte' | 'lt' | 'lte'>;
+
+/** A condition that raises an alert on any log where it holds. */
+export interface AlertRule {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  /** Section checked; thresholds and required columns check every section when unset */
+  section?: string;
+  /** Header of the column checked by thresholds and required columns */
+  column?: string;
+  operator?: ComparisonOperator;
+  value?: number;
+  /** Thresholds only: rows for this item (catalogue id, or a name) */
+  item?: string;
+  /** Compare only: each item's total in `section` is compared with its total in this section */
+  otherSection?: string;
+  /** Blocking alerts stop the log being submitted or approved */
+  blocking: boolean;
+  enabled: boolean;
+}
+
+export interface StockAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  logId: string;
+  message: string;
+  blocking: boolean;
+  section?: string;
+  rowId?: string;
+  columnId?: string;
+}
+
+export type FindingSeverity = 'critical' | 'warning' | 'info';
+
+/** Something an analysis noticed, pointing at the cell, row or column it is about where it can. */
+export interface AnalysisFinding {
+  id: string;
+  severity: FindingSeverity;
+  title: string;
+  detail: string;
+  section?: string;
+  rowId?: string;
+  columnId?: string;
+}
+
+export interface LogAnalysis {
+  summary: string;
+  findings: AnalysisFinding[];
+  actions: string[];
+  /** Name of the analyser that produced it */
+  source: string;
+  /** Number of earlier logs the totals were compared with */
+  comparedLogs: number;
+  /** Shown above the findings, e.g. when the online analyser failed and the offline one stood in */
+  notice?: string;
+}
+
+export interface Item {
+  id: string;
+  code: string;
+  name: string;
+  unit?: string;
+  category?: string;
+  reorderLevel?: number;
+}
+
+export interface OutboxEntry {
+  logId: string;
+  op: 'put' | 'delete';
+  updatedAt?: number;
+  baseRevision?: number;
+}
+
+export enum UserRole {
+  OPERATOR = 'operator',
+  SUPERVISOR = 'supervisor',
+  ADMIN = 'admin'
 }
 
 export interface User {
   name: string;
+  role: UserRole;
+  pinHash?: string;
+  pinSalt?: string;
+  /** One-time code from an admin for choosing a PIN, stored like the PIN */
+  setupCodeHash?: string;
+  setupCodeSalt?: string;
+  setupCodeExpiresAt?: number;
+  disabled?: boolean;
+  updatedAt?: number;
 }
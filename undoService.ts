@@ -0,0 +1,68 @@
+
+import { ChangeKind, SortConfig, StockLog } from './types';
+import { ChangeDraft, applyChange } from './historyService';
+
+const MAX_UNDO_STEPS = 100;
+// Keystrokes in one cell that follow each other this closely are undone together
+const TYPING_WINDOW_MS = 2000;
+
+export type UndoEntry =
+  | { kind: 'edit'; changes: ChangeDraft[]; at: number }
+  | { kind: 'sort'; section: string; before: SortConfig; after: SortConfig };
+
+export interface UndoStack {
+  past: UndoEntry[];
+  future: UndoEntry[];
+}
+
+export const EMPTY_UNDO_STACK: UndoStack = { past: [], future: [] };
+
+const cellKey = (entry: UndoEntry | undefined) => {
+  if (entry?.kind !== 'edit' || entry.changes.length !== 1) return null;
+  const [change] = entry.changes;
+  return change.kind === ChangeKind.CELL ? `${change.section}:${change.rowId}:${change.columnId}` : null;
+};
+
+const push = (stack: UndoStack, entry: UndoEntry): UndoStack => {
+  const last = stack.past[stack.past.length - 1];
+  const key = cellKey(entry);
+  if (key && key === cellKey(last) && last.kind === 'edit' && entry.kind === 'edit' && entry.at - last.at < TYPING_WINDOW_MS) {
+    const merged = { ...last.changes[0], newValue: entry.changes[0].newValue };
+    return { past: [...stack.past.slice(0, -1), { ...last, changes: [merged], at: entry.at }], future: [] };
+  }
+  return { past: [...stack.past, entry].slice(-MAX_UNDO_STEPS), future: [] };
+};
+
+/**
+ * Adds changes worked out with `diffLogs` to the stack. Review steps are left out on
+ * purpose: they are sign-offs, not table edits, and undoing an edit must not withdraw or reopen the log.
+ * Attachments are left out too; removing one asks first and cannot be undone.
+ */
+export const pushChanges = (stack: UndoStack, drafts: ChangeDraft[], at = Date.now()): UndoStack => {
+  const changes = drafts.filter(c => c.kind !== ChangeKind.LOCK && c.kind !== ChangeKind.ATTACHMENT);
+  return changes.length ? push(stack, { kind: 'edit', changes, at }) : stack;
+};
+
+export const pushSort = (stack: UndoStack, section: string, before: SortConfig, after: SortConfig) =>
+  push(stack, { kind: 'sort', section, before, after });
+
+export const canUndo = (stack: UndoStack) => stack.past.length > 0;
+export const canRedo = (stack: UndoStack) => stack.future.length > 0;
+
+/** Moves the latest entry onto the redo side and returns it so the caller can take it back. */
+export const popUndo = (stack: UndoStack): { stack: UndoStack; entry: UndoEntry } | null => {
+  const entry = stack.past[stack.past.length - 1];
+  if (!entry) return null;
+  return { entry, stack: { past: stack.past.slice(0, -1), future: [...stack.future, entry] } };
+};
+
+export const popRedo = (stack: UndoStack): { stack: UndoStack; entry: UndoEntry } | null => {
+  const entry = stack.future[stack.future.length - 1];
+  if (!entry) return null;
+  return { entry, stack: { past: [...stack.past, entry], future: stack.future.slice(0, -1) } };
+};
+
+export const applyEdit = (log: StockLog, entry: Extract<UndoEntry, { kind: 'edit' }>, direction: 'undo' | 'redo') =>
+  direction === 'undo'
+    ? entry.changes.reduceRight((current, change) => applyChange(current, change, 'undo'), log)
+    : entry.changes.reduce((current, change) => applyChange(current, change, 'redo'), log);